@@ -1,4 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AnalysisUsage, BatchRunEstimate, ModelOption } from '@shared/schema';
+import { formatCost } from '@shared/pricing';
+import { describeFilter, type TraceFilter } from '@shared/filters';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,8 +10,10 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import UsageLabel from '@/components/UsageLabel';
 import { 
   Search, Filter, Download, RefreshCw, Play, Loader2, Plus, 
   Trash2, Edit3, Save, X, PlayCircle, PauseCircle, Settings, Eye, FileDown 
@@ -15,6 +21,7 @@ import {
 
 interface BatchJob {
   id: string;
+  serverId?: number;
   name: string;
   query: string;
   model: string;
@@ -24,30 +31,33 @@ interface BatchJob {
   error?: string;
   createdAt: string;
   lastRunAt?: string;
+  progress?: BatchJobProgress;
+}
+
+interface BatchJobProgress {
+  completedChunks: number;
+  totalChunks: number;
+  failedChunks: number;
+  matches: number;
 }
 
 interface BatchJobResult {
   trace: string;
+  traceId: string;
   originalIndex: number;
   relevanceScore: number;
   reasoning: string;
 }
 
 interface BatchJobManagerProps {
-  traces: string[];
+  scope?: TraceFilter; // Runs only analyze the traces matching this filter
   analysisId: number | null;
   onClose: () => void;
   batchJobs: BatchJob[];
   setBatchJobs: React.Dispatch<React.SetStateAction<BatchJob[]>>;
 }
 
-const AVAILABLE_MODELS = [
-  { value: 'o4-mini', label: 'o4 Mini' },
-  { value: 'o3', label: 'o3' },
-  { value: 'o3-mini', label: 'o3 Mini' }
-];
-
-export default function BatchJobManager({ traces, analysisId, onClose, batchJobs, setBatchJobs }: BatchJobManagerProps) {
+export default function BatchJobManager({ scope, analysisId, onClose, batchJobs, setBatchJobs }: BatchJobManagerProps) {
   // Use parent state instead of local state
   const jobs = batchJobs;
   const setJobs = setBatchJobs;
@@ -57,6 +67,7 @@ export default function BatchJobManager({ traces, analysisId, onClose, batchJobs
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingJob, setEditingJob] = useState<BatchJob | null>(null);
   const [viewingResults, setViewingResults] = useState<BatchJob | null>(null);
+  const [pendingRun, setPendingRun] = useState<{ jobs: BatchJob[]; estimate: BatchRunEstimate } | null>(null);
 
   // New job form state
   const [newJobName, setNewJobName] = useState('');
@@ -64,51 +75,108 @@ export default function BatchJobManager({ traces, analysisId, onClose, batchJobs
   const [newJobModel, setNewJobModel] = useState('o4-mini');
   const [newJobMaxResults, setNewJobMaxResults] = useState(20);
 
-  // No need to load or save jobs here - handled by parent component
+  // Batch jobs use function calling, so only offer reasoning-capable models
+  const { data: models = [] } = useQuery<ModelOption[]>({
+    queryKey: ['/api/models'],
+  });
+  const availableModels = models.filter(model => model.roles.includes('reasoning'));
+  const defaultJobModel = availableModels.some(model => model.value === 'o4-mini') ? 'o4-mini' : availableModels[0]?.value ?? 'o4-mini';
+
+  useEffect(() => {
+    if (availableModels.length > 0 && !availableModels.some(model => model.value === newJobModel)) {
+      setNewJobModel(defaultJobModel);
+    }
+  }, [models]);
+
+  // Tokens and cost per job across all of its runs
+  const queryClient = useQueryClient();
+  const { data: usage } = useQuery<AnalysisUsage>({
+    queryKey: ['usage', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/usage`);
+      if (!response.ok) throw new Error('Failed to fetch usage');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  const eventSourcesRef = useRef<Map<string, EventSource>>(new Map());
+
+  // Jobs live on the server; reload them (and reconnect to running ones) whenever the analysis changes
+  useEffect(() => {
+    loadSavedJobs();
+  }, [analysisId]);
+
+  useEffect(() => {
+    const eventSources = eventSourcesRef.current;
+    return () => {
+      eventSources.forEach(source => source.close());
+      eventSources.clear();
+    };
+  }, []);
+
+  const toClientJob = (serverJob: any): BatchJob => ({
+    id: serverJob.jobId,
+    serverId: serverJob.id,
+    name: serverJob.name,
+    query: serverJob.query,
+    model: serverJob.model,
+    maxResults: serverJob.maxResults,
+    // A queued job is already in flight; one a restart left queued is reconciled by its events stream
+    status: serverJob.active || serverJob.status === 'queued' ? 'running' : serverJob.status,
+    results: serverJob.results ?? undefined,
+    error: serverJob.error ?? undefined,
+    createdAt: serverJob.createdAt,
+    lastRunAt: serverJob.lastRunAt ?? undefined,
+  });
 
   const loadSavedJobs = async () => {
-    try {
-      // Load from localStorage first
-      const savedJobs = localStorage.getItem('batchJobs');
-      if (savedJobs) {
-        setJobs(JSON.parse(savedJobs));
-      }
+    if (!analysisId) return;
 
-      // Load from server if analysisId is available
-      if (analysisId) {
-        const response = await fetch(`/api/batch-jobs/${analysisId}`);
-        if (response.ok) {
-          const serverJobs = await response.json();
-          setJobs(serverJobs);
-        }
+    try {
+      const response = await fetch(`/api/batch-jobs/${analysisId}`);
+      if (response.ok) {
+        const serverJobs: BatchJob[] = (await response.json()).map(toClientJob);
+        setJobs(serverJobs);
+        serverJobs
+          .filter(job => job.status === 'running')
+          .forEach(job => subscribeToJob(job.id, job.serverId!));
       }
     } catch (error) {
       console.error('Failed to load saved jobs:', error);
     }
   };
 
-  const saveJobsToServer = async () => {
-    if (!analysisId) return;
+  // Saves job definitions and returns the server ids keyed by client job id
+  const saveJobsToServer = async (jobsToSave: BatchJob[]): Promise<Map<string, number>> => {
+    const serverIds = new Map<string, number>();
+    if (!analysisId) return serverIds;
 
     try {
-      await fetch('/api/batch-jobs', {
+      const response = await fetch('/api/batch-jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           analysisId,
-          jobs: jobs.map(job => ({
-            id: job.id,
+          jobs: jobsToSave.map(job => ({
+            jobId: job.id,
             name: job.name,
             query: job.query,
             model: job.model,
-            maxResults: job.maxResults,
-            createdAt: job.createdAt
+            maxResults: job.maxResults
           }))
         })
       });
+
+      if (response.ok) {
+        const savedJobs = await response.json();
+        savedJobs.forEach((saved: any) => serverIds.set(saved.jobId, saved.id));
+        setJobs(prev => prev.map(job => serverIds.has(job.id) ? { ...job, serverId: serverIds.get(job.id) } : job));
+      }
     } catch (error) {
       console.error('Failed to save jobs to server:', error);
     }
+    return serverIds;
   };
 
   const createJob = () => {
@@ -124,66 +192,120 @@ export default function BatchJobManager({ traces, analysisId, onClose, batchJobs
       createdAt: new Date().toISOString()
     };
 
-    setJobs(prev => [...prev, newJob]);
+    const updatedJobs = [...jobs, newJob];
+    setJobs(updatedJobs);
     setNewJobName('');
     setNewJobQuery('');
-    setNewJobModel('o4-mini');
+    setNewJobModel(defaultJobModel);
     setNewJobMaxResults(20);
     setShowCreateModal(false);
-    saveJobsToServer();
+    saveJobsToServer(updatedJobs);
   };
 
   const updateJob = (updatedJob: BatchJob) => {
-    setJobs(prev => prev.map(job => job.id === updatedJob.id ? updatedJob : job));
+    const updatedJobs = jobs.map(job => job.id === updatedJob.id ? updatedJob : job);
+    setJobs(updatedJobs);
     setEditingJob(null);
-    saveJobsToServer();
+    saveJobsToServer(updatedJobs);
   };
 
   const deleteJob = (jobId: string) => {
-    setJobs(prev => prev.filter(job => job.id !== jobId));
+    const updatedJobs = jobs.filter(job => job.id !== jobId);
+    setJobs(updatedJobs);
     setSelectedJobs(prev => {
       const newSet = new Set(prev);
       newSet.delete(jobId);
       return newSet;
     });
-    saveJobsToServer();
+    eventSourcesRef.current.get(jobId)?.close();
+    eventSourcesRef.current.delete(jobId);
+    saveJobsToServer(updatedJobs);
+  };
+
+  // Follow a job's status and progress events from the server queue
+  const subscribeToJob = (jobId: string, serverId: number) => {
+    eventSourcesRef.current.get(jobId)?.close();
+
+    const source = new EventSource(`/api/batch-jobs/${serverId}/events`);
+    eventSourcesRef.current.set(jobId, source);
+
+    const closeSource = () => {
+      source.close();
+      if (eventSourcesRef.current.get(jobId) === source) {
+        eventSourcesRef.current.delete(jobId);
+      }
+    };
+
+    source.onmessage = (message) => {
+      const data = JSON.parse(message.data);
+
+      if (data.type === 'queued' || data.type === 'running') {
+        setJobs(prev => prev.map(j => 
+          j.id === jobId ? { ...j, status: 'running', error: undefined } : j
+        ));
+      } else if (data.type === 'progress') {
+        const { completedChunks, totalChunks, failedChunks, matches } = data;
+        setJobs(prev => prev.map(j => 
+          j.id === jobId ? { ...j, progress: { completedChunks, totalChunks, failedChunks, matches } } : j
+        ));
+      } else if (data.type === 'complete') {
+        closeSource();
+        queryClient.invalidateQueries({ queryKey: ['usage', analysisId] });
+        setJobs(prev => prev.map(j => 
+          j.id === jobId ? { 
+            ...j, 
+            status: 'completed', 
+            results: data.results,
+            error: data.warning,
+            progress: undefined,
+            lastRunAt: new Date().toISOString()
+          } : j
+        ));
+      } else if (data.type === 'error') {
+        closeSource();
+        queryClient.invalidateQueries({ queryKey: ['usage', analysisId] });
+        setJobs(prev => prev.map(j => 
+          j.id === jobId ? { ...j, status: 'error', error: data.error, progress: undefined } : j
+        ));
+      }
+    };
+
+    // The server closes the stream once the job settles; re-read the saved state instead of retrying
+    source.onerror = () => {
+      if (eventSourcesRef.current.get(jobId) !== source) return;
+      closeSource();
+      loadSavedJobs();
+    };
   };
 
   const runSingleJob = async (job: BatchJob) => {
     if (!analysisId) return;
 
     setJobs(prev => prev.map(j => 
-      j.id === job.id ? { ...j, status: 'running', error: undefined } : j
+      j.id === job.id ? { ...j, status: 'running', error: undefined, progress: undefined } : j
     ));
 
     try {
-      const response = await fetch('/api/batch-job', {
+      const serverId = job.serverId ?? (await saveJobsToServer(jobs)).get(job.id);
+      if (!serverId) {
+        throw new Error('Failed to save batch job');
+      }
+
+      const response = await fetch(`/api/batch-jobs/${serverId}/run`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          analysisId,
-          query: job.query,
-          model: job.model,
-          maxResults: job.maxResults,
-          fallbackTraces: traces.length > 0 ? traces : undefined,
+          filter: scope,
         }),
       });
 
-      if (!response.ok) {
+      // 409 means the job is already running on the server; just follow it
+      if (!response.ok && response.status !== 409) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to run batch job');
       }
 
-      const data = await response.json();
-      
-      setJobs(prev => prev.map(j => 
-        j.id === job.id ? { 
-          ...j, 
-          status: 'completed', 
-          results: data.results,
-          lastRunAt: new Date().toISOString()
-        } : j
-      ));
+      subscribeToJob(job.id, serverId);
     } catch (error) {
       setJobs(prev => prev.map(j => 
         j.id === job.id ? { 
@@ -195,13 +317,32 @@ export default function BatchJobManager({ traces, analysisId, onClose, batchJobs
     }
   };
 
-  const runAllJobs = async () => {
-    const jobsToRun = jobs.filter(job => selectedJobs.has(job.id));
-    if (jobsToRun.length === 0) return;
+  // Show what the jobs will cost before anything is sent; the server enforces the limits either way
+  const requestRun = async (jobsToRun: BatchJob[]) => {
+    if (!analysisId || jobsToRun.length === 0) return;
 
+    try {
+      const response = await fetch('/api/batch-jobs/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          analysisId,
+          jobs: jobsToRun.map(job => ({ jobId: job.id, query: job.query, model: job.model, maxResults: job.maxResults })),
+          filter: scope,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to estimate batch jobs');
+      setPendingRun({ jobs: jobsToRun, estimate: await response.json() });
+    } catch (error) {
+      console.error('❌ Estimate failed, running without one:', error);
+      runJobs(jobsToRun);
+    }
+  };
+
+  const runJobs = async (jobsToRun: BatchJob[]) => {
     setIsRunningAll(true);
 
-    // Run all jobs in parallel
+    // Queue every selected job; the server runs them and streams progress back
     const promises = jobsToRun.map(job => runSingleJob(job));
     
     try {
@@ -340,6 +481,12 @@ Export generated on: ${new Date().toLocaleString()}
               Back to Traces
             </Button>
           </div>
+          {scope && (
+            <div className="flex items-center space-x-2 mt-2 text-xs text-blue-300">
+              <Filter className="w-3 h-3" />
+              <span className="truncate">Runs only analyze traces where {describeFilter(scope)}</span>
+            </div>
+          )}
         </CardHeader>
 
         <CardContent className="flex-1 overflow-hidden p-6">
@@ -387,7 +534,7 @@ Export generated on: ${new Date().toLocaleString()}
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent className="bg-slate-800 border-slate-700">
-                              {AVAILABLE_MODELS.map(model => (
+                              {availableModels.map(model => (
                                 <SelectItem key={model.value} value={model.value}>
                                   {model.label}
                                 </SelectItem>
@@ -437,7 +584,7 @@ Export generated on: ${new Date().toLocaleString()}
                 </Button>
 
                 <Button
-                  onClick={runAllJobs}
+                  onClick={() => requestRun(jobs.filter(job => selectedJobs.has(job.id)))}
                   disabled={selectedJobs.size === 0 || isRunningAll || !analysisId}
                   className="bg-green-600 hover:bg-green-700 text-white"
                 >
@@ -539,7 +686,24 @@ Export generated on: ${new Date().toLocaleString()}
                             </div>
                             <p className="text-slate-400 text-sm mb-2">{job.query}</p>
                             {job.error && (
-                              <p className="text-red-400 text-sm">{job.error}</p>
+                              <p className={`text-sm ${job.status === 'completed' ? 'text-amber-400' : 'text-red-400'}`}>{job.error}</p>
+                            )}
+                            {job.status === 'running' && job.progress && job.progress.totalChunks > 0 && (
+                              <div className="mb-2">
+                                <div className="flex items-center justify-between text-xs text-slate-400 mb-1">
+                                  <span>
+                                    Chunk {job.progress.completedChunks}/{job.progress.totalChunks}
+                                    {job.progress.failedChunks > 0 && (
+                                      <span className="text-red-400"> · {job.progress.failedChunks} failed</span>
+                                    )}
+                                  </span>
+                                  <span>{job.progress.matches} matches so far</span>
+                                </div>
+                                <Progress
+                                  value={(job.progress.completedChunks / job.progress.totalChunks) * 100}
+                                  className="h-1.5 bg-slate-700"
+                                />
+                              </div>
                             )}
                             <div className="flex items-center space-x-4 text-xs text-slate-500">
                               <span>Max: {job.maxResults}</span>
@@ -547,6 +711,9 @@ Export generated on: ${new Date().toLocaleString()}
                               {job.lastRunAt && (
                                 <span>Last run: {new Date(job.lastRunAt).toLocaleDateString()}</span>
                               )}
+                              {job.serverId && usage?.byBatchJob[job.serverId] && (
+                                <UsageLabel usage={usage.byBatchJob[job.serverId]} />
+                              )}
                             </div>
                           </div>
                         </div>
@@ -554,7 +721,7 @@ Export generated on: ${new Date().toLocaleString()}
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => runSingleJob(job)}
+                            onClick={() => requestRun([job])}
                             disabled={job.status === 'running' || !analysisId}
                             className="text-slate-400 hover:text-slate-200"
                           >
@@ -647,7 +814,7 @@ Export generated on: ${new Date().toLocaleString()}
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent className="bg-slate-800 border-slate-700">
-                        {AVAILABLE_MODELS.map(model => (
+                        {availableModels.map(model => (
                           <SelectItem key={model.value} value={model.value}>
                             {model.label}
                           </SelectItem>
@@ -689,6 +856,88 @@ Export generated on: ${new Date().toLocaleString()}
           </Dialog>
         )}
 
+        {/* Pre-flight estimate */}
+        {pendingRun && (
+          <Dialog open={!!pendingRun} onOpenChange={() => setPendingRun(null)}>
+            <DialogContent className="bg-slate-900 border-slate-800 max-w-2xl">
+              <DialogHeader>
+                <DialogTitle className="text-slate-100">
+                  Run {pendingRun.jobs.length} job{pendingRun.jobs.length === 1 ? '' : 's'}?
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <table className="w-full text-sm text-slate-300">
+                  <thead>
+                    <tr className="text-slate-400 border-b border-slate-700 text-xs">
+                      <th className="text-left font-medium py-1.5">Job</th>
+                      <th className="text-left font-medium py-1.5">Model</th>
+                      <th className="text-right font-medium py-1.5">Traces</th>
+                      <th className="text-right font-medium py-1.5">Tokens</th>
+                      <th className="text-right font-medium py-1.5">Est. cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pendingRun.estimate.jobs.map(estimate => {
+                      const job = pendingRun.jobs.find(j => j.id === estimate.jobId);
+                      return (
+                        <tr key={estimate.jobId} className="border-b border-slate-800">
+                          <td className="py-1.5 truncate max-w-[200px]">{job?.name}</td>
+                          <td className="py-1.5 text-slate-400">{job?.model}</td>
+                          <td className="py-1.5 text-right">{estimate.traceCount} ({estimate.chunks} chunks)</td>
+                          <td className="py-1.5 text-right">{(estimate.promptTokens + estimate.completionTokens).toLocaleString()}</td>
+                          <td className={`py-1.5 text-right ${estimate.overLimit ? 'text-red-400' : ''}`}>{formatCost(estimate.cost)}</td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="font-medium">
+                      <td className="py-1.5" colSpan={3}>Total</td>
+                      <td className="py-1.5 text-right">{(pendingRun.estimate.total.promptTokens + pendingRun.estimate.total.completionTokens).toLocaleString()}</td>
+                      <td className="py-1.5 text-right">{formatCost(pendingRun.estimate.total.cost)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+
+                <div className="text-xs text-slate-400 space-y-1">
+                  <p>Estimates assume ~4 characters per token and full result lists; reasoning tokens are not included.</p>
+                  {pendingRun.estimate.budget.jobCostLimit !== null && (
+                    <p>Per-job limit: {formatCost(pendingRun.estimate.budget.jobCostLimit)}</p>
+                  )}
+                  {pendingRun.estimate.budget.dailyCostLimit !== null && (
+                    <p className={pendingRun.estimate.budget.spentToday + pendingRun.estimate.total.cost > pendingRun.estimate.budget.dailyCostLimit ? 'text-red-400' : ''}>
+                      Daily limit: {formatCost(pendingRun.estimate.budget.spentToday)} of {formatCost(pendingRun.estimate.budget.dailyCostLimit)} used today
+                    </p>
+                  )}
+                  {pendingRun.estimate.jobs.some(estimate => estimate.overLimit) && (
+                    <p className="text-red-400">
+                      Jobs over the limit will be {pendingRun.estimate.budget.overrun === 'truncate' ? 'cut down to the traces that fit' : 'rejected'}.
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setPendingRun(null)}
+                    className="border-slate-700 text-slate-300"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      runJobs(pendingRun.jobs);
+                      setPendingRun(null);
+                    }}
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <PlayCircle className="w-4 h-4 mr-2" />
+                    Run
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+
         {/* View Results Modal */}
         {viewingResults && (
           <Dialog open={!!viewingResults} onOpenChange={() => setViewingResults(null)}>
@@ -16,6 +16,7 @@ interface BatchJobViewProps {
 
 interface BatchJobResult {
   trace: string;
+  traceId: string;
   originalIndex: number;
   relevanceScore: number;
   reasoning: string;
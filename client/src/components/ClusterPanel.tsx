@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import type { Cluster } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Edit3, GitMerge, Layers, Plus, Trash2, X } from 'lucide-react';
+
+interface ClusterPanelProps {
+  analysisId: number;
+  clusters: Cluster[];
+  selectedTraceIds: Set<string>;
+  activeClusterId: number | null;
+  onSelectCluster: (clusterId: number | null) => void;
+  onClustersChanged: () => void;
+}
+
+export function formatClusterName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+export default function ClusterPanel({ analysisId, clusters, selectedTraceIds, activeClusterId, onSelectCluster, onClustersChanged }: ClusterPanelProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [mergingId, setMergingId] = useState<number | null>(null);
+  const [newClusterName, setNewClusterName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Cluster update failed');
+      }
+      onClustersChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Cluster update failed');
+    }
+  };
+
+  const startEditing = (cluster: Cluster) => {
+    setEditingId(cluster.id);
+    setEditName(cluster.name);
+    setEditDescription(cluster.description || '');
+  };
+
+  const saveEdit = async (cluster: Cluster) => {
+    if (!editName.trim()) return;
+    await request(`/api/clusters/${cluster.id}`, 'PATCH', {
+      name: editName.trim(),
+      description: editDescription.trim() || null,
+    });
+    setEditingId(null);
+  };
+
+  const deleteCluster = async (cluster: Cluster) => {
+    if (activeClusterId === cluster.id) onSelectCluster(null);
+    await request(`/api/clusters/${cluster.id}`, 'DELETE');
+  };
+
+  const mergeInto = async (cluster: Cluster, targetId: string) => {
+    if (activeClusterId === cluster.id) onSelectCluster(Number(targetId));
+    await request(`/api/clusters/${cluster.id}/merge`, 'POST', { targetId: Number(targetId) });
+    setMergingId(null);
+  };
+
+  const addSelected = async (cluster: Cluster) => {
+    const traceIds = Array.from(new Set([...cluster.traceIds, ...Array.from(selectedTraceIds)]));
+    await request(`/api/clusters/${cluster.id}`, 'PATCH', { traceIds });
+  };
+
+  const createFromSelected = async () => {
+    if (!newClusterName.trim() || selectedTraceIds.size === 0) return;
+    await request(`/api/analysis/${analysisId}/clusters`, 'POST', {
+      name: newClusterName.trim(),
+      traceIds: Array.from(selectedTraceIds),
+    });
+    setNewClusterName('');
+  };
+
+  return (
+    <div className="mt-4 p-3 bg-slate-800/40 border border-slate-700 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-slate-300 text-sm font-medium">
+          <Layers size={14} />
+          <span>Clusters</span>
+          <span className="text-slate-500 font-normal">({clusters.length})</span>
+        </div>
+        {activeClusterId !== null && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectCluster(null)}
+            className="h-6 px-2 text-xs text-slate-400 hover:text-slate-200"
+          >
+            <X size={12} className="mr-1" />
+            Show all traces
+          </Button>
+        )}
+      </div>
+
+      {clusters.length === 0 && (
+        <p className="text-xs text-slate-500">
+          Ask a question in the chat to build clusters, or create one from starred traces. You can also type "merge X into Y" or "split Z" in the chat.
+        </p>
+      )}
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {clusters.map(cluster => (
+          <div
+            key={cluster.id}
+            className={`rounded-md px-2 py-1.5 text-sm ${
+              activeClusterId === cluster.id ? 'bg-blue-900/30 border border-blue-700/60' : 'hover:bg-slate-700/40 border border-transparent'
+            }`}
+          >
+            {editingId === cluster.id ? (
+              <div className="space-y-1">
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="h-7 bg-slate-900 border-slate-600 text-slate-200 text-xs"
+                />
+                <Input
+                  value={editDescription}
+                  onChange={(e) => setEditDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  className="h-7 bg-slate-900 border-slate-600 text-slate-200 text-xs"
+                />
+                <div className="flex justify-end space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-6 w-6 p-0 text-slate-400">
+                    <X size={12} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => saveEdit(cluster)} className="h-6 w-6 p-0 text-green-400">
+                    <Check size={12} />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onSelectCluster(activeClusterId === cluster.id ? null : cluster.id)}
+                  title={cluster.definingPrompt ? `Defined by: ${cluster.definingPrompt}` : undefined}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="text-slate-200 truncate">{formatClusterName(cluster.name)}</span>
+                    <Badge variant="secondary" className="bg-slate-700 text-slate-300 border-slate-600 text-xs px-1.5 py-0">
+                      {cluster.traceIds.length}
+                    </Badge>
+                  </div>
+                  {cluster.description && (
+                    <p className="text-xs text-slate-400 truncate">{cluster.description}</p>
+                  )}
+                </button>
+
+                {mergingId === cluster.id ? (
+                  <Select onValueChange={(value) => mergeInto(cluster, value)}>
+                    <SelectTrigger className="h-7 w-36 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+                      <SelectValue placeholder="Merge into..." />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-600">
+                      {clusters.filter(other => other.id !== cluster.id).map(other => (
+                        <SelectItem key={other.id} value={String(other.id)}>{formatClusterName(other.name)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {selectedTraceIds.size > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => addSelected(cluster)}
+                        title={`Add ${selectedTraceIds.size} starred traces`}
+                        className="h-6 w-6 p-0 text-slate-400 hover:text-green-300"
+                      >
+                        <Plus size={12} />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(cluster)} title="Rename" className="h-6 w-6 p-0 text-slate-400 hover:text-slate-200">
+                      <Edit3 size={12} />
+                    </Button>
+                    {clusters.length > 1 && (
+                      <Button variant="ghost" size="sm" onClick={() => setMergingId(cluster.id)} title="Merge" className="h-6 w-6 p-0 text-slate-400 hover:text-slate-200">
+                        <GitMerge size={12} />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => deleteCluster(cluster)} title="Delete" className="h-6 w-6 p-0 text-slate-400 hover:text-red-400">
+                      <Trash2 size={12} />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selectedTraceIds.size > 0 && (
+        <div className="flex items-center space-x-2 pt-1">
+          <Input
+            value={newClusterName}
+            onChange={(e) => setNewClusterName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createFromSelected()}
+            placeholder={`New cluster from ${selectedTraceIds.size} starred traces`}
+            className="h-7 bg-slate-900 border-slate-600 text-slate-200 text-xs"
+          />
+          <Button
+            size="sm"
+            onClick={createFromSelected}
+            disabled={!newClusterName.trim()}
+            className="h-7 bg-blue-600 hover:bg-blue-700 text-white text-xs"
+          >
+            Create
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
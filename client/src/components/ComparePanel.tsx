@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ComparisonStat, ComparisonWinner, ModelOption, Prompt, PromptComparison, RetrievalStrategy } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Columns2, Loader2, Scale, Send, ThumbsUp } from 'lucide-react';
+
+interface ComparePanelProps {
+  analysisId: number | null;
+  chatModels: ModelOption[];
+  selectedModel: string;
+  reasoningModel: string;
+  editorPrompt: string;
+  customReasoningPrompt?: string;
+  maxTracesForReasoning: number;
+  retrievalStrategy: RetrievalStrategy;
+  onShowTraces: (traceIds: string[]) => void;
+  onClose: () => void;
+}
+
+// 'default', 'editor' (the unsaved text in Settings) or the id of a saved version
+type PromptChoice = string;
+
+interface ArmSetup {
+  model: string;
+  prompt: PromptChoice;
+}
+
+interface ArmResult {
+  response: string;
+  tracesWithTags: Array<{ trace: string; traceId: string; tags: string[] }>;
+  status: 'streaming' | 'selecting' | 'complete';
+}
+
+const ARM_LABELS = ['A', 'B'] as const;
+
+const emptyResult = (): ArmResult => ({ response: '', tracesWithTags: [], status: 'streaming' });
+
+export default function ComparePanel({
+  analysisId,
+  chatModels,
+  selectedModel,
+  reasoningModel,
+  editorPrompt,
+  customReasoningPrompt,
+  maxTracesForReasoning,
+  retrievalStrategy,
+  onShowTraces,
+  onClose,
+}: ComparePanelProps) {
+  const queryClient = useQueryClient();
+  const [query, setQuery] = useState('');
+  const [setups, setSetups] = useState<ArmSetup[]>(() => [
+    { model: selectedModel, prompt: 'default' },
+    { model: chatModels.find(model => model.value !== selectedModel)?.value ?? selectedModel, prompt: 'editor' },
+  ]);
+  const [results, setResults] = useState<ArmResult[] | null>(null);
+  const [comparison, setComparison] = useState<PromptComparison | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: prompts = [] } = useQuery<Prompt[]>({
+    queryKey: ['prompts', 'analysis'],
+    queryFn: async () => {
+      const response = await fetch('/api/prompts?kind=analysis');
+      if (!response.ok) throw new Error('Failed to fetch prompts');
+      return response.json();
+    },
+  });
+
+  const { data: stats = [] } = useQuery<ComparisonStat[]>({
+    queryKey: ['comparison-stats'],
+    queryFn: async () => {
+      const response = await fetch('/api/comparisons/stats');
+      if (!response.ok) throw new Error('Failed to fetch comparison stats');
+      return response.json();
+    },
+  });
+
+  const updateSetup = (arm: number, update: Partial<ArmSetup>) => {
+    setSetups(previous => previous.map((setup, index) => index === arm ? { ...setup, ...update } : setup));
+  };
+
+  const updateResult = (arm: number, update: (result: ArmResult) => ArmResult) => {
+    setResults(previous => previous && previous.map((result, index) => index === arm ? update(result) : result));
+  };
+
+  const runComparison = async () => {
+    if (!analysisId || !query.trim()) return;
+
+    setIsRunning(true);
+    setError(null);
+    setComparison(null);
+    setResults([emptyResult(), emptyResult()]);
+
+    try {
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          analysisId,
+          query: query.trim(),
+          setups: setups.map(setup => ({
+            model: setup.model,
+            promptId: /^\d+$/.test(setup.prompt) ? Number(setup.prompt) : undefined,
+            prompt: setup.prompt === 'editor' ? editorPrompt : undefined,
+          })),
+          reasoningModel,
+          customReasoningPrompt,
+          maxTracesForReasoning,
+          retrievalStrategy,
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Comparison failed: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue;
+          const data = JSON.parse(event.slice(6));
+
+          if (data.type === 'content') {
+            updateResult(data.arm, result => ({ ...result, response: result.response + data.content }));
+          } else if (data.type === 'reasoning_start') {
+            updateResult(data.arm, result => ({ ...result, status: 'selecting' }));
+          } else if (data.type === 'arm_complete') {
+            updateResult(data.arm, result => ({ ...result, tracesWithTags: data.tracesWithTags, status: 'complete' }));
+          } else if (data.type === 'complete') {
+            setComparison(data.comparison);
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('❌ Comparison error:', error);
+      setError(error instanceof Error ? error.message : 'Comparison failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const vote = async (winner: ComparisonWinner) => {
+    if (!comparison) return;
+    const response = await fetch(`/api/comparisons/${comparison.id}/vote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ winner }),
+    });
+    if (response.ok) {
+      setComparison(await response.json());
+      queryClient.invalidateQueries({ queryKey: ['comparison-stats'] });
+    }
+  };
+
+  // Traces both answers picked are highlighted in each column
+  const sharedTraceIds = results
+    ? new Set(results[0].tracesWithTags.map(({ traceId }) => traceId).filter(traceId => results[1].tracesWithTags.some(other => other.traceId === traceId)))
+    : new Set<string>();
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700 flex flex-col shadow-xl backdrop-blur-sm" style={{ height: 'calc(100vh - 220px)' }}>
+      <CardHeader className="flex-shrink-0 pb-4 border-b border-slate-700/50">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-slate-100 flex items-center space-x-3 text-xl font-semibold">
+            <div className="p-2 bg-slate-800 rounded-lg">
+              <Columns2 className="text-slate-300" size={20} />
+            </div>
+            <span>Compare Prompts</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose} className="border-slate-600 text-slate-300 hover:bg-slate-800">
+            <ArrowLeft size={14} className="mr-1" />
+            Back to chat
+          </Button>
+        </div>
+        <p className="text-sm text-slate-400 mt-2">
+          Ask one question with two prompt versions or models. Both answers see the same trace sample and no chat history.
+        </p>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden p-4 flex flex-col gap-3">
+        <div className="grid grid-cols-2 gap-3">
+          {setups.map((setup, arm) => (
+            <div key={arm} className="space-y-2 p-3 rounded-lg border border-slate-700 bg-slate-800/40">
+              <div className="text-xs font-semibold text-slate-300">Setup {ARM_LABELS[arm]}</div>
+              <Select value={setup.model} onValueChange={(model) => updateSetup(arm, { model })} disabled={isRunning}>
+                <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-200 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-600">
+                  {chatModels.map(model => (
+                    <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={setup.prompt} onValueChange={(prompt) => updateSetup(arm, { prompt })} disabled={isRunning}>
+                <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-200 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-600">
+                  <SelectItem value="default">Default prompt</SelectItem>
+                  <SelectItem value="editor">Prompt in Settings (unsaved)</SelectItem>
+                  {prompts.map(prompt => (
+                    <SelectItem key={prompt.id} value={String(prompt.id)}>{prompt.name} v{prompt.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Textarea
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={analysisId ? 'Question to ask both setups...' : 'Upload a trace file first'}
+            disabled={!analysisId || isRunning}
+            className="bg-slate-800 border-slate-600 text-slate-200 placeholder-slate-400 min-h-[60px] resize-none"
+          />
+          <Button onClick={runComparison} disabled={!analysisId || !query.trim() || isRunning} className="bg-blue-600 hover:bg-blue-700 text-white self-end">
+            {isRunning ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <ScrollArea className="flex-1">
+          {results && (
+            <div className="grid grid-cols-2 gap-3 pr-2">
+              {results.map((result, arm) => (
+                <div key={arm} className="p-3 rounded-lg border border-slate-700 bg-slate-800/30 space-y-3 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-slate-200">Answer {ARM_LABELS[arm]}</span>
+                    {result.status !== 'complete' && (
+                      <span className="flex items-center gap-1 text-xs text-slate-400">
+                        <Loader2 size={12} className="animate-spin" />
+                        {result.status === 'streaming' ? 'Answering' : 'Selecting traces'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap break-words">{result.response}</div>
+                  {result.tracesWithTags.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="text-xs text-slate-400">
+                        {result.tracesWithTags.length} traces, {result.tracesWithTags.filter(({ traceId }) => sharedTraceIds.has(traceId)).length} also picked by the other answer
+                      </div>
+                      {result.tracesWithTags.map(({ trace, traceId, tags }) => (
+                        <div
+                          key={traceId}
+                          className={`p-2 rounded text-xs border ${sharedTraceIds.has(traceId) ? 'border-emerald-600/60 bg-emerald-900/20 text-slate-200' : 'border-slate-700 text-slate-400'}`}
+                        >
+                          <div className="truncate">{trace}</div>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {tags.map(tag => (
+                              <Badge key={tag} variant="secondary" className="bg-slate-700 text-slate-300 border-slate-600 text-[10px] px-1 py-0">{tag}</Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onShowTraces(result.tracesWithTags.map(({ traceId }) => traceId))}
+                        className="h-7 border-slate-600 text-slate-300 hover:bg-slate-700 text-xs"
+                      >
+                        Star these traces
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {comparison && (
+            <div className="flex items-center justify-center gap-2 py-4">
+              <span className="text-sm text-slate-400 mr-2">Which answer is better?</span>
+              {(['A', 'tie', 'B'] as const).map(winner => (
+                <Button
+                  key={winner}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => vote(winner)}
+                  className={comparison.winner === winner ? 'border-blue-500 bg-blue-900/30 text-blue-300' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}
+                >
+                  {winner === 'tie' ? <Scale size={14} className="mr-1" /> : <ThumbsUp size={14} className="mr-1" />}
+                  {winner === 'tie' ? 'Tie' : `${winner} is better`}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {stats.length > 0 && (
+            <div className="mt-2 pr-2">
+              <div className="text-xs font-semibold text-slate-300 mb-2">Votes so far</div>
+              <div className="space-y-1">
+                {stats.map(stat => (
+                  <div key={`${stat.promptName}-${stat.model}`} className="flex items-center justify-between text-xs text-slate-400 px-2 py-1 rounded bg-slate-800/40">
+                    <span className="truncate">{stat.promptName} · {stat.model}</span>
+                    <span className="flex-shrink-0 ml-2">{stat.wins}W {stat.ties}T {stat.losses}L</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
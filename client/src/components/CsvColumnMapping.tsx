@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import type { CsvColumnMapping as ColumnMapping } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, X } from 'lucide-react';
+
+export interface CsvPreview {
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  mapping: ColumnMapping;
+  isSavedMapping: boolean;
+}
+
+interface CsvColumnMappingProps {
+  fileName: string;
+  preview: CsvPreview;
+  isUploading: boolean;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const NO_OUTPUT_COLUMN = '__none__';
+
+export default function CsvColumnMapping({ fileName, preview, isUploading, onConfirm, onCancel }: CsvColumnMappingProps) {
+  const [textColumn, setTextColumn] = useState(preview.mapping.textColumn);
+  const [outputColumn, setOutputColumn] = useState(preview.mapping.outputColumn ?? NO_OUTPUT_COLUMN);
+  const [metadataColumns, setMetadataColumns] = useState<Set<string>>(new Set(preview.mapping.metadataColumns));
+
+  const isTraceColumn = (header: string) => header === textColumn || header === outputColumn;
+
+  const toggleMetadataColumn = (header: string) => {
+    setMetadataColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(header)) {
+        next.delete(header);
+      } else {
+        next.add(header);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    onConfirm({
+      headers: preview.headers,
+      textColumn,
+      outputColumn: outputColumn === NO_OUTPUT_COLUMN ? undefined : outputColumn,
+      // Keep header order so the saved mapping is stable across uploads
+      metadataColumns: preview.headers.filter(header => metadataColumns.has(header) && !isTraceColumn(header)),
+    });
+  };
+
+  return (
+    <div className="p-4 bg-slate-800 border border-slate-700 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-slate-200 font-medium">Map CSV columns</p>
+          <p className="text-slate-400 text-xs mt-1">
+            {fileName} · {preview.rowCount} rows · {preview.headers.length} columns
+          </p>
+        </div>
+        {preview.isSavedMapping && (
+          <Badge variant="secondary" className="bg-blue-900/40 text-blue-300 border-blue-700 text-xs">
+            Using saved mapping for this header
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-slate-300 text-sm">Trace text column</Label>
+          <Select value={textColumn} onValueChange={setTextColumn}>
+            <SelectTrigger className="bg-slate-900 border-slate-600 text-slate-200 mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {preview.headers.map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-slate-300 text-sm">Output column (optional)</Label>
+          <Select value={outputColumn} onValueChange={setOutputColumn}>
+            <SelectTrigger className="bg-slate-900 border-slate-600 text-slate-200 mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              <SelectItem value={NO_OUTPUT_COLUMN}>None</SelectItem>
+              {preview.headers.filter(header => header !== textColumn).map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-slate-300 text-sm">Metadata fields</Label>
+        <div className="flex flex-wrap gap-3 mt-2">
+          {preview.headers.filter(header => !isTraceColumn(header)).map(header => (
+            <label key={header} className="flex items-center space-x-2 text-sm text-slate-300">
+              <Checkbox
+                checked={metadataColumns.has(header)}
+                onCheckedChange={() => toggleMetadataColumn(header)}
+              />
+              <span>{header}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {preview.sampleRows.length > 0 && (
+        <div className="border border-slate-700 rounded-md max-h-48 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                {preview.headers.map(header => (
+                  <TableHead
+                    key={header}
+                    className={`text-xs whitespace-nowrap ${isTraceColumn(header) ? 'text-green-400' : metadataColumns.has(header) ? 'text-blue-300' : 'text-slate-500'}`}
+                  >
+                    {header}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.sampleRows.map((row, rowIndex) => (
+                <TableRow key={rowIndex} className="border-slate-700">
+                  {preview.headers.map((header, cellIndex) => (
+                    <TableCell key={header} className="text-xs text-slate-300 max-w-[240px] truncate">
+                      {row[cellIndex]}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={isUploading}
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <X size={14} className="mr-1" />
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleConfirm}
+          disabled={isUploading || !textColumn}
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          <Upload size={14} className="mr-1" />
+          {isUploading ? 'Uploading...' : 'Upload Traces'}
+        </Button>
+      </div>
+    </div>
+  );
+}
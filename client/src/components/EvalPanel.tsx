@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { EvalCase, EvalMetrics, EvalRun, EvalSet, ModelOption, Prompt } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, FlaskConical, Loader2, Play, Plus, Trash2, Upload } from 'lucide-react';
+
+interface EvalPanelProps {
+  analysisId: number | null;
+  reasoningModels: ModelOption[];
+  reasoningModel: string;
+  editorPrompt: string;
+  latestAnswer: EvalCase | null;
+}
+
+const METRICS: Array<{ key: keyof EvalMetrics; label: string }> = [
+  { key: 'precision', label: 'Precision' },
+  { key: 'recall', label: 'Recall' },
+  { key: 'f1', label: 'F1' },
+  { key: 'tagAgreement', label: 'Tag agreement' },
+];
+
+const formatScore = (value: number | null | undefined) => value === null || value === undefined ? '–' : value.toFixed(2);
+
+// Labeled questions with the traces and tags the reasoning step should return, replayed against
+// a model and prompt so a prompt change can be checked before it becomes the default
+export default function EvalPanel({ analysisId, reasoningModels, reasoningModel, editorPrompt, latestAnswer }: EvalPanelProps) {
+  const queryClient = useQueryClient();
+  const [selectedSetId, setSelectedSetId] = useState<number | null>(null);
+  const [newSetName, setNewSetName] = useState('');
+  const [importText, setImportText] = useState('');
+  const [model, setModel] = useState(reasoningModel);
+  const [promptChoice, setPromptChoice] = useState('default');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const { data: evalSets = [] } = useQuery<EvalSet[]>({
+    queryKey: ['eval-sets', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/eval-sets`);
+      if (!response.ok) throw new Error('Failed to fetch eval sets');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  const selectedSet = evalSets.find(evalSet => evalSet.id === selectedSetId) ?? evalSets[0];
+
+  const { data: runs = [] } = useQuery<EvalRun[]>({
+    queryKey: ['eval-runs', selectedSet?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/eval-sets/${selectedSet!.id}/runs`);
+      if (!response.ok) throw new Error('Failed to fetch eval runs');
+      return response.json();
+    },
+    enabled: !!selectedSet,
+    // Runs finish in the background, so poll until none is left running
+    refetchInterval: (query) => query.state.data?.some(run => run.status === 'running') ? 2000 : false,
+  });
+
+  const { data: prompts = [] } = useQuery<Prompt[]>({
+    queryKey: ['prompts', 'reasoning'],
+    queryFn: async () => {
+      const response = await fetch('/api/prompts?kind=reasoning');
+      if (!response.ok) throw new Error('Failed to fetch prompts');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    setSelectedSetId(null);
+  }, [analysisId]);
+
+  const refreshSets = () => queryClient.invalidateQueries({ queryKey: ['eval-sets', analysisId] });
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    const response = await fetch(url, { headers: { 'Content-Type': 'application/json' }, ...init });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setStatus(result.error || failure);
+      return null;
+    }
+    setStatus(null);
+    return result;
+  };
+
+  const createSet = async () => {
+    if (!analysisId || !newSetName.trim()) return;
+    const created = await request(`/api/analysis/${analysisId}/eval-sets`, {
+      method: 'POST',
+      body: JSON.stringify({ name: newSetName.trim() }),
+    }, 'Failed to create eval set');
+    if (!created) return;
+    setNewSetName('');
+    setSelectedSetId(created.id);
+    refreshSets();
+  };
+
+  const deleteSet = async () => {
+    if (!selectedSet) return;
+    if (await request(`/api/eval-sets/${selectedSet.id}`, { method: 'DELETE' }, 'Failed to delete eval set')) {
+      setSelectedSetId(null);
+      refreshSets();
+    }
+  };
+
+  const addLatestAnswer = async () => {
+    if (!selectedSet || !latestAnswer) return;
+    if (await request(`/api/eval-sets/${selectedSet.id}/cases`, {
+      method: 'POST',
+      body: JSON.stringify(latestAnswer),
+    }, 'Failed to add case')) {
+      setStatus(`Added "${latestAnswer.question.slice(0, 60)}" with ${latestAnswer.expected.length} expected traces`);
+      refreshSets();
+    }
+  };
+
+  // Imported cases are appended to the set; a single case or a list both work
+  const importCases = async () => {
+    if (!selectedSet || !importText.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(importText);
+    } catch {
+      setStatus('Cases must be valid JSON');
+      return;
+    }
+    const imported = Array.isArray(parsed) ? parsed : [parsed];
+    if (await request(`/api/eval-sets/${selectedSet.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ cases: [...selectedSet.cases, ...imported] }),
+    }, 'Failed to import cases')) {
+      setImportText('');
+      setStatus(`Imported ${imported.length} case${imported.length === 1 ? '' : 's'}`);
+      refreshSets();
+    }
+  };
+
+  const deleteCase = async (index: number) => {
+    if (!selectedSet) return;
+    if (await request(`/api/eval-sets/${selectedSet.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ cases: selectedSet.cases.filter((_, caseIndex) => caseIndex !== index) }),
+    }, 'Failed to delete case')) {
+      refreshSets();
+    }
+  };
+
+  const startRun = async () => {
+    if (!selectedSet) return;
+    if (await request(`/api/eval-sets/${selectedSet.id}/runs`, {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        promptId: /^\d+$/.test(promptChoice) ? Number(promptChoice) : undefined,
+        prompt: promptChoice === 'editor' ? editorPrompt : undefined,
+      }),
+    }, 'Failed to start eval run')) {
+      queryClient.invalidateQueries({ queryKey: ['eval-runs', selectedSet.id] });
+    }
+  };
+
+  const completedRuns = runs.filter(run => run.status === 'completed' && run.metrics);
+
+  // Change against the previous completed run (runs are newest first); partial runs scored fewer cases, so they get no delta
+  const deltaFor = (run: EvalRun, key: keyof EvalMetrics) => {
+    const index = completedRuns.indexOf(run);
+    const previous = completedRuns[index + 1];
+    const current = run.metrics?.[key];
+    const before = previous?.metrics?.[key];
+    if (index === -1 || typeof current !== 'number' || typeof before !== 'number') return null;
+    return current - before;
+  };
+
+  if (!analysisId) {
+    return (
+      <Card className="bg-slate-900/50 border-slate-700 h-full flex items-center justify-center">
+        <p className="text-slate-400">Upload a trace file to build eval sets</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700 flex flex-col shadow-xl backdrop-blur-sm h-full">
+      <CardHeader className="flex-shrink-0 pb-4 border-b border-slate-700/50">
+        <CardTitle className="text-slate-100 flex items-center space-x-3 text-xl font-semibold">
+          <div className="p-2 bg-slate-800 rounded-lg">
+            <FlaskConical className="text-slate-300" size={20} />
+          </div>
+          <span>Trace Selection Evals</span>
+        </CardTitle>
+        <p className="text-sm text-slate-400 mt-2">
+          Score the reasoning step against labeled questions: which traces it should pick and which tags they should get.
+        </p>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden p-4">
+        <ScrollArea className="h-full">
+          <div className="space-y-4 pr-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={selectedSet ? String(selectedSet.id) : ''} onValueChange={(value) => setSelectedSetId(Number(value))}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 w-64 h-9">
+                  <SelectValue placeholder="No eval sets yet" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {evalSets.map(evalSet => (
+                    <SelectItem key={evalSet.id} value={String(evalSet.id)}>
+                      {evalSet.name} · {evalSet.cases.length} cases
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={deleteSet}
+                disabled={!selectedSet}
+                title="Delete eval set"
+                className="h-9 w-8 p-0 text-slate-400 hover:text-red-400"
+              >
+                <Trash2 size={14} />
+              </Button>
+              <Input
+                value={newSetName}
+                onChange={(e) => setNewSetName(e.target.value)}
+                placeholder="New eval set name"
+                className="bg-slate-800 border-slate-700 text-slate-200 w-48 h-9"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={createSet}
+                disabled={!newSetName.trim()}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <Plus size={14} className="mr-1" />
+                Create
+              </Button>
+            </div>
+
+            {status && <p className="text-sm text-slate-400">{status}</p>}
+
+            {selectedSet && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-slate-200">Cases</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={addLatestAnswer}
+                      disabled={!latestAnswer}
+                      title={latestAnswer ? latestAnswer.question : 'Ask a question in the chat first'}
+                      className="h-8 border-slate-600 text-slate-300 hover:bg-slate-700 text-xs"
+                    >
+                      <Plus size={12} className="mr-1" />
+                      Add latest answer as case
+                    </Button>
+                  </div>
+                  {selectedSet.cases.length === 0 && (
+                    <p className="text-xs text-slate-500">No cases yet. Add a reviewed chat answer or import cases as JSON.</p>
+                  )}
+                  {selectedSet.cases.map((evalCase, index) => (
+                    <div key={index} className="flex items-center justify-between gap-2 text-xs text-slate-400 px-2 py-1.5 rounded bg-slate-800/40">
+                      <span className="truncate" title={evalCase.question}>{evalCase.question}</span>
+                      <span className="flex items-center gap-2 flex-shrink-0">
+                        {evalCase.expected.length} expected
+                        <button onClick={() => deleteCase(index)} title="Remove case" className="text-slate-500 hover:text-red-400">
+                          <Trash2 size={12} />
+                        </button>
+                      </span>
+                    </div>
+                  ))}
+                  <Textarea
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    placeholder='[{ "question": "...", "response": "...", "expected": [{ "traceId": "...", "tags": ["..."] }] }]'
+                    className="bg-slate-800 border-slate-700 text-slate-200 placeholder-slate-500 min-h-[60px] font-mono text-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={importCases}
+                    disabled={!importText.trim()}
+                    className="h-8 border-slate-600 text-slate-300 hover:bg-slate-700 text-xs"
+                  >
+                    <Upload size={12} className="mr-1" />
+                    Import cases
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-700/50">
+                  <Select value={model} onValueChange={setModel}>
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 w-48 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {reasoningModels.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={promptChoice} onValueChange={setPromptChoice}>
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 w-64 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="default">Default reasoning prompt</SelectItem>
+                      <SelectItem value="editor">Reasoning prompt in Settings (unsaved)</SelectItem>
+                      {prompts.map(prompt => (
+                        <SelectItem key={prompt.id} value={String(prompt.id)}>{prompt.name} v{prompt.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={startRun}
+                    disabled={selectedSet.cases.length === 0 || runs.some(run => run.status === 'running')}
+                    className="bg-blue-600 hover:bg-blue-700 text-white h-9"
+                  >
+                    <Play size={14} className="mr-1" />
+                    Run eval
+                  </Button>
+                </div>
+
+                {runs.length > 0 && (
+                  <table className="w-full text-xs text-slate-300">
+                    <thead>
+                      <tr className="text-slate-400 border-b border-slate-700">
+                        <th className="text-left font-medium py-1.5">Run</th>
+                        <th className="text-left font-medium py-1.5">Setup</th>
+                        {METRICS.map(metric => (
+                          <th key={metric.key} className="text-right font-medium py-1.5">{metric.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {runs.map(run => (
+                        <tr key={run.id} className="border-b border-slate-800">
+                          <td className="py-1.5 text-slate-400">{new Date(run.createdAt).toLocaleString()}</td>
+                          <td className="py-1.5 truncate max-w-[200px]" title={`${run.promptName} · ${run.model}`}>
+                            {run.promptName} · {run.model}
+                            {run.status === 'partial' && (
+                              <span title={run.error ?? undefined}>
+                                <AlertTriangle size={12} className="inline ml-1 text-amber-400" />
+                              </span>
+                            )}
+                          </td>
+                          {run.status === 'running' && (
+                            <td colSpan={METRICS.length} className="py-1.5 text-right text-slate-400">
+                              <Loader2 size={12} className="inline animate-spin mr-1" />
+                              Running
+                            </td>
+                          )}
+                          {run.status === 'error' && (
+                            <td colSpan={METRICS.length} className="py-1.5 text-right text-red-400 truncate" title={run.error ?? undefined}>
+                              {run.error || 'Failed'}
+                            </td>
+                          )}
+                          {(run.status === 'completed' || run.status === 'partial') && METRICS.map(metric => {
+                            const delta = deltaFor(run, metric.key);
+                            return (
+                              <td key={metric.key} className="py-1.5 text-right">
+                                {formatScore(run.metrics?.[metric.key])}
+                                {delta !== null && Math.abs(delta) >= 0.005 && (
+                                  <span className={`ml-1 ${delta < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                                    {delta > 0 ? '+' : ''}{delta.toFixed(2)}
+                                  </span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
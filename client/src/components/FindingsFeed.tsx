@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TraceInsight } from '@shared/schema';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Eye, Loader2, Radar, Sparkles, Trash2, Users, XCircle, type LucideIcon } from 'lucide-react';
+
+interface FindingsFeedProps {
+  analysisId: number | null;
+  onShowTraces: (traceIds: string[]) => void;
+}
+
+interface CopilotStatus {
+  reviewed: number;
+  total: number;
+  running: boolean;
+}
+
+const INSIGHT_ICONS: Record<string, LucideIcon> = { AlertTriangle, Sparkles, XCircle, Users };
+
+// Full class names so Tailwind keeps them
+const INSIGHT_COLORS: Record<string, string> = {
+  red: 'text-red-400 bg-red-900/20 border-red-700/50',
+  purple: 'text-purple-400 bg-purple-900/20 border-purple-700/50',
+  orange: 'text-orange-400 bg-orange-900/20 border-orange-700/50',
+  blue: 'text-blue-400 bg-blue-900/20 border-blue-700/50',
+};
+
+export default function FindingsFeed({ analysisId, onShowTraces }: FindingsFeedProps) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<CopilotStatus | null>(null);
+
+  const { data: insights = [] } = useQuery<TraceInsight[]>({
+    queryKey: ['insights', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/insights`);
+      if (!response.ok) throw new Error('Failed to fetch insights');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  // New findings are pushed while the copilot works through the traces
+  useEffect(() => {
+    if (!analysisId) return;
+    setStatus(null);
+
+    const source = new EventSource(`/api/analysis/${analysisId}/insights/events`);
+    source.onmessage = (message) => {
+      const data = JSON.parse(message.data);
+      if (data.type === 'status') {
+        setStatus({ reviewed: data.reviewed, total: data.total, running: data.running });
+      } else if (data.type === 'insight') {
+        queryClient.setQueryData<TraceInsight[]>(['insights', analysisId], (previous = []) =>
+          previous.some(insight => insight.id === data.insight.id) ? previous : [...previous, data.insight]
+        );
+      }
+    };
+
+    return () => source.close();
+  }, [analysisId, queryClient]);
+
+  const dismissInsight = async (insight: TraceInsight) => {
+    const response = await fetch(`/api/insights/${insight.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      queryClient.setQueryData<TraceInsight[]>(['insights', analysisId], (previous = []) =>
+        previous.filter(other => other.id !== insight.id)
+      );
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700 flex flex-col shadow-xl backdrop-blur-sm h-full">
+      <CardHeader className="flex-shrink-0 pb-4 border-b border-slate-700/50">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-slate-100 flex items-center space-x-3 text-xl font-semibold">
+            <div className="p-2 bg-slate-800 rounded-lg">
+              <Radar className="w-5 h-5 text-slate-300" />
+            </div>
+            <span>Copilot Findings</span>
+            <span className="text-slate-400 text-sm font-normal">({insights.length})</span>
+          </CardTitle>
+          {status && status.total > 0 && (
+            <div className="flex items-center space-x-2 text-xs text-slate-400">
+              {status.running && <Loader2 size={12} className="animate-spin" />}
+              <span>
+                {status.running ? 'Reviewing' : 'Reviewed'} {status.reviewed}/{status.total} traces
+              </span>
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-slate-400 mt-2">
+          A reasoning model works through your traces in the background and reports anomalies and new patterns as it finds them.
+        </p>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-hidden p-3">
+        <ScrollArea style={{ height: 'calc(100vh - 360px)' }}>
+          {!analysisId ? (
+            <p className="text-slate-400 text-center py-12">Upload a trace file to start the copilot</p>
+          ) : insights.length === 0 ? (
+            <p className="text-slate-400 text-center py-12">
+              {status?.running || status === null ? 'No findings yet - the copilot is still looking' : 'The copilot found nothing noteworthy'}
+            </p>
+          ) : (
+            <div className="space-y-3 pr-2">
+              {[...insights].reverse().map(insight => {
+                const Icon = INSIGHT_ICONS[insight.icon] ?? Sparkles;
+                return (
+                  <div key={insight.id} className="p-4 rounded-xl border bg-slate-800/40 border-slate-600/40">
+                    <div className="flex items-start gap-3">
+                      <div className={`p-2 rounded-lg border ${INSIGHT_COLORS[insight.color] ?? INSIGHT_COLORS.blue}`}>
+                        <Icon size={16} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h4 className="text-slate-100 font-medium">{insight.title}</h4>
+                          <Badge variant="secondary" className="bg-slate-700 text-slate-300 border-slate-600 text-xs px-1.5 py-0">
+                            {insight.category.replace(/_/g, ' ')}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-slate-300">{insight.description}</p>
+                        <div className="flex items-center gap-2 mt-3">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onShowTraces(insight.traceIds)}
+                            className="h-7 border-slate-600 text-slate-300 hover:bg-slate-700 text-xs"
+                          >
+                            <Eye size={12} className="mr-1" />
+                            Star {insight.traceIds.length} trace{insight.traceIds.length !== 1 ? 's' : ''}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => dismissInsight(insight)}
+                            title="Dismiss"
+                            className="h-7 w-7 p-0 text-slate-400 hover:text-red-400"
+                          >
+                            <Trash2 size={12} />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
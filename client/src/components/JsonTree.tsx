@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+  value: unknown;
+  label?: string;
+  depth?: number;
+  expandDepth?: number; // Levels open on first render
+}
+
+const isContainer = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+function Primitive({ value }: { value: unknown }) {
+  if (value === null || value === undefined) return <span className="text-slate-500">{String(value)}</span>;
+  if (typeof value === 'string') {
+    return <span className="text-emerald-300 whitespace-pre-wrap break-words">"{value}"</span>;
+  }
+  if (typeof value === 'number') return <span className="text-sky-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span className="text-slate-300">{String(value)}</span>;
+}
+
+// Pretty-printed JSON with collapsible objects and arrays
+export default function JsonTree({ value, label, depth = 0, expandDepth = 2 }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < expandDepth);
+
+  const name = label !== undefined && <span className="text-slate-400">{label}: </span>;
+  if (!isContainer(value)) {
+    return (
+      <div className="font-mono text-xs leading-relaxed pl-4">
+        {name}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-left hover:bg-slate-800/60 rounded"
+      >
+        {expanded ? <ChevronDown size={12} className="text-slate-500" /> : <ChevronRight size={12} className="text-slate-500" />}
+        <span className="ml-1">
+          {name}
+          <span className="text-slate-500">
+            {open}
+            {!expanded && ` ${entries.length} ${Array.isArray(value) ? (entries.length === 1 ? 'item' : 'items') : (entries.length === 1 ? 'key' : 'keys')} ${close}`}
+          </span>
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="ml-2 border-l border-slate-700/60 pl-2">
+            {entries.map(([key, child]) => (
+              <JsonTree key={key} value={child} label={key} depth={depth + 1} expandDepth={expandDepth} />
+            ))}
+          </div>
+          <div className="pl-4 text-slate-500">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
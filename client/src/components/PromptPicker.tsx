@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Prompt, PromptKind } from '@shared/schema';
+import { PROMPT_VARIABLES, validateTemplate } from '@shared/template';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Save, Star, Trash2, XCircle } from 'lucide-react';
+
+interface PromptPickerProps {
+  kind: PromptKind;
+  body: string;
+  onLoad: (body: string) => void;
+  onDefaultChanged: () => void;
+  onStatus: (message: string) => void;
+}
+
+// Template problems in the editor plus the saved versions of one prompt kind: load one into the editor,
+// save the editor as a new version, or make a version the default
+export default function PromptPicker({ kind, body, onLoad, onDefaultChanged, onStatus }: PromptPickerProps) {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+
+  const { data: prompts = [] } = useQuery<Prompt[]>({
+    queryKey: ['prompts', kind],
+    queryFn: async () => {
+      const response = await fetch(`/api/prompts?kind=${kind}`);
+      if (!response.ok) throw new Error('Failed to fetch prompts');
+      return response.json();
+    },
+  });
+
+  const issues = validateTemplate(kind, body);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
+  const selected = prompts.find(prompt => prompt.id === selectedId) ?? prompts.find(prompt => prompt.isDefault);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['prompts', kind] });
+    queryClient.invalidateQueries({ queryKey: ['prompts', 'defaults'] });
+  };
+
+  const selectPrompt = (id: number) => {
+    const prompt = prompts.find(other => other.id === id);
+    if (!prompt) return;
+    setSelectedId(id);
+    setName(prompt.name);
+    onLoad(prompt.body);
+  };
+
+  const saveVersion = async () => {
+    const response = await fetch('/api/prompts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: name.trim() || selected?.name || 'Custom', kind, body }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      onStatus(result.error || 'Failed to save prompt');
+      return;
+    }
+    setSelectedId(result.id);
+    setName(result.name);
+    refresh();
+    onStatus(`Saved "${result.name}" v${result.version}`);
+  };
+
+  const makeDefault = async () => {
+    if (!selected) return;
+    const response = await fetch(`/api/prompts/${selected.id}/default`, { method: 'POST' });
+    if (!response.ok) {
+      onStatus('Failed to set default prompt');
+      return;
+    }
+    refresh();
+    onDefaultChanged();
+    onStatus(`"${selected.name}" v${selected.version} is now the default ${kind} prompt`);
+  };
+
+  const deleteVersion = async () => {
+    if (!selected) return;
+    const response = await fetch(`/api/prompts/${selected.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json();
+      onStatus(result.error || 'Failed to delete prompt');
+      return;
+    }
+    setSelectedId(null);
+    refresh();
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-slate-400">
+        Variables:{' '}
+        {PROMPT_VARIABLES[kind].map(variable => (
+          <code key={variable.name} title={variable.description} className="mr-1.5 text-slate-300">
+            {`{${variable.name}}`}{variable.required ? '*' : ''}
+          </code>
+        ))}
+      </p>
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map(issue => (
+            <li key={issue.message} className={`flex items-center gap-1.5 text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+              {issue.severity === 'error' ? <XCircle size={12} /> : <AlertTriangle size={12} />}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selected ? String(selected.id) : ''} onValueChange={(value) => selectPrompt(Number(value))}>
+          <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 w-64 h-9">
+            <SelectValue placeholder="Saved versions" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {prompts.map(prompt => (
+              <SelectItem key={prompt.id} value={String(prompt.id)}>
+                {prompt.name} v{prompt.version}{prompt.isDefault ? ' (default)' : ''} · {new Date(prompt.createdAt).toLocaleDateString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={selected?.name || 'Prompt name'}
+          className="bg-slate-800 border-slate-700 text-slate-200 w-40 h-9"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={saveVersion}
+          disabled={hasErrors}
+          className="border-blue-600 text-blue-400 hover:bg-blue-900/20"
+        >
+          <Save size={14} className="mr-1" />
+          Save Version
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={makeDefault}
+          disabled={!selected || selected.isDefault}
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <Star size={14} className="mr-1" />
+          Set as Default
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={deleteVersion}
+          disabled={!selected || selected.isDefault}
+          title="Delete version"
+          className="h-9 w-8 p-0 text-slate-400 hover:text-red-400"
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import type { Trace, TraceSpan } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import JsonTree from '@/components/JsonTree';
+
+interface SpanWaterfallProps {
+  trace: Trace;
+}
+
+type WaterfallRow = {
+  span: TraceSpan;
+  depth: number;
+  ancestors: string[]; // Span ids, outermost first
+  start: number; // ms after the first span started
+  duration: number | null;
+};
+
+// Full class names so Tailwind keeps them
+const KIND_COLORS: Record<string, string> = {
+  llm: 'bg-purple-500/70',
+  tool: 'bg-emerald-500/70',
+  retriever: 'bg-amber-500/70',
+  chain: 'bg-blue-500/70',
+};
+
+const parseTime = (time?: string) => (time ? Date.parse(time) : NaN);
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+// Spans with timestamps sit where they started; spans without run one after another inside their parent
+function layoutSpans(spans: TraceSpan[], depth: number, ancestors: string[], parentStart: number, origin: number | null, rows: WaterfallRow[]) {
+  let cursor = parentStart;
+  for (const span of spans) {
+    const startMs = parseTime(span.startTime);
+    const endMs = parseTime(span.endTime);
+    const start = origin !== null && !Number.isNaN(startMs) ? startMs - origin : cursor;
+    const duration = span.latencyMs ?? (!Number.isNaN(startMs) && !Number.isNaN(endMs) ? endMs - startMs : null);
+    rows.push({ span, depth, ancestors, start, duration });
+    layoutSpans(span.children, depth + 1, [...ancestors, span.id], start, origin, rows);
+    cursor = start + (duration ?? 0);
+  }
+}
+
+function allSpans(spans: TraceSpan[]): TraceSpan[] {
+  return spans.flatMap(span => [span, ...allSpans(span.children)]);
+}
+
+// Span hierarchy on a shared time axis, with durations, token counts and errors per span
+export default function SpanWaterfall({ trace }: SpanWaterfallProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(null);
+
+  const { rows, total } = useMemo(() => {
+    const starts = [trace.startTime, ...allSpans(trace.steps).map(span => span.startTime)]
+      .map(parseTime)
+      .filter(time => !Number.isNaN(time));
+    const origin = starts.length > 0 ? Math.min(...starts) : null;
+    const rows: WaterfallRow[] = [];
+    layoutSpans(trace.steps, 0, [], 0, origin, rows);
+    const end = Math.max(trace.latencyMs ?? 0, ...rows.map(row => row.start + (row.duration ?? 0)));
+    return { rows, total: end > 0 ? end : 1 };
+  }, [trace]);
+
+  const toggle = (spanId: string) => {
+    const next = new Set(collapsed);
+    if (next.has(spanId)) next.delete(spanId);
+    else next.add(spanId);
+    setCollapsed(next);
+  };
+
+  const visibleRows = rows.filter(row => !row.ancestors.some(id => collapsed.has(id)));
+  const selected = rows.find(row => row.span.id === selectedSpanId)?.span;
+  const errorCount = rows.filter(row => row.span.error).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs text-slate-400">
+        <span>{rows.length} spans</span>
+        <span>·</span>
+        <span>{formatDuration(trace.latencyMs ?? (rows.length > 0 ? total : null))}</span>
+        {trace.tokenUsage && (
+          <>
+            <span>·</span>
+            <span>{trace.tokenUsage.totalTokens.toLocaleString()} tokens</span>
+          </>
+        )}
+        {errorCount > 0 && (
+          <>
+            <span>·</span>
+            <span className="text-red-400">{errorCount} failed</span>
+          </>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-slate-700 bg-slate-950/60 divide-y divide-slate-800">
+        {visibleRows.map(({ span, depth, start, duration }) => (
+          <div
+            key={span.id}
+            onClick={() => setSelectedSpanId(span.id === selectedSpanId ? null : span.id)}
+            className={`flex items-center gap-2 px-2 py-1.5 cursor-pointer text-xs ${
+              span.id === selectedSpanId ? 'bg-slate-800/80' : 'hover:bg-slate-800/40'
+            }`}
+          >
+            <div className="flex items-center min-w-0 w-2/5 flex-shrink-0" style={{ paddingLeft: depth * 12 }}>
+              {span.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggle(span.id);
+                  }}
+                  className="text-slate-500 hover:text-slate-300"
+                >
+                  {collapsed.has(span.id) ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                </button>
+              ) : (
+                <span className="w-3" />
+              )}
+              <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px] border-slate-600 text-slate-400">{span.kind}</Badge>
+              <span className={`ml-1 truncate font-mono ${span.error ? 'text-red-300' : 'text-slate-200'}`} title={span.name}>{span.name}</span>
+              {span.error && <AlertTriangle size={12} className="ml-1 flex-shrink-0 text-red-400" />}
+            </div>
+            <div className="relative flex-1 h-3 rounded bg-slate-800/60">
+              <div
+                className={`absolute top-0 h-3 rounded ${span.error ? 'bg-red-500/80' : KIND_COLORS[span.kind] ?? 'bg-slate-400/70'}`}
+                style={{ left: `${(start / total) * 100}%`, width: `${Math.max(((duration ?? 0) / total) * 100, 0.5)}%` }}
+              />
+            </div>
+            <div className="w-24 flex-shrink-0 text-right text-slate-400">
+              {formatDuration(duration)}
+              {span.tokenUsage && <div className="text-[10px] text-slate-500">{span.tokenUsage.totalTokens.toLocaleString()} tok</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/80 p-3 space-y-2">
+          <p className="text-sm text-slate-200 font-mono">{selected.kind}:{selected.name}</p>
+          {selected.tokenUsage && (
+            <p className="text-xs text-slate-400">
+              {selected.tokenUsage.promptTokens.toLocaleString()} prompt + {selected.tokenUsage.completionTokens.toLocaleString()} completion tokens
+            </p>
+          )}
+          {selected.error && <p className="text-xs text-red-400 whitespace-pre-wrap break-words">{selected.error}</p>}
+          {selected.inputs !== undefined && (
+            <div>
+              <p className="text-[11px] uppercase tracking-wide text-slate-500">Inputs</p>
+              <JsonTree value={selected.inputs} expandDepth={1} />
+            </div>
+          )}
+          {selected.outputs !== undefined && (
+            <div>
+              <p className="text-[11px] uppercase tracking-wide text-slate-500">Outputs</p>
+              <JsonTree value={selected.outputs} expandDepth={1} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
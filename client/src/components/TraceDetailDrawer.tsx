@@ -0,0 +1,367 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { TraceDetail, TraceSpan } from '@shared/schema';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Bot, Layers, MessageCircle, Radar, Tag, User, Wrench } from 'lucide-react';
+import { formatClusterName } from '@/components/ClusterPanel';
+import JsonTree from '@/components/JsonTree';
+import SpanWaterfall from '@/components/SpanWaterfall';
+
+interface TraceDetailDrawerProps {
+  analysisId: number | null;
+  traceId: string | null; // Open while set
+  onClose: () => void;
+  onAskAbout: (trace: { id: string; position: number }) => void; // Scope the chat to this trace
+}
+
+type ToolCall = {
+  id?: string;
+  name: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+};
+
+type ChatMessage = {
+  role: string; // user, assistant, system, tool, ...
+  content: string;
+  toolCalls: ToolCall[];
+  toolCallId?: string; // Set on tool results
+};
+
+// LangChain message types and class names, mapped to chat roles
+const ROLE_ALIASES: Record<string, string> = {
+  human: 'user', HumanMessage: 'user',
+  ai: 'assistant', AIMessage: 'assistant', AIMessageChunk: 'assistant',
+  system: 'system', SystemMessage: 'system',
+  tool: 'tool', ToolMessage: 'tool', function: 'tool', FunctionMessage: 'tool',
+};
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Tool arguments usually arrive as a JSON string
+function parseArguments(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// OpenAI, Anthropic and LangChain (plain or serialized) messages
+function toChatMessage(value: unknown): ChatMessage | null {
+  if (!isRecord(value)) return null;
+  const source = isRecord(value.kwargs) ? value.kwargs : value;
+  const rawRole = typeof source.role === 'string' ? source.role
+    : Array.isArray(value.id) ? String(value.id[value.id.length - 1])
+    : typeof source.type === 'string' ? source.type
+    : undefined;
+  if (!rawRole || !('content' in source)) return null;
+
+  const message: ChatMessage = { role: ROLE_ALIASES[rawRole] ?? rawRole, content: '', toolCalls: [] };
+  if (typeof source.tool_call_id === 'string') message.toolCallId = source.tool_call_id;
+
+  if (typeof source.content === 'string') {
+    message.content = source.content;
+  } else if (Array.isArray(source.content)) {
+    const text: string[] = [];
+    for (const part of source.content) {
+      if (typeof part === 'string') text.push(part);
+      else if (part?.type === 'text') text.push(part.text ?? '');
+      else if (part?.type === 'tool_use') message.toolCalls.push({ id: part.id, name: part.name, arguments: part.input });
+      else if (part?.type === 'tool_result') {
+        message.role = 'tool';
+        message.toolCallId = part.tool_use_id;
+        text.push(typeof part.content === 'string' ? part.content : JSON.stringify(part.content));
+      }
+    }
+    message.content = text.join('\n');
+  }
+
+  const calls = source.tool_calls ?? source.additional_kwargs?.tool_calls;
+  if (Array.isArray(calls)) {
+    for (const call of calls) {
+      message.toolCalls.push({
+        id: call.id,
+        name: call.function?.name ?? call.name ?? 'tool',
+        arguments: parseArguments(call.function?.arguments ?? call.args ?? call.arguments),
+      });
+    }
+  }
+  return message;
+}
+
+// A list of chat messages inside inputs or outputs, e.g. { messages: [...] }, [[...]] or { choices: [{ message }] }
+function messageList(value: unknown): ChatMessage[] | null {
+  if (Array.isArray(value)) {
+    const items = value.flat(2);
+    const messages = items.map(item => toChatMessage(isRecord(item) && isRecord(item.message) ? item.message : item));
+    return items.length > 0 && messages.every(Boolean) ? messages as ChatMessage[] : null;
+  }
+  if (isRecord(value)) {
+    for (const key of ['messages', 'generations', 'choices']) {
+      const list = messageList(value[key]);
+      if (list) return list;
+    }
+    const single = toChatMessage(isRecord(value.message) ? value.message : value);
+    return single ? [single] : null;
+  }
+  return null;
+}
+
+// The trace as a conversation, when its inputs (or its last LLM span's) are chat messages.
+// Tool results are folded into the calls they answer.
+function extractConversation(inputs: unknown, outputs: unknown, steps: TraceSpan[]): ChatMessage[] {
+  let messages = messageList(inputs);
+  let reply = outputs;
+  if (!messages) {
+    const llmSpans = flattenSpans(steps).filter(span => span.kind === 'llm' && messageList(span.inputs));
+    const last = llmSpans[llmSpans.length - 1];
+    if (!last) return [];
+    messages = messageList(last.inputs)!;
+    reply = last.outputs;
+  }
+
+  const replies = messageList(reply);
+  if (replies) messages = [...messages, ...replies];
+  else if (typeof reply === 'string' && reply.trim()) messages = [...messages, { role: 'assistant', content: reply, toolCalls: [] }];
+
+  const calls = new Map<string, ToolCall>();
+  messages.forEach(message => message.toolCalls.forEach(call => call.id && calls.set(call.id, call)));
+  return messages.filter(message => {
+    const call = message.toolCallId ? calls.get(message.toolCallId) : undefined;
+    if (!call) return true;
+    call.result = parseArguments(message.content);
+    return false;
+  });
+}
+
+function flattenSpans(spans: TraceSpan[]): TraceSpan[] {
+  return spans.flatMap(span => [span, ...flattenSpans(span.children)]);
+}
+
+function formatLatency(ms?: number): string | null {
+  if (typeof ms !== 'number') return null;
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+const ROLE_STYLES: Record<string, string> = {
+  user: 'bg-blue-900/30 border-blue-700/50',
+  assistant: 'bg-slate-800/70 border-slate-600/60',
+  system: 'bg-amber-900/20 border-amber-700/40',
+  tool: 'bg-emerald-900/20 border-emerald-700/40',
+};
+
+function ToolCallCard({ call }: { call: ToolCall }) {
+  return (
+    <div className="rounded-lg border border-emerald-700/40 bg-emerald-900/10 p-2 space-y-1">
+      <div className="flex items-center space-x-2 text-emerald-300 text-xs font-medium">
+        <Wrench size={12} />
+        <span className="font-mono">{call.name}</span>
+      </div>
+      {call.arguments !== undefined && (
+        <div>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">Arguments</p>
+          <JsonTree value={call.arguments} expandDepth={1} />
+        </div>
+      )}
+      {call.result !== undefined && (
+        <div>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">Result</p>
+          <JsonTree value={call.result} expandDepth={1} />
+        </div>
+      )}
+      {call.error && <p className="text-xs text-red-400 whitespace-pre-wrap">{call.error}</p>}
+    </div>
+  );
+}
+
+export default function TraceDetailDrawer({ analysisId, traceId, onClose, onAskAbout }: TraceDetailDrawerProps) {
+  const { data: detail, isLoading, error } = useQuery<TraceDetail>({
+    queryKey: ['trace', analysisId, traceId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/traces/${encodeURIComponent(traceId!)}`);
+      if (!response.ok) throw new Error('Failed to load trace');
+      return response.json();
+    },
+    enabled: !!analysisId && !!traceId,
+    staleTime: 0, // Answers and batch runs since the last look may reference the trace
+  });
+
+  const trace = detail?.trace;
+  const conversation = trace ? extractConversation(trace.inputs, trace.outputs, trace.steps) : [];
+  const toolSpans = trace ? flattenSpans(trace.steps).filter(span => span.kind === 'tool') : [];
+  const structure = trace
+    ? Object.fromEntries(Object.entries({ inputs: trace.inputs, outputs: trace.outputs, error: trace.error, metadata: trace.metadata, steps: trace.steps })
+        .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0)))
+    : {};
+  const references = detail?.references;
+  const referenceCount = references
+    ? references.clusters.length + references.tags.length + references.batchResults.length + references.findings.length
+    : 0;
+
+  return (
+    <Sheet open={!!traceId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl bg-slate-900 border-slate-700 text-slate-100 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-slate-100">
+            {detail ? `Trace #${detail.position + 1}` : 'Trace'}
+            {trace?.name && <span className="ml-2 text-slate-400 font-normal">{trace.name}</span>}
+          </SheetTitle>
+          <SheetDescription asChild>
+            <div className="flex flex-wrap gap-1">
+              {trace && <Badge variant="outline" className="border-slate-600 text-slate-300">{trace.format}</Badge>}
+              {typeof trace?.metadata.model === 'string' && <Badge variant="outline" className="border-slate-600 text-slate-300">{trace.metadata.model}</Badge>}
+              {formatLatency(trace?.latencyMs) && <Badge variant="outline" className="border-slate-600 text-slate-300">{formatLatency(trace?.latencyMs)}</Badge>}
+              {trace?.startTime && <Badge variant="outline" className="border-slate-600 text-slate-300">{new Date(trace.startTime).toLocaleString()}</Badge>}
+              {trace?.error && <Badge className="bg-red-900/50 text-red-300 border-red-700/50">error</Badge>}
+            </div>
+          </SheetDescription>
+          {detail && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onAskAbout({ id: detail.trace.id, position: detail.position })}
+              className="self-start bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700"
+            >
+              <MessageCircle size={14} className="mr-1" />
+              Ask about this trace
+            </Button>
+          )}
+        </SheetHeader>
+
+        {isLoading && <p className="text-slate-400 text-sm mt-6">Loading trace...</p>}
+        {error && <p className="text-red-400 text-sm mt-6">{error.message}</p>}
+
+        {trace && (
+          <div className="mt-4 space-y-6">
+            {trace.error && (
+              <div className="flex items-start space-x-2 rounded-lg border border-red-700/50 bg-red-900/20 p-3 text-sm text-red-300">
+                <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                <span className="whitespace-pre-wrap break-words">{trace.error}</span>
+              </div>
+            )}
+
+            <Tabs key={trace.id} defaultValue={trace.steps.length > 0 ? 'timeline' : conversation.length > 0 ? 'conversation' : 'structure'}>
+              <TabsList className="bg-slate-800/60">
+                {trace.steps.length > 0 && <TabsTrigger value="timeline">Timeline</TabsTrigger>}
+                {conversation.length > 0 && <TabsTrigger value="conversation">Conversation</TabsTrigger>}
+                {toolSpans.length > 0 && <TabsTrigger value="tools">Tool calls ({toolSpans.length})</TabsTrigger>}
+                <TabsTrigger value="structure">Structure</TabsTrigger>
+                <TabsTrigger value="raw">Raw</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="timeline">
+                <SpanWaterfall trace={trace} />
+              </TabsContent>
+
+              <TabsContent value="conversation" className="space-y-3">
+                {conversation.map((message, index) => (
+                  <div key={index} className={`rounded-lg border p-3 ${ROLE_STYLES[message.role] ?? ROLE_STYLES.assistant}`}>
+                    <div className="flex items-center space-x-2 mb-1 text-xs font-medium text-slate-400">
+                      {message.role === 'user' ? <User size={12} /> : message.role === 'tool' ? <Wrench size={12} /> : <Bot size={12} />}
+                      <span className="capitalize">{message.role}</span>
+                    </div>
+                    {message.content && <p className="text-sm text-slate-100 whitespace-pre-wrap break-words">{message.content}</p>}
+                    {message.toolCalls.length > 0 && (
+                      <div className="mt-2 space-y-2">
+                        {message.toolCalls.map((call, callIndex) => <ToolCallCard key={call.id ?? callIndex} call={call} />)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="tools" className="space-y-2">
+                {toolSpans.map(span => (
+                  <div key={span.id}>
+                    <ToolCallCard call={{ name: span.name, arguments: span.inputs, result: span.outputs, error: span.error }} />
+                    {formatLatency(span.latencyMs) && <p className="text-[11px] text-slate-500 mt-1 text-right">{formatLatency(span.latencyMs)}</p>}
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="structure">
+                <div className="rounded-lg border border-slate-700 bg-slate-950/60 p-3 overflow-x-auto">
+                  <JsonTree value={structure} expandDepth={2} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="raw">
+                <pre className="rounded-lg border border-slate-700 bg-slate-950/60 p-3 text-xs text-slate-200 whitespace-pre-wrap break-words font-mono">{trace.text}</pre>
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-slate-300">Referenced by ({referenceCount})</h3>
+              {referenceCount === 0 && (
+                <p className="text-xs text-slate-500">No clusters, chat answers, batch jobs or findings mention this trace yet.</p>
+              )}
+
+              {references && references.clusters.length > 0 && (
+                <div className="space-y-1">
+                  <p className="flex items-center text-xs text-slate-400"><Layers size={12} className="mr-1" />Clusters</p>
+                  {references.clusters.map(cluster => (
+                    <div key={cluster.id} className="rounded-md bg-slate-800/50 px-3 py-2">
+                      <p className="text-sm text-slate-200">{formatClusterName(cluster.name)}</p>
+                      {cluster.description && <p className="text-xs text-slate-400">{cluster.description}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {references && references.tags.length > 0 && (
+                <div className="space-y-1">
+                  <p className="flex items-center text-xs text-slate-400"><Tag size={12} className="mr-1" />Chat answers</p>
+                  {references.tags.map((reference, index) => (
+                    <div key={index} className="rounded-md bg-slate-800/50 px-3 py-2">
+                      <p className="flex items-center text-xs text-slate-500"><MessageCircle size={10} className="mr-1" />{reference.conversationTitle}</p>
+                      {reference.question && <p className="text-sm text-slate-200">{reference.question}</p>}
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {reference.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="bg-slate-600/50 text-slate-300 text-xs">{formatClusterName(tag)}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {references && references.batchResults.length > 0 && (
+                <div className="space-y-1">
+                  <p className="flex items-center text-xs text-slate-400"><Bot size={12} className="mr-1" />Batch jobs</p>
+                  {references.batchResults.map(result => (
+                    <div key={result.jobId} className="rounded-md bg-slate-800/50 px-3 py-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-slate-200">{result.name}</p>
+                        <Badge variant="outline" className="border-slate-600 text-slate-300 text-xs">relevance {result.relevanceScore}</Badge>
+                      </div>
+                      <p className="text-xs text-slate-500">{result.query}</p>
+                      <p className="text-sm text-slate-300 mt-1 whitespace-pre-wrap">{result.reasoning}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {references && references.findings.length > 0 && (
+                <div className="space-y-1">
+                  <p className="flex items-center text-xs text-slate-400"><Radar size={12} className="mr-1" />Findings</p>
+                  {references.findings.map(finding => (
+                    <div key={finding.id} className="rounded-md bg-slate-800/50 px-3 py-2">
+                      <p className="text-sm text-slate-200">{finding.title}</p>
+                      <p className="text-xs text-slate-500">{finding.category.replace(/_/g, ' ')}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+  FILTER_FIELDS,
+  FILTER_OPERATORS,
+  fieldLabel,
+  fieldType,
+  type FilterCondition,
+  type FilterField,
+  type TraceFilter,
+} from '@shared/filters';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter, Plus, X } from 'lucide-react';
+
+interface TraceFilterBuilderProps {
+  filter: TraceFilter;
+  onChange: (filter: TraceFilter) => void;
+  metadataFields: FilterField[];
+  matchCount: number;
+  totalCount: number;
+  scopeAnalysis: boolean;
+  onScopeAnalysisChange: (scope: boolean) => void;
+}
+
+const defaultValue = (field: FilterField) => fieldType(field) === 'boolean' ? 'true' : '';
+
+export default function TraceFilterBuilder({ filter, onChange, metadataFields, matchCount, totalCount, scopeAnalysis, onScopeAnalysisChange }: TraceFilterBuilderProps) {
+  const fields = [...FILTER_FIELDS.map(definition => definition.field), ...metadataFields];
+
+  const updateCondition = (index: number, update: Partial<FilterCondition>) => {
+    onChange({
+      ...filter,
+      conditions: filter.conditions.map((condition, i) => i === index ? { ...condition, ...update } : condition),
+    });
+  };
+
+  // A new field can have a different value type, so the operator and value start over
+  const changeField = (index: number, field: FilterField) => {
+    updateCondition(index, { field, operator: FILTER_OPERATORS[fieldType(field)][0].operator, value: defaultValue(field) });
+  };
+
+  const addCondition = () => {
+    onChange({ ...filter, conditions: [...filter.conditions, { field: 'error', operator: 'is', value: 'true' }] });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...filter, conditions: filter.conditions.filter((_, i) => i !== index) });
+  };
+
+  const renderValue = (condition: FilterCondition, index: number) => {
+    if (condition.operator === 'exists' || condition.operator === 'missing') return null;
+
+    const type = fieldType(condition.field);
+    if (type === 'boolean') {
+      return (
+        <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+          <SelectTrigger className="h-7 w-24 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-600">
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={type === 'date' ? 'date' : type === 'number' ? 'number' : 'text'}
+        value={condition.value}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        placeholder={type === 'list' ? 'tag' : 'value'}
+        className="h-7 flex-1 min-w-0 bg-slate-900 border-slate-600 text-slate-200 text-xs"
+      />
+    );
+  };
+
+  return (
+    <div className="mt-4 p-3 bg-slate-800/40 border border-slate-700 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-slate-300 text-sm font-medium">
+          <Filter size={14} />
+          <span>Filters</span>
+          {filter.conditions.length > 0 && (
+            <span className="text-slate-500 font-normal">({matchCount} of {totalCount} traces)</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          {filter.conditions.length > 1 && (
+            <Select value={filter.combinator} onValueChange={(combinator) => onChange({ ...filter, combinator: combinator as TraceFilter['combinator'] })}>
+              <SelectTrigger className="h-6 w-32 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-600">
+                <SelectItem value="and">Match all (AND)</SelectItem>
+                <SelectItem value="or">Match any (OR)</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="ghost" size="sm" onClick={addCondition} className="h-6 px-2 text-xs text-slate-400 hover:text-slate-200">
+            <Plus size={12} className="mr-1" />
+            Add filter
+          </Button>
+        </div>
+      </div>
+
+      {filter.conditions.map((condition, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Select value={condition.field} onValueChange={(field) => changeField(index, field as FilterField)}>
+            <SelectTrigger className="h-7 w-32 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {fields.map(field => (
+                <SelectItem key={field} value={field}>{fieldLabel(field)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator: operator as FilterCondition['operator'] })}>
+            <SelectTrigger className="h-7 w-28 bg-slate-900 border-slate-600 text-slate-200 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-600">
+              {FILTER_OPERATORS[fieldType(condition.field)].map(option => (
+                <SelectItem key={option.operator} value={option.operator}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {renderValue(condition, index)}
+          <Button variant="ghost" size="sm" onClick={() => removeCondition(index)} title="Remove" className="h-6 w-6 p-0 flex-shrink-0 text-slate-400 hover:text-red-400">
+            <X size={12} />
+          </Button>
+        </div>
+      ))}
+
+      {filter.conditions.length > 0 && (
+        <label className="flex items-center space-x-2 text-xs text-slate-400 cursor-pointer">
+          <Checkbox checked={scopeAnalysis} onCheckedChange={(checked) => onScopeAnalysisChange(checked === true)} />
+          <span>Only ask questions and run batch jobs about the matching traces</span>
+        </label>
+      )}
+      {filter.conditions.some(condition => fieldType(condition.field) === 'date') && (
+        <p className="text-xs text-slate-500">Dates are whole days in UTC.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import React from 'react';
+import type { UsageTotals } from '@shared/schema';
+import { formatCost } from '@shared/pricing';
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// "12.3k tokens · $0.0123", with the prompt/completion split on hover
+export default function UsageLabel({ usage, className = '' }: { usage: UsageTotals; className?: string }) {
+  const title = [
+    `${usage.calls} LLM call${usage.calls === 1 ? '' : 's'}`,
+    `${usage.promptTokens.toLocaleString()} prompt tokens`,
+    `${usage.completionTokens.toLocaleString()} completion tokens`,
+    ...(usage.reasoningTokens > 0 ? [`(${usage.reasoningTokens.toLocaleString()} of them reasoning)`] : []),
+  ].join('\n');
+
+  return (
+    <span className={`text-xs text-slate-500 ${className}`} title={title}>
+      {formatTokens(usage.promptTokens + usage.completionTokens)} tokens · {formatCost(usage.cost)}
+    </span>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  estimateHeight: number; // Used for rows that haven't been rendered yet
+  gap?: number;
+  overscan?: number; // Extra pixels rendered above and below the viewport
+  onEndReached?: () => void; // Called when the last rows come into view, e.g. to load the next page
+  footer?: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// A scroll container that only mounts the rows in (or near) view. Rows can have any height:
+// each one is measured once rendered, and unmeasured rows count as estimateHeight.
+export default function VirtualList<T>({ items, getKey, renderItem, estimateHeight, gap = 12, overscan = 600, onEndReached, footer, className = '', style }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const observers = useRef(new Map<string, ResizeObserver>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [, setMeasured] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const resize = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    resize.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => resize.disconnect();
+  }, []);
+
+  useEffect(() => () => observers.current.forEach(observer => observer.disconnect()), []);
+
+  // Row offsets from the measured heights; O(n) per render, which is fine for the pages loaded so far
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  for (const item of items) {
+    offsets.push(totalHeight);
+    totalHeight += (heights.current.get(getKey(item)) ?? estimateHeight) + gap;
+  }
+
+  const top = scrollTop - overscan;
+  const bottom = scrollTop + viewportHeight + overscan;
+  let start = 0;
+  let low = 0;
+  let high = items.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] + (heights.current.get(getKey(items[mid])) ?? estimateHeight) < top) {
+      start = mid + 1;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  let end = start;
+  while (end < items.length && offsets[end] < bottom) end++;
+
+  const reachedEnd = items.length > 0 && end >= items.length;
+  useEffect(() => {
+    if (reachedEnd) onEndReached?.();
+  }, [reachedEnd, items.length]);
+
+  // One stable ref callback per row, so re-renders don't re-create its ResizeObserver
+  const refCallbacks = useRef(new Map<string, (element: HTMLDivElement | null) => void>());
+  const measure = (key: string) => {
+    let callback = refCallbacks.current.get(key);
+    if (!callback) {
+      callback = (element) => {
+        observers.current.get(key)?.disconnect();
+        observers.current.delete(key);
+        if (!element) {
+          refCallbacks.current.delete(key);
+          return;
+        }
+
+        const observer = new ResizeObserver(() => {
+          const height = element.offsetHeight;
+          if (heights.current.get(key) !== height) {
+            heights.current.set(key, height);
+            setMeasured(count => count + 1);
+          }
+        });
+        observer.observe(element);
+        observers.current.set(key, observer);
+      };
+      refCallbacks.current.set(key, callback);
+    }
+    return callback;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className={`overflow-y-auto ${className}`}
+      style={style}
+    >
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        {items.slice(start, end).map((item, index) => {
+          const key = getKey(item);
+          return (
+            <div key={key} ref={measure(key)} style={{ position: 'absolute', top: offsets[start + index], left: 0, right: 0 }}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+      {footer}
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DEFAULT_PROMPTS } from '@shared/config';
+import { validateTemplate } from '@shared/template';
+import { completeFilter, describeFilter, isEmptyFilter, type FilterField, type TraceFilter } from '@shared/filters';
+import { parseSearch } from '@shared/search';
+import { normalizeClusterName } from '@shared/clusters';
+import type { AnalysisUsage, ClassificationStat, Cluster, Conversation, EvalCase, Message, CsvColumnMapping as ColumnMapping, ModelOption, Prompt, PromptKind, RetrievalStrategy, Trace, TraceFormat, TraceListItem, TracePage } from '@shared/schema';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,10 +15,20 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
-import { Upload, FileText, MessageCircle, Lightbulb, Search, X, Download, CheckSquare, Square, Star, StopCircle, Eye, Settings, Save, Filter, BarChart3 } from 'lucide-react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Upload, FileText, MessageCircle, Lightbulb, Search, X, Download, CheckSquare, Square, Star, StopCircle, Eye, Settings, Filter, BarChart3, Radar, Plus, Trash2, Columns2, FlaskConical } from 'lucide-react';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import BatchJobManager from '@/components/BatchJobManager';
+import CsvColumnMapping, { type CsvPreview } from '@/components/CsvColumnMapping';
+import ClusterPanel, { formatClusterName } from '@/components/ClusterPanel';
+import FindingsFeed from '@/components/FindingsFeed';
+import PromptPicker from '@/components/PromptPicker';
+import ComparePanel from '@/components/ComparePanel';
+import EvalPanel from '@/components/EvalPanel';
+import UsageLabel from '@/components/UsageLabel';
+import TraceFilterBuilder from '@/components/TraceFilterBuilder';
+import VirtualList from '@/components/VirtualList';
+import TraceDetailDrawer from '@/components/TraceDetailDrawer';
 
 interface Dataset {
   id: number;
@@ -26,7 +41,10 @@ interface Dataset {
 
 interface Analysis {
   id: number;
-  langsmithContent: string;
+  traceCount: number;
+  metadataFields: FilterField[]; // Metadata keys the filter builder offers
+  traceFormat: TraceFormat;
+  hasEmbeddings?: boolean;
   analysisData: {
     transactionDistribution: Record<string, number>;
     coverageScore: number;
@@ -48,11 +66,55 @@ interface ChatMessage {
   type: 'user' | 'assistant';
   content: string;
   timestamp: number;
-  tracesWithTags?: Array<{ trace: string; tags: string[] }>;
+  tracesWithTags?: Array<{ trace: string; traceId: string; tags: string[] }>;
+  classification?: MessageClassification;
 }
 
+interface MessageClassification {
+  status: 'running' | 'complete' | 'error';
+  completedChunks: number;
+  totalChunks: number;
+  stats: ClassificationStat[];
+  error?: string;
+}
+
+// Stored messages come back from the server; the dashboard keeps its own message ids
+const toChatMessage = (message: Message): ChatMessage => ({
+  id: message.clientId,
+  type: message.type,
+  content: message.content,
+  timestamp: new Date(message.createdAt).getTime(),
+  tracesWithTags: message.tracesWithTags ?? undefined,
+  classification: message.classification
+    ? { status: 'complete', completedChunks: 0, totalChunks: 0, stats: message.classification }
+    : undefined,
+});
+
+const hasTemplateErrors = (kind: PromptKind, body: string) =>
+  validateTemplate(kind, body).some(issue => issue.severity === 'error');
+
+const normalizeCategory = (name: string) =>
+  normalizeClusterName(name.replace(/<[^>]+>/g, '').replace(/^\d+[.)]\s*/, ''));
+
+const TRACE_PAGE_SIZE = 100;
+
+// Trace text with the search hits marked
+const renderHighlighted = (text: string, ranges: Array<[number, number]>) => {
+  if (ranges.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(<mark key={index} className="bg-yellow-400/30 text-yellow-100 rounded-sm">{text.slice(start, end)}</mark>);
+    last = end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+};
+
 interface BatchJob {
   id: string;
+  serverId?: number;
   name: string;
   query: string;
   model: string;
@@ -62,10 +124,12 @@ interface BatchJob {
   error?: string;
   createdAt: string;
   lastRunAt?: string;
+  progress?: { completedChunks: number; totalChunks: number; failedChunks: number; matches: number };
 }
 
 interface BatchJobResult {
   trace: string;
+  traceId: string;
   originalIndex: number;
   relevanceScore: number;
   reasoning: string;
@@ -73,9 +137,15 @@ interface BatchJobResult {
 
 export default function Dashboard() {
   const [files, setFiles] = useState<{ langsmithFile?: File }>({});
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [analysisId, setAnalysisId] = useState<number | null>(null);
   const [query, setQuery] = useState('');
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [contextUsage, setContextUsage] = useState<{ tokens: number; budget: number; summarizedMessages: number } | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isSelecting, setIsSelecting] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
@@ -90,18 +160,26 @@ export default function Dashboard() {
   const [useCustomPrompt, setUseCustomPrompt] = useState(false);
   const [reasoningPrompt, setReasoningPrompt] = useState('');
   const [useCustomReasoningPrompt, setUseCustomReasoningPrompt] = useState(false);
+  const [batchPrompt, setBatchPrompt] = useState(DEFAULT_PROMPTS.batch);
 
   // Performance optimization settings
   const [maxTracesForAnalysis, setMaxTracesForAnalysis] = useState(250);
   const [enableOptimizations, setEnableOptimizations] = useState(true);
+  const [retrievalStrategy, setRetrievalStrategy] = useState<RetrievalStrategy>('hybrid');
+  const [classifyAllTraces, setClassifyAllTraces] = useState(true);
 
   const [traceSearch, setTraceSearch] = useState('');
-  const [selectedTraces, setSelectedTraces] = useState<Set<number>>(new Set());
+  const [searchQuery, setSearchQuery] = useState(''); // traceSearch once typing pauses
+  const [traceSort, setTraceSort] = useState('position:asc'); // "<TraceSort>:<asc|desc>"
+  const [traceFilter, setTraceFilter] = useState<TraceFilter>({ combinator: 'and', conditions: [] });
+  const [scopeToFilter, setScopeToFilter] = useState(false);
+  const [selectedTraces, setSelectedTraces] = useState<Set<string>>(new Set());
+  const [activeClusterId, setActiveClusterId] = useState<number | null>(null);
+  const [openTraceId, setOpenTraceId] = useState<string | null>(null); // Trace shown in the detail drawer
+  const [traceScope, setTraceScope] = useState<{ id: string; position: number } | null>(null); // Chat questions about one trace
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [activeTab, setActiveTab] = useState('traces');
 
-  // Add persistent trace storage
-  const [cachedTraces, setCachedTraces] = useState<string[]>([]);
 
   // Add batch job state
   const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
@@ -124,6 +202,8 @@ export default function Dashboard() {
         if (config.useCustomReasoningPrompt !== undefined) setUseCustomReasoningPrompt(config.useCustomReasoningPrompt);
         if (config.maxTracesForAnalysis !== undefined) setMaxTracesForAnalysis(config.maxTracesForAnalysis);
         if (config.enableOptimizations !== undefined) setEnableOptimizations(config.enableOptimizations);
+        if (config.retrievalStrategy) setRetrievalStrategy(config.retrievalStrategy);
+        if (config.classifyAllTraces !== undefined) setClassifyAllTraces(config.classifyAllTraces);
       } catch (e) {
         console.error('Failed to load saved configuration:', e);
       }
@@ -138,43 +218,23 @@ export default function Dashboard() {
       setReasoningPrompt(DEFAULT_PROMPTS.reasoning);
     }
 
-    // Restore analysis ID if available (but start with fresh conversation)
+    // Restore analysis ID and resume its last conversation if available
     const savedAnalysisId = localStorage.getItem('savedAnalysisId');
     if (savedAnalysisId) {
       const parsedId = parseInt(savedAnalysisId);
       if (!isNaN(parsedId)) {
         setAnalysisId(parsedId);
         console.log('🔄 Restored analysis ID from localStorage:', parsedId);
-      }
-    }
 
-    // Restore cached traces from localStorage
-    const savedTraces = localStorage.getItem('cachedTraces');
-    if (savedTraces) {
-      try {
-        const parsedTraces = JSON.parse(savedTraces);
-        if (Array.isArray(parsedTraces)) {
-          setCachedTraces(parsedTraces);
-          console.log('🔄 Restored cached traces from localStorage:', parsedTraces.length);
+        const savedConversationId = parseInt(localStorage.getItem('conversationId') || '');
+        if (!isNaN(savedConversationId)) {
+          openConversation(savedConversationId);
         }
-      } catch (e) {
-        console.error('Failed to restore cached traces:', e);
       }
     }
 
-    // Restore batch jobs from localStorage
-    const savedBatchJobs = localStorage.getItem('batchJobs');
-    if (savedBatchJobs) {
-      try {
-        const parsedJobs = JSON.parse(savedBatchJobs);
-        if (Array.isArray(parsedJobs)) {
-          setBatchJobs(parsedJobs);
-          console.log('🔄 Restored batch jobs from localStorage:', parsedJobs.length);
-        }
-      } catch (e) {
-        console.error('Failed to restore batch jobs:', e);
-      }
-    }
+    // Traces used to be copied into localStorage; they're paged from the server now
+    localStorage.removeItem('cachedTraces');
   }, []);
 
   // Auto-scroll chat to bottom when chat history updates (only if user hasn't scrolled up)
@@ -205,23 +265,20 @@ export default function Dashboard() {
     }
   }, [isUserScrolledUp]);
 
-  // Save chat history to localStorage when it changes
+  // Conversations are stored on the server; only the id of the open one is kept locally
   useEffect(() => {
-    console.log('🔄 Chat history changed, length:', chatHistory.length);
-    if (chatHistory.length > 0) {
-      console.log('💾 Saving chat history to localStorage');
-      console.log('📝 Latest message:', chatHistory[chatHistory.length - 1]);
-      localStorage.setItem('chatHistory', JSON.stringify(chatHistory));
+    if (conversationId) {
+      localStorage.setItem('conversationId', conversationId.toString());
+    } else {
+      localStorage.removeItem('conversationId');
     }
-  }, [chatHistory]);
+  }, [conversationId]);
 
-  // Save batch jobs to localStorage when they change
+  // Search the server once typing pauses rather than on every keystroke
   useEffect(() => {
-    if (batchJobs.length > 0) {
-      localStorage.setItem('batchJobs', JSON.stringify(batchJobs));
-      console.log('💾 Saving batch jobs to localStorage:', batchJobs.length);
-    }
-  }, [batchJobs]);
+    const timer = setTimeout(() => setSearchQuery(traceSearch.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [traceSearch]);
 
   // Auto-hide confirmation messages after 3 seconds
   useEffect(() => {
@@ -233,6 +290,23 @@ export default function Dashboard() {
     }
   }, [saveConfirmation]);
 
+  // Models of the configured providers, grouped by what they can be used for
+  const { data: models = [] } = useQuery<ModelOption[]>({
+    queryKey: ['/api/models'],
+  });
+  const chatModels = models.filter(model => model.roles.includes('chat'));
+  const reasoningModels = models.filter(model => model.roles.includes('reasoning'));
+
+  // Fall back to an available model when the saved one's provider isn't configured
+  useEffect(() => {
+    if (chatModels.length > 0 && !chatModels.some(model => model.value === selectedModel)) {
+      setSelectedModel(chatModels[0].value);
+    }
+    if (reasoningModels.length > 0 && !reasoningModels.some(model => model.value === reasoningModel)) {
+      setReasoningModel(reasoningModels[0].value);
+    }
+  }, [models]);
+
   // Fetch datasets
   const { data: datasets = [], refetch: refetchDatasets } = useQuery<Dataset[]>({
     queryKey: ['datasets'],
@@ -243,6 +317,99 @@ export default function Dashboard() {
     }
   });
 
+  // Clusters saved for the analysis
+  const { data: clusters = [] } = useQuery<Cluster[]>({
+    queryKey: ['clusters', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/clusters`);
+      if (!response.ok) throw new Error('Failed to fetch clusters');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  // A cluster filter or open trace only makes sense for the analysis it came from
+  useEffect(() => {
+    setActiveClusterId(null);
+    setOpenTraceId(null);
+    setTraceScope(null);
+  }, [analysisId]);
+
+  const refreshClusters = () => {
+    queryClient.invalidateQueries({ queryKey: ['clusters', analysisId] });
+    queryClient.invalidateQueries({ queryKey: ['traces', analysisId] }); // cluster filter and cluster: terms
+    queryClient.invalidateQueries({ queryKey: ['trace', analysisId] }); // detail drawer references
+  };
+
+  // Tokens and cost of the LLM calls made for this analysis, per message and batch job
+  const { data: usage } = useQuery<AnalysisUsage>({
+    queryKey: ['usage', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/usage`);
+      if (!response.ok) throw new Error('Failed to fetch usage');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  // Stored default prompts fill the editors unless this browser has its own override
+  const { data: defaultPrompts } = useQuery<Partial<Record<PromptKind, Prompt>>>({
+    queryKey: ['prompts', 'defaults'],
+    queryFn: async () => {
+      const response = await fetch('/api/prompts/defaults');
+      if (!response.ok) throw new Error('Failed to fetch default prompts');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (defaultPrompts?.analysis && !useCustomPrompt) setCustomPrompt(defaultPrompts.analysis.body);
+    if (defaultPrompts?.reasoning && !useCustomReasoningPrompt) setReasoningPrompt(defaultPrompts.reasoning.body);
+    if (defaultPrompts?.batch) setBatchPrompt(defaultPrompts.batch.body);
+  }, [defaultPrompts]);
+
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ['conversations', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analysis/${analysisId}/conversations`);
+      if (!response.ok) throw new Error('Failed to fetch conversations');
+      return response.json();
+    },
+    enabled: !!analysisId,
+  });
+
+  const openConversation = async (id: number) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load conversation: ${response.status}`);
+      }
+      const data: { conversation: Conversation; messages: Message[] } = await response.json();
+      setConversationId(data.conversation.id);
+      setChatHistory(data.messages.map(toChatMessage));
+      setContextUsage(null);
+      console.log('🔄 Resumed conversation:', data.conversation.id, 'messages:', data.messages.length);
+    } catch (error) {
+      console.error('❌ Could not resume conversation:', error);
+      setConversationId(null);
+      setChatHistory([]);
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setChatHistory([]);
+    setContextUsage(null);
+  };
+
+  const deleteConversation = async (id: number) => {
+    const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      if (id === conversationId) startNewConversation();
+      queryClient.invalidateQueries({ queryKey: ['conversations', analysisId] });
+    }
+  };
+
   // Fetch analysis
   const { data: analysis, error: analysisError } = useQuery<Analysis>({
     queryKey: ['analysis', analysisId],
@@ -296,34 +463,73 @@ export default function Dashboard() {
     }
   });
 
+  const uploadTraceFile = async (file: File, csvMapping?: ColumnMapping) => {
+    const formData = new FormData();
+    formData.append('langsmithFile', file);
+    if (csvMapping) {
+      formData.append('csvMapping', JSON.stringify(csvMapping));
+    }
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Upload failed');
+      }
+
+      const result = await response.json();
+      setAnalysisId(result.id);
+      startNewConversation();
+      localStorage.setItem('savedAnalysisId', result.id.toString());
+      console.log('💾 Saved analysis ID to localStorage:', result.id);
+      setFiles({});
+      setCsvPreview(null);
+    } catch (error) {
+      console.error('Upload error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setFiles({ langsmithFile: file });
+    if (!file) return;
+
+    setFiles({ langsmithFile: file });
+    setCsvPreview(null);
+    setUploadError(null);
 
-      // Auto-upload the file
+    // CSV files need a column mapping step before upload
+    if (file.name.toLowerCase().endsWith('.csv')) {
       const formData = new FormData();
       formData.append('langsmithFile', file);
 
       try {
-        const response = await fetch('/api/upload', {
+        const response = await fetch('/api/upload/preview', {
           method: 'POST',
           body: formData
         });
-
         if (!response.ok) {
-          throw new Error('Upload failed');
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.error || 'Failed to read CSV file');
         }
-
-        const result = await response.json();
-        setAnalysisId(result.id);
-        localStorage.setItem('savedAnalysisId', result.id.toString());
-        console.log('💾 Saved traces to localStorage with analysis ID:', result.id);
-        setFiles({});
+        setCsvPreview(await response.json());
       } catch (error) {
-        console.error('Upload error:', error);
+        console.error('CSV preview error:', error);
+        setUploadError(error instanceof Error ? error.message : 'Failed to read CSV file');
       }
+      return;
     }
+
+    // Auto-upload the file
+    await uploadTraceFile(file);
   };
 
   const handleAnalyze = async () => {
@@ -355,8 +561,11 @@ export default function Dashboard() {
     };
 
     setChatHistory(prev => [...prev, userMessage]);
+    let activeConversationId = conversationId;
 
-    // We'll add the assistant message only when we get actual content
+    // We'll add the assistant message only when we get actual content.
+    // Its id is chosen up front so clusters created by this turn can point back to it.
+    const assistantMessageId = `assistant-${Date.now()}`;
     let assistantMessage: ChatMessage | null = null;
 
     try {
@@ -376,11 +585,15 @@ export default function Dashboard() {
           reasoningModel: reasoningModel,
           customPrompt: useCustomPrompt ? customPrompt.trim() || undefined : undefined,
           customReasoningPrompt: useCustomReasoningPrompt ? reasoningPrompt.trim() || undefined : undefined,
-          chatHistory: chatHistory.length > 0 ? chatHistory : [],
+          conversationId,
+          userMessageId: userMessage.id,
           maxTracesForReasoning: enableOptimizations ? maxTracesForAnalysis : 250,
+          retrievalStrategy,
+          messageId: assistantMessageId,
           enableOptimizations,
-          // Always pass cached traces as fallback to ensure they're available after clearing chat
-          fallbackTraces: cachedTraces.length > 0 ? cachedTraces : undefined
+          // A single-trace scope takes the place of the filter scope
+          filter: traceScope ? undefined : analysisScope,
+          traceId: traceScope?.id
         }),
         signal: controller.signal
       });
@@ -399,14 +612,19 @@ export default function Dashboard() {
       }
 
       let currentResponse = "";
-      let currentTracesWithTags: Array<{ trace: string; tags: string[] }> = [];
+      let currentTracesWithTags: Array<{ trace: string; traceId: string; tags: string[] }> = [];
+      let answeredQuestion = false;
+      const decoder = new TextDecoder();
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n\n');
+        // Token deltas arrive in small network chunks; keep any partial event for the next read
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n\n');
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
@@ -416,6 +634,10 @@ export default function Dashboard() {
 
               if (data.type === 'heartbeat') {
                 console.log('✅ Connection established');
+              } else if (data.type === 'conversation') {
+                activeConversationId = data.conversationId;
+                setConversationId(data.conversationId);
+                queryClient.invalidateQueries({ queryKey: ['conversations', analysisId] });
               } else if (data.type === 'content') {
                 if (data.content) {
                   currentResponse += data.content;
@@ -425,7 +647,7 @@ export default function Dashboard() {
                   // Create assistant message on first content if it doesn't exist
                   if (!assistantMessage) {
                     assistantMessage = {
-                      id: `assistant-${Date.now()}`,
+                      id: assistantMessageId,
                       type: 'assistant',
                       content: currentResponse,
                       timestamp: Date.now()
@@ -457,6 +679,8 @@ export default function Dashboard() {
               } else if (data.type === 'streaming_complete') {
                 console.log('✅ Streaming complete');
                 setIsAnalyzing(false);
+              } else if (data.type === 'context') {
+                setContextUsage({ tokens: data.tokens, budget: data.budget, summarizedMessages: data.summarizedMessages });
               } else if (data.type === 'reasoning_start') {
                 console.log('🧠 Reasoning started');
                 setIsSelecting(true);
@@ -471,6 +695,11 @@ export default function Dashboard() {
                       : msg
                   ));
                 }
+                if (data.clusters) {
+                  queryClient.setQueryData(['clusters', analysisId], data.clusters);
+                }
+                queryClient.invalidateQueries({ queryKey: ['usage', analysisId] });
+                answeredQuestion = !data.clusterEdit;
               } else if (data.type === 'error') {
                 console.error('❌ Server error:', data.error);
                 throw new Error(data.error);
@@ -493,6 +722,12 @@ export default function Dashboard() {
         };
         setChatHistory(prev => [...prev, fallbackMessage]);
       }
+
+      // Runs on its own connection so the next question isn't blocked on it. An answer about one trace
+      // has no categories worth sorting the whole corpus into.
+      if (answeredQuestion && assistantMessage && classifyAllTraces && !traceScope) {
+        classifyResponse(assistantMessageId, currentResponse, currentQuery, activeConversationId);
+      }
     } catch (error) {
       console.error('💥 Analysis request failed:', error);
       if ((error as any).name === 'AbortError') {
@@ -531,6 +766,81 @@ export default function Dashboard() {
     }
   };
 
+  const updateClassification = (messageId: string, update: Partial<MessageClassification>) => {
+    setChatHistory(prev => prev.map(msg =>
+      msg.id === messageId
+        ? { ...msg, classification: { status: 'running', completedChunks: 0, totalChunks: 0, stats: [], ...msg.classification, ...update } }
+        : msg
+    ));
+  };
+
+  // Classify the whole corpus into the categories of an answer and attach the counts to the message
+  const classifyResponse = async (messageId: string, responseText: string, questionText: string, messageConversationId: number | null) => {
+    if (!analysisId) return;
+
+    updateClassification(messageId, { status: 'running' });
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/classify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: responseText, query: questionText, model: reasoningModel, messageId, conversationId: messageConversationId })
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Classification failed: ${response.status} ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue;
+          const data = JSON.parse(event.slice(6));
+
+          if (data.type === 'progress') {
+            updateClassification(messageId, { completedChunks: data.completedChunks, totalChunks: data.totalChunks });
+          } else if (data.type === 'complete') {
+            updateClassification(messageId, { status: 'complete', stats: data.stats });
+            queryClient.setQueryData(['clusters', analysisId], data.clusters);
+            queryClient.invalidateQueries({ queryKey: ['usage', analysisId] });
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('❌ Classification failed:', error);
+      updateClassification(messageId, { status: 'error', error: error instanceof Error ? error.message : 'Classification failed' });
+    }
+  };
+
+  // Header markup for an answer, with the full-corpus count next to each classified category
+  const renderCategoryHeader = (message: ChatMessage, title: string) => {
+    const classification = message.classification;
+    let badge = '';
+    if (classification?.status === 'running') {
+      const progress = classification.totalChunks > 0 ? ` ${classification.completedChunks}/${classification.totalChunks}` : '';
+      badge = `<span class="ml-2 text-xs font-normal text-slate-500">classifying${progress}…</span>`;
+    } else if (classification?.status === 'complete') {
+      // A heading with no letters or digits matches nothing
+      const key = normalizeCategory(title);
+      const stat = key ? classification.stats.find(item => normalizeCategory(item.category) === key) : undefined;
+      if (stat) {
+        badge = `<span class="ml-2 px-1.5 py-0.5 rounded bg-blue-900/40 border border-blue-700/60 text-xs font-normal text-blue-200">${stat.count} traces · ${stat.percentage}%</span>`;
+      }
+    }
+    return `<h3 class="text-lg font-semibold text-slate-100 mt-4 mb-2">${title}${badge}</h3>`;
+  };
+
   const handleStopAnalysis = () => {
     if (abortController) {
       abortController.abort();
@@ -563,30 +873,29 @@ export default function Dashboard() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const handleTraceSelection = (index: number) => {
+  const handleTraceSelection = (traceId: string) => {
     const newSelected = new Set(selectedTraces);
-    if (newSelected.has(index)) {
-      newSelected.delete(index);
+    if (newSelected.has(traceId)) {
+      newSelected.delete(traceId);
     } else {
-      newSelected.add(index);
+      newSelected.add(traceId);
     }
     setSelectedTraces(newSelected);
   };
 
   const handleSelectAllTraces = () => {
-    if (selectedTraces.size === filteredTraces.length) {
+    if (selectedTraces.size === listedTraces.length) {
       setSelectedTraces(new Set());
     } else {
-      const allIndices = filteredTraces.map((_, idx) => traces.indexOf(filteredTraces[idx]));
-      setSelectedTraces(new Set(allIndices));
+      setSelectedTraces(new Set(listedTraces.map(trace => trace.id)));
     }
   };
 
   const handleDownloadSelected = () => {
     if (selectedTraces.size === 0) return;
 
-    const selectedTracesContent = Array.from(selectedTraces)
-      .map(index => `Line ${index + 1}: ${traces[index]}`)
+    const selectedTracesContent = starredTraces
+      .map(trace => `Line ${trace.position + 1}: ${trace.text}`)
       .join('\n');
 
     const blob = new Blob([selectedTracesContent], { type: 'text/plain' });
@@ -609,7 +918,9 @@ export default function Dashboard() {
       reasoningPrompt,
       useCustomReasoningPrompt,
       maxTracesForAnalysis,
-      enableOptimizations
+      enableOptimizations,
+      retrievalStrategy,
+      classifyAllTraces
     };
     localStorage.setItem('traceDetectiveConfig', JSON.stringify(config));
     setShowConfigModal(false);
@@ -617,19 +928,6 @@ export default function Dashboard() {
 
   
 
-  const handleClearChatHistory = () => {
-    setChatHistory([]);
-    localStorage.removeItem('chatHistory');
-    console.log('🔄 Chat history cleared - traces remain available for new questions');
-  };
-
-  const handleClearCachedTraces = () => {
-    setCachedTraces([]);
-    localStorage.removeItem('cachedTraces');
-    console.log('🔄 Cached traces cleared');
-  };
-
-
 
   const saveConfiguration = () => {
     localStorage.setItem('selectedModel', selectedModel);
@@ -637,37 +935,16 @@ export default function Dashboard() {
     setShowConfigModal(false);
   };
 
-  // Get traces and filter them - prioritize cached traces over API data
-  const traces = useMemo(() => {
-    if (cachedTraces.length > 0) {
-      console.log('📋 Using cached traces:', cachedTraces.length);
-      return cachedTraces;
-    }
-    
-    const apiTraces = analysis?.langsmithContent?.split('\n').filter(line => line.trim() !== '') || [];
-    console.log('📋 Using API traces:', apiTraces.length);
-    return apiTraces;
-  }, [analysis?.langsmithContent, cachedTraces]);
-
-  // Cache traces whenever analysis data changes
-  useEffect(() => {
-    if (analysis?.langsmithContent) {
-      const newTraces = analysis.langsmithContent.split('\n').filter(line => line.trim() !== '');
-      if (newTraces.length > 0) {
-        setCachedTraces(newTraces);
-        localStorage.setItem('cachedTraces', JSON.stringify(newTraces));
-        console.log('💾 Cached traces to localStorage:', newTraces.length);
-      }
-    }
-  }, [analysis?.langsmithContent]);
+  // Half-filled filter rows are ignored until they're complete; the scope goes to the server only when opted in
+  const appliedFilter = useMemo(() => completeFilter(traceFilter), [traceFilter]);
+  const analysisScope = scopeToFilter && !isEmptyFilter(appliedFilter) ? appliedFilter : undefined;
 
   // Debug logging
   console.log('🔍 Debug traces:', {
     analysisId,
     hasAnalysis: !!analysis,
-    langsmithContentLength: analysis?.langsmithContent?.length || 0,
-    tracesCount: traces.length,
-    analysisObject: analysis ? Object.keys(analysis) : 'no analysis'
+    traceFormat: analysis?.traceFormat,
+    tracesCount: analysis?.traceCount ?? 0,
   });
 
   // Log tab changes for debugging
@@ -675,8 +952,7 @@ export default function Dashboard() {
     console.log('📑 Tab changed to:', activeTab);
     console.log('📊 Current state:', {
       analysisId,
-      tracesCount: traces.length,
-      cachedTracesCount: cachedTraces.length,
+      tracesCount: analysis?.traceCount ?? 0,
       batchJobsCount: batchJobs.length
     });
   }, [activeTab]);
@@ -686,47 +962,78 @@ export default function Dashboard() {
     msg.type === 'assistant' && msg.tracesWithTags && msg.tracesWithTags.length > 0
   );
 
-  // Get relevant trace indices and tags from the latest assistant message
-  const relevantTraceIndices = new Set(
-    latestAssistantMessage?.tracesWithTags?.map(item => {
-      const traceIndex = traces.findIndex(t => t === item.trace);
-      return traceIndex >= 0 ? traceIndex : null;
-    }).filter(index => index !== null) || []
+  // The latest answer as an eval case: the question before it and the traces it tagged
+  const latestAssistantIndex = latestAssistantMessage ? chatHistory.indexOf(latestAssistantMessage) : -1;
+  const latestQuestion = chatHistory.slice(0, latestAssistantIndex).reverse().find(msg => msg.type === 'user');
+  const latestEvalCase: EvalCase | null = latestAssistantMessage && latestQuestion ? {
+    question: latestQuestion.content,
+    response: latestAssistantMessage.content,
+    expected: (latestAssistantMessage.tracesWithTags || []).map(({ traceId, tags }) => ({ traceId, tags })),
+  } : null;
+
+  // Get relevant trace ids from the latest assistant message
+  const relevantTraceIds = new Set(
+    latestAssistantMessage?.tracesWithTags?.map(item => item.traceId).filter(Boolean) || []
   );
 
-  // Create a map of trace index to tags
-  const traceTagsMap = new Map<number, string[]>();
-  latestAssistantMessage?.tracesWithTags?.forEach(item => {
-    const traceIndex = traces.findIndex(t => t === item.trace);
-    if (traceIndex >= 0) {
-      traceTagsMap.set(traceIndex, item.tags || []);
-    }
-  });
-
-  // Sort traces with relevant ones first, then apply search filter
-  const sortedTraces = [...traces].sort((a, b) => {
-    const aIndex = traces.indexOf(a);
-    const bIndex = traces.indexOf(b);
-    const aIsRelevant = relevantTraceIndices.has(aIndex);
-    const bIsRelevant = relevantTraceIndices.has(bIndex);
-
-    if (aIsRelevant && !bIsRelevant) return -1;
-    if (!aIsRelevant && bIsRelevant) return 1;
-    return aIndex - bIndex; // Keep original order within each group
+  // Map each trace to the clusters it belongs to; clusters accumulate across chat turns
+  const traceClustersMap = new Map<string, Cluster[]>();
+  clusters.forEach(cluster => {
+    cluster.traceIds.forEach(traceId => {
+      traceClustersMap.set(traceId, [...(traceClustersMap.get(traceId) || []), cluster]);
+    });
   });
 
-  // Normalize text for case and accent insensitive search
-  const normalizeText = (text: string) => {
-    return text
-      .toLowerCase()
-      .normalize('NFD') // Decompose accented characters
-      .replace(/[\u0300-\u036f]/g, '') // Remove accent marks
-      .trim();
+  const removeTraceFromCluster = async (cluster: Cluster, traceId: string) => {
+    await fetch(`/api/clusters/${cluster.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ traceIds: cluster.traceIds.filter(id => id !== traceId) }),
+    });
+    refreshClusters();
   };
 
-  const filteredTraces = sortedTraces.filter(trace => 
-    normalizeText(trace).includes(normalizeText(traceSearch))
-  );
+  // The trace list pages through the server: search, filters, the active cluster and sorting all apply there,
+  // with the latest answer's traces pinned to the top. Only the pages scrolled to so far are held here.
+  const parsedSearch = useMemo(() => parseSearch(searchQuery), [searchQuery]);
+  const pinnedTraceIds = Array.from(relevantTraceIds).sort().join(',');
+  const traceList = useInfiniteQuery({
+    queryKey: ['traces', analysisId, searchQuery, appliedFilter, activeClusterId, traceSort, pinnedTraceIds],
+    queryFn: async ({ pageParam }): Promise<TracePage> => {
+      const [sort, order] = traceSort.split(':');
+      const params = new URLSearchParams({ q: searchQuery, sort, order, limit: String(TRACE_PAGE_SIZE) });
+      if (pageParam) params.set('cursor', pageParam);
+      if (!isEmptyFilter(appliedFilter)) params.set('filter', JSON.stringify(appliedFilter));
+      if (activeClusterId !== null) params.set('clusterId', String(activeClusterId));
+      if (pinnedTraceIds) params.set('pinned', pinnedTraceIds);
+      const response = await fetch(`/api/analysis/${analysisId}/traces?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load traces');
+      }
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled: !!analysisId && parsedSearch.errors.length === 0,
+  });
+  const listedTraces = useMemo(() => (traceList.data?.pages ?? []).flatMap(page => page.traces), [traceList.data]);
+  const listedTotal = traceList.data?.pages[0]?.total ?? 0;
+  const searchErrors = parsedSearch.errors.length > 0
+    ? parsedSearch.errors
+    : traceList.error ? [traceList.error.message] : [];
+
+  // Every row listed so far, so starred traces can be reviewed and downloaded after the list has moved on
+  const knownTraces = useRef(new Map<string, TraceListItem>());
+  listedTraces.forEach(trace => knownTraces.current.set(trace.id, trace));
+  useEffect(() => {
+    knownTraces.current = new Map();
+  }, [analysisId]);
+  const starredTraces = Array.from(selectedTraces)
+    .map(id => knownTraces.current.get(id))
+    .filter((trace): trace is TraceListItem => !!trace)
+    .sort((a, b) => a.position - b.position);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
@@ -774,21 +1081,44 @@ export default function Dashboard() {
                 </label>
                 <Input
                   type="file"
-                  accept=".txt,.json,.csv"
+                  accept=".txt,.json,.jsonl,.csv"
                   onChange={handleFileChange}
                   className="bg-slate-800/50 border-slate-600 text-slate-200 h-11 focus:border-slate-500 focus:ring-2 focus:ring-slate-500/20 transition-all duration-200"
                 />
               </div>
 
+              {csvPreview && files.langsmithFile && (
+                <CsvColumnMapping
+                  key={files.langsmithFile.name}
+                  fileName={files.langsmithFile.name}
+                  preview={csvPreview}
+                  isUploading={isUploading}
+                  onConfirm={(mapping) => uploadTraceFile(files.langsmithFile!, mapping)}
+                  onCancel={() => {
+                    setCsvPreview(null);
+                    setFiles({});
+                  }}
+                />
+              )}
+
+              {uploadError && (
+                <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg">
+                  <p className="text-red-300 text-sm">⚠️ {uploadError}</p>
+                </div>
+              )}
+
               {analysisId && !analysisError && (
                 <div className="p-4 bg-slate-800 border border-slate-700 rounded-lg">
                   <p className="text-slate-300 font-medium">
-                    ✅ Traces uploaded successfully! | {traces.length} traces loaded
+                    ✅ Traces uploaded successfully! | {analysis?.traceCount ?? 0} traces loaded
+                    {analysis?.traceFormat && analysis.traceFormat !== 'text' && (
+                      <span className="text-slate-400 text-sm font-normal"> ({analysis.traceFormat})</span>
+                    )}
+                    {analysis?.hasEmbeddings && (
+                      <span className="text-slate-500 text-xs font-normal ml-1">· semantic index</span>
+                    )}
                   </p>
                   <p className="text-slate-400 text-sm mt-1">Analysis ID: {analysisId}</p>
-                  <p className="text-slate-400 text-xs mt-1">
-                    {cachedTraces.length > 0 ? '📋 Using cached traces (always available)' : '🌐 Using API traces'}
-                  </p>
                 </div>
               )}
               
@@ -803,19 +1133,6 @@ export default function Dashboard() {
                   <p className="text-slate-400 text-xs mt-2">
                     Please re-upload your trace file to continue.
                   </p>
-                  {cachedTraces.length > 0 && (
-                    <div className="mt-2 p-2 bg-slate-800 border border-slate-600 rounded">
-                      <p className="text-slate-300 text-xs">
-                        📋 {cachedTraces.length} traces available from cache
-                      </p>
-                      <button 
-                        onClick={handleClearCachedTraces}
-                        className="text-red-400 hover:text-red-300 text-xs underline mt-1"
-                      >
-                        Clear cached traces
-                      </button>
-                    </div>
-                  )}
                 </div>
               )}
             </div>
@@ -874,7 +1191,7 @@ export default function Dashboard() {
 
         {/* Main Content Grid */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1">
-          <TabsList className="grid w-full grid-cols-2 bg-slate-800 border border-slate-700 rounded-lg mb-6 h-12">
+          <TabsList className="grid w-full grid-cols-4 bg-slate-800 border border-slate-700 rounded-lg mb-6 h-12">
             <TabsTrigger 
               value="traces" 
               className="data-[state=active]:bg-slate-700 data-[state=active]:text-slate-100 text-slate-300 hover:text-slate-200 transition-colors rounded-md h-10"
@@ -889,6 +1206,20 @@ export default function Dashboard() {
               <BarChart3 className="w-4 h-4 mr-2" />
               Batch Jobs
             </TabsTrigger>
+            <TabsTrigger 
+              value="findings" 
+              className="data-[state=active]:bg-slate-700 data-[state=active]:text-slate-100 text-slate-300 hover:text-slate-200 transition-colors rounded-md h-10"
+            >
+              <Radar className="w-4 h-4 mr-2" />
+              Findings
+            </TabsTrigger>
+            <TabsTrigger 
+              value="evals" 
+              className="data-[state=active]:bg-slate-700 data-[state=active]:text-slate-100 text-slate-300 hover:text-slate-200 transition-colors rounded-md h-10"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              Evals
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="traces" className="mt-0">
@@ -904,7 +1235,7 @@ export default function Dashboard() {
                     </div>
                     <div>
                       <span>Traces</span>
-                      <span className="text-slate-400 text-sm font-normal ml-2">({traces.length})</span>
+                      <span className="text-slate-400 text-sm font-normal ml-2">({analysis?.traceCount ?? 0})</span>
                     </div>
                   </CardTitle>
 
@@ -915,9 +1246,9 @@ export default function Dashboard() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent className="bg-slate-800 border-slate-600">
-                        <SelectItem value="o4-mini">o4 Mini</SelectItem>
-                        <SelectItem value="o3">o3</SelectItem>
-                        <SelectItem value="o3-mini">o3 Mini</SelectItem>
+                        {reasoningModels.map(model => (
+                          <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     
@@ -942,43 +1273,40 @@ export default function Dashboard() {
                         <div className="flex flex-col space-y-4">
                           <ScrollArea className="max-h-[50vh]">
                             <div className="space-y-3 pr-4">
-                              {Array.from(selectedTraces)
-                                .sort((a, b) => a - b)
-                                .map((traceIndex) => {
-                                  const trace = traces[traceIndex];
-                                  const traceTags = traceTagsMap.get(traceIndex) || [];
+                              {starredTraces.map((trace) => {
+                                  const traceClusters = traceClustersMap.get(trace.id) || [];
                               return (
                                     <div 
-                                      key={traceIndex}
+                                      key={trace.id}
                                       className="p-3 rounded-lg border bg-slate-800/70 border-slate-600"
                                     >
                                       <div className="flex justify-between items-start mb-2">
-                                        <span className="text-xs text-slate-400 font-mono">Line {traceIndex + 1}</span>
+                                        <span className="text-xs text-slate-400 font-mono">Line {trace.position + 1}</span>
                                         <Button
                                        
                                           size="sm"
-                                          onClick={() => handleTraceSelection(traceIndex)}
+                                          onClick={() => handleTraceSelection(trace.id)}
                                           className="h-6 w-6 p-0 text-red-400 hover:text-red-300 hover:bg-red-900/20"
                                         >
                                           <X size={12} />
                                         </Button>
                                       </div>
 
-                                      {traceTags.filter(tag => !tag.includes('selected')).length > 0 && (
+                                      {traceClusters.length > 0 && (
                                         <div className="flex flex-wrap gap-1 mb-2">
-                                              {traceTags.filter(tag => !tag.includes('selected')).map((tag, tagIndex) => (
+                                              {traceClusters.map(cluster => (
                                             <Badge 
-                                                  key={tagIndex}
+                                                  key={cluster.id}
                                               variant="secondary" 
                                               className="bg-slate-700 text-slate-300 border-slate-600 text-xs px-1 py-0"
                                                 >
-                                              {tag.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                                              {formatClusterName(cluster.name)}
                                             </Badge>
                                               ))}
                                             </div>
                                           )}
 
-                                      <p className="text-sm text-slate-300 font-mono break-words">{trace}</p>
+                                      <p className="text-sm text-slate-300 font-mono break-words">{trace.text}</p>
                                     </div>
                                   );
                                 })}
@@ -1046,6 +1374,7 @@ export default function Dashboard() {
                           <Button
                             variant="outline"
                             size="sm"
+                            disabled={hasTemplateErrors('analysis', customPrompt)}
                             onClick={() => {
                               setUseCustomPrompt(true);
                               setSaveConfirmation('Analysis prompt set for this session');
@@ -1054,39 +1383,14 @@ export default function Dashboard() {
                           >
                             Use for This Session
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={async () => {
-                              setUseCustomPrompt(true);
-                              const config = JSON.parse(localStorage.getItem('traceDetectiveConfig') || '{}');
-                              config.customPrompt = customPrompt;
-                              config.useCustomPrompt = true;
-                              localStorage.setItem('traceDetectiveConfig', JSON.stringify(config));
-                              
-                              // Update the code permanently
-                              try {
-                                await fetch('/api/update-default-prompt', {
-                                  method: 'POST',
-                                  headers: {
-                                    'Content-Type': 'application/json'
-                                  },
-                                  body: JSON.stringify({
-                                    type: 'analysis',
-                                    prompt: customPrompt
-                                  })
-                                });
-                                setSaveConfirmation('Analysis prompt saved permanently in code');
-                              } catch (error) {
-                                setSaveConfirmation('Analysis prompt saved for this session only');
-                              }
-                            }}
-                            className="border-blue-600 text-blue-400 hover:bg-blue-900/20"
-                          >
-                            <Save size={14} className="mr-1" />
-                            Save for Future Sessions
-                          </Button>
                         </div>
+                        <PromptPicker
+                          kind="analysis"
+                          body={customPrompt}
+                          onLoad={setCustomPrompt}
+                          onDefaultChanged={() => setUseCustomPrompt(false)}
+                          onStatus={setSaveConfirmation}
+                        />
                       </div>
                                       </div>
 
@@ -1107,6 +1411,7 @@ export default function Dashboard() {
                           <Button
                             variant="outline"
                             size="sm"
+                            disabled={hasTemplateErrors('reasoning', reasoningPrompt)}
                             onClick={() => {
                               setUseCustomReasoningPrompt(true);
                               setSaveConfirmation('Reasoning prompt set for this session');
@@ -1114,43 +1419,44 @@ export default function Dashboard() {
                             className="border-slate-600 text-slate-300 hover:bg-slate-700"
                           >
                             Use for This Session
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={async () => {
-                              setUseCustomReasoningPrompt(true);
-                              const config = JSON.parse(localStorage.getItem('traceDetectiveConfig') || '{}');
-                              config.reasoningPrompt = reasoningPrompt;
-                              config.useCustomReasoningPrompt = true;
-                              localStorage.setItem('traceDetectiveConfig', JSON.stringify(config));
-                              
-                              // Update the code permanently
-                              try {
-                                await fetch('/api/update-default-prompt', {
-                                  method: 'POST',
-                                  headers: {
-                                    'Content-Type': 'application/json'
-                                  },
-                                  body: JSON.stringify({
-                                    type: 'reasoning',
-                                    prompt: reasoningPrompt
-                                  })
-                                });
-                                setSaveConfirmation('Reasoning prompt saved permanently in code');
-                              } catch (error) {
-                                setSaveConfirmation('Reasoning prompt saved for this session only');
-                              }
-                            }}
-                            className="border-blue-600 text-blue-400 hover:bg-blue-900/20"
-                          >
-                            <Save size={14} className="mr-1" />
-                            Save for Future Sessions
                           </Button>
                                       </div>
+                        <PromptPicker
+                          kind="reasoning"
+                          body={reasoningPrompt}
+                          onLoad={setReasoningPrompt}
+                          onDefaultChanged={() => setUseCustomReasoningPrompt(false)}
+                          onStatus={setSaveConfirmation}
+                        />
                                     </div>
                                   </div>
 
+                    {/* Batch Job Prompt Settings */}
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold text-slate-200">Batch Job Prompt</h3>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                          Batch Job Prompt
+                        </label>
+                        <Textarea
+                          value={batchPrompt}
+                          onChange={(e) => setBatchPrompt(e.target.value)}
+                          className="bg-slate-800 border-slate-700 text-slate-200 placeholder-slate-400 min-h-[200px] font-mono text-sm"
+                        />
+                        <p className="text-xs text-slate-400 mt-2">
+                          Batch jobs run on the server, so they always use the default version. Save your edits and set them as default to use them.
+                        </p>
+                        <PromptPicker
+                          kind="batch"
+                          body={batchPrompt}
+                          onLoad={setBatchPrompt}
+                          onDefaultChanged={() => {}}
+                          onStatus={setSaveConfirmation}
+                        />
+                      </div>
+                    </div>
+
                                          {/* Performance Optimization Settings */}
                      <div className="space-y-4">
                        <h3 className="text-lg font-semibold text-slate-200">Performance Optimization</h3>
@@ -1181,6 +1487,38 @@ export default function Dashboard() {
                        )}
                      </div>
 
+                     {/* Trace Retrieval Settings */}
+                     <div className="space-y-4">
+                       <h3 className="text-lg font-semibold text-slate-200">Trace Retrieval</h3>
+                       <div className="flex items-center space-x-2">
+                         <label className="text-sm text-slate-300">Strategy:</label>
+                         <Select value={retrievalStrategy} onValueChange={(value) => setRetrievalStrategy(value as RetrievalStrategy)}>
+                           <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200 w-64">
+                             <SelectValue />
+                           </SelectTrigger>
+                           <SelectContent className="bg-slate-800 border-slate-600">
+                             <SelectItem value="hybrid">Semantic matches + random sample</SelectItem>
+                             <SelectItem value="semantic">Semantic matches only</SelectItem>
+                             <SelectItem value="random">Random sample</SelectItem>
+                           </SelectContent>
+                         </Select>
+                       </div>
+                       <div className="flex items-center space-x-2">
+                         <Checkbox
+                           id="classifyAllTraces"
+                           checked={classifyAllTraces}
+                           onCheckedChange={(checked) => setClassifyAllTraces(!!checked)}
+                           className="text-slate-300"
+                         />
+                         <label htmlFor="classifyAllTraces" className="text-sm text-slate-300">
+                           Classify all traces into each answer's categories (adds counts next to each heading)
+                         </label>
+                       </div>
+                       <p className="text-xs text-slate-400">
+                         Semantic retrieval sends the chat model the traces closest to your question. The hybrid mode keeps 20% of the slots for random traces so unrelated patterns still show up.
+                       </p>
+                     </div>
+
                     {/* Confirmation Message */}
                     {saveConfirmation && (
                       <div className="flex items-center space-x-2 p-3 bg-green-900/20 border border-green-600 rounded-lg">
@@ -1203,10 +1541,12 @@ export default function Dashboard() {
                 </DialogContent>
               </Dialog>
 
-              <div className="relative mt-6">
+              <div className="flex items-center gap-2 mt-6">
+              <div className="relative flex-1">
                 <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-slate-400" size={18} />
                 <Input
-                  placeholder="Search traces..."
+                  placeholder='Search traces... e.g. refund -"order id" tool:/search_.*/ cluster:billing'
+                  title={'Words and "phrases" match the trace text; /regex/ for patterns; -term to exclude; field:value for name, model, user, tag, error, tool, span, cluster or any metadata key'}
                   value={traceSearch}
                   onChange={(e) => setTraceSearch(e.target.value)}
                   className="pl-12 pr-12 h-12 bg-slate-800/50 border-slate-600 text-slate-200 placeholder-slate-400 focus:border-slate-500 focus:ring-2 focus:ring-slate-500/20 transition-all duration-200 text-sm"
@@ -1222,6 +1562,32 @@ export default function Dashboard() {
                   </Button>
                                 )}
                               </div>
+                <Select value={traceSort} onValueChange={setTraceSort}>
+                  <SelectTrigger className="bg-slate-800/50 border-slate-600 text-slate-200 w-40 h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-600">
+                    <SelectItem value="position:asc">Upload order</SelectItem>
+                    <SelectItem value="startTime:desc">Newest first</SelectItem>
+                    <SelectItem value="startTime:asc">Oldest first</SelectItem>
+                    <SelectItem value="latency:desc">Slowest first</SelectItem>
+                    <SelectItem value="latency:asc">Fastest first</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {searchErrors.length > 0 && (
+                <p className="mt-2 text-xs text-red-400">{searchErrors.join('; ')}</p>
+              )}
+
+              <TraceFilterBuilder
+                filter={traceFilter}
+                onChange={setTraceFilter}
+                metadataFields={analysis?.metadataFields ?? []}
+                matchCount={listedTotal}
+                totalCount={analysis?.traceCount ?? 0}
+                scopeAnalysis={scopeToFilter}
+                onScopeAnalysisChange={setScopeToFilter}
+              />
 
               {isSelecting && (
                 <div className="flex items-center justify-center space-x-2 bg-slate-800/30 rounded-md px-3 py-2 mt-2">
@@ -1234,98 +1600,144 @@ export default function Dashboard() {
                 </div>
               )}
               
+              {analysisId && (
+                <ClusterPanel
+                  analysisId={analysisId}
+                  clusters={clusters}
+                  selectedTraceIds={selectedTraces}
+                  activeClusterId={activeClusterId}
+                  onSelectCluster={setActiveClusterId}
+                  onClustersChanged={refreshClusters}
+                />
+              )}
+              
               <div className="mt-4"></div>
             </CardHeader>
 
             <CardContent className="flex-1 overflow-hidden p-3">
-              <ScrollArea style={{ height: 'calc(100vh - 390px)' }}>
-                {filteredTraces.length > 0 ? (
-                  <div className="space-y-3">
-                    {filteredTraces.map((trace, index) => {
-                      const originalIndex = traces.indexOf(trace);
-                      const isSelected = selectedTraces.has(originalIndex);
-                      const isRelevant = relevantTraceIndices.has(originalIndex);
-                      const traceTags = traceTagsMap.get(originalIndex) || [];
-
-                      return (
-                        <div 
-                          key={index} 
-                          className={`group relative overflow-hidden rounded-xl border transition-all duration-200 cursor-pointer ${
-                            isSelected 
-                              ? 'bg-slate-800/80 border-slate-500 shadow-md ring-1 ring-slate-400/30' 
-                              : isRelevant 
-                                ? 'bg-green-900/20 border-green-500/50 shadow-md hover:bg-green-900/30 hover:border-green-400/60' 
-                                : 'bg-slate-800/40 border-slate-600/40 hover:border-slate-500/60 hover:bg-slate-800/60 hover:shadow-sm'
-                          }`}
-                          onClick={() => handleTraceSelection(originalIndex)}
-                        >
-                          <div className="p-3">
-                            <div className="flex items-start gap-3">
-                              <div className="flex items-center gap-2 flex-shrink-0">
-                                <Star 
-                                  size={16}
-                                  className={`cursor-pointer transition-all duration-200 ${
-                                    isSelected 
-                                      ? 'text-yellow-400 fill-yellow-400' 
-                                      : 'text-slate-500 hover:text-yellow-300 group-hover:text-slate-400'
-                                  }`}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleTraceSelection(originalIndex);
-                                  }}
-                                />
-                                <div className={`px-2 py-0.5 rounded-md text-xs font-medium transition-all duration-200 ${
+              {listedTraces.length > 0 ? (
+                <VirtualList
+                  items={listedTraces}
+                  getKey={(trace) => trace.id}
+                  estimateHeight={88}
+                  onEndReached={() => {
+                    if (traceList.hasNextPage && !traceList.isFetchingNextPage) traceList.fetchNextPage();
+                  }}
+                  style={{ height: 'calc(100vh - 390px)' }}
+                  className="pr-2"
+                  footer={
+                    <p className="text-center text-xs text-slate-500 py-2">
+                      {traceList.isFetchingNextPage ? 'Loading more traces...' : `${listedTraces.length} of ${listedTotal} traces`}
+                    </p>
+                  }
+                  renderItem={(trace) => {
+                    const isSelected = selectedTraces.has(trace.id);
+                    const isRelevant = relevantTraceIds.has(trace.id);
+                    const traceClusters = traceClustersMap.get(trace.id) || [];
+
+                    return (
+                      <div 
+                        className={`group relative overflow-hidden rounded-xl border transition-all duration-200 cursor-pointer ${
+                          isSelected 
+                            ? 'bg-slate-800/80 border-slate-500 shadow-md ring-1 ring-slate-400/30' 
+                            : isRelevant 
+                              ? 'bg-green-900/20 border-green-500/50 shadow-md hover:bg-green-900/30 hover:border-green-400/60' 
+                              : 'bg-slate-800/40 border-slate-600/40 hover:border-slate-500/60 hover:bg-slate-800/60 hover:shadow-sm'
+                        }`}
+                        onClick={() => setOpenTraceId(trace.id)}
+                      >
+                        <div className="p-3">
+                          <div className="flex items-start gap-3">
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <Star 
+                                size={16}
+                                className={`cursor-pointer transition-all duration-200 ${
                                   isSelected 
-                                    ? 'bg-slate-600/80 text-slate-200' 
-                                    : 'bg-slate-700/60 text-slate-300 group-hover:bg-slate-600/70'
-                                }`}>
-                                  #{originalIndex + 1}
-                                </div>
-                              </div>
-                              
-                              <div className="flex-1 min-w-0">
-                                {traceTags.filter(tag => !tag.includes('selected')).length > 0 && (
-                                  <div className="flex flex-wrap gap-1 mb-2">
-                                    {traceTags.filter(tag => !tag.includes('selected')).map((tag, tagIndex) => (
-                                      <Badge 
-                                        key={tagIndex}
-                                        variant="secondary" 
-                                        className="bg-slate-600/50 text-slate-300 border-slate-500/50 text-xs px-2 py-0.5 rounded-full font-medium"
-                                      >
-                                        {tag.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                                      </Badge>
-                                    ))}
-                                  </div>
-                                )}
-                                <p className="text-sm text-slate-100 font-mono leading-relaxed break-words">
-                                  {trace}
-                                </p>
+                                    ? 'text-yellow-400 fill-yellow-400' 
+                                    : 'text-slate-500 hover:text-yellow-300 group-hover:text-slate-400'
+                                }`}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleTraceSelection(trace.id);
+                                }}
+                              />
+                              <div className={`px-2 py-0.5 rounded-md text-xs font-medium transition-all duration-200 ${
+                                isSelected 
+                                  ? 'bg-slate-600/80 text-slate-200' 
+                                  : 'bg-slate-700/60 text-slate-300 group-hover:bg-slate-600/70'
+                              }`}>
+                                #{trace.position + 1}
                               </div>
                             </div>
+                            
+                            <div className="flex-1 min-w-0">
+                              {traceClusters.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mb-2">
+                                  {traceClusters.map(cluster => (
+                                    <Badge 
+                                      key={cluster.id}
+                                      variant="secondary" 
+                                      className="group/badge bg-slate-600/50 text-slate-300 border-slate-500/50 text-xs px-2 py-0.5 rounded-full font-medium"
+                                    >
+                                      {formatClusterName(cluster.name)}
+                                      <X
+                                        size={10}
+                                        className="ml-1 hidden group-hover/badge:inline cursor-pointer text-slate-400 hover:text-red-400"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          removeTraceFromCluster(cluster, trace.id);
+                                        }}
+                                      />
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              <p className="text-sm text-slate-100 font-mono leading-relaxed break-words">
+                                {renderHighlighted(trace.text, trace.highlights)}
+                              </p>
+                            </div>
                           </div>
                         </div>
-                      );
-                    })}
-                  </div>
-                                ) : traceSearch ? (
-                  <div className="text-center py-12">
-                    <Search className="mx-auto mb-4 text-slate-500" size={48} />
-                    <p className="text-slate-400 text-lg">No traces found matching "{traceSearch}"</p>
-                    <p className="text-slate-500 text-sm mt-2">Try adjusting your search terms</p>
-                  </div>
-                ) : (
-                  <div className="text-center py-12">
-                    <FileText className="mx-auto mb-4 text-slate-500" size={48} />
-                    <p className="text-slate-400 text-lg">Upload a trace file to see traces here</p>
-                    <p className="text-slate-500 text-sm mt-2">Supported formats: .txt, .json, .csv</p>
-                  </div>
-                )}
-              </ScrollArea>
+                      </div>
+                    );
+                  }}
+                />
+              ) : traceList.isFetching ? (
+                <div className="text-center py-12">
+                  <p className="text-slate-400 text-lg">Loading traces...</p>
+                </div>
+              ) : traceSearch || !isEmptyFilter(appliedFilter) || activeClusterId !== null ? (
+                <div className="text-center py-12">
+                  <Search className="mx-auto mb-4 text-slate-500" size={48} />
+                  <p className="text-slate-400 text-lg">{traceSearch ? `No traces found matching "${traceSearch}"` : 'No traces match the filters'}</p>
+                  <p className="text-slate-500 text-sm mt-2">Try adjusting your search terms or filters</p>
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <FileText className="mx-auto mb-4 text-slate-500" size={48} />
+                  <p className="text-slate-400 text-lg">Upload a trace file to see traces here</p>
+                  <p className="text-slate-500 text-sm mt-2">Supported formats: .txt, .csv, LangSmith / OpenTelemetry .json, .jsonl</p>
+                </div>
+              )}
                 </CardContent>
               </Card>
 
-          {/* Right Panel - Chat */}
-                      <Card className="bg-slate-900/50 border-slate-700 flex flex-col shadow-xl backdrop-blur-sm" style={{ height: 'calc(100vh - 220px)' }}>
+          {/* Right Panel - Chat, or the prompt comparison in its place */}
+          {compareMode && (
+            <ComparePanel
+              analysisId={analysisId}
+              chatModels={chatModels}
+              selectedModel={selectedModel}
+              reasoningModel={reasoningModel}
+              editorPrompt={customPrompt}
+              customReasoningPrompt={useCustomReasoningPrompt ? reasoningPrompt.trim() || undefined : undefined}
+              maxTracesForReasoning={enableOptimizations ? maxTracesForAnalysis : 250}
+              retrievalStrategy={retrievalStrategy}
+              onShowTraces={(traceIds) => setSelectedTraces(new Set(traceIds))}
+              onClose={() => setCompareMode(false)}
+            />
+          )}
+                      <Card className={`bg-slate-900/50 border-slate-700 flex flex-col shadow-xl backdrop-blur-sm ${compareMode ? 'hidden' : ''}`} style={{ height: 'calc(100vh - 220px)' }}>
             <CardHeader className="flex-shrink-0 pb-6 border-b border-slate-700/50">
                   <div className="flex items-center justify-between">
                 <CardTitle className="text-slate-100 flex items-center space-x-3 text-xl font-semibold">
@@ -1333,20 +1745,71 @@ export default function Dashboard() {
                     <MessageCircle className="text-slate-300" size={20} />
                   </div>
                   <span>AI Analysis Chat</span>
+                  {contextUsage && (
+                    <span
+                      className="text-xs font-normal text-slate-400"
+                      title={contextUsage.summarizedMessages > 0 ? `${contextUsage.summarizedMessages} earlier messages are included as a summary` : 'Full conversation included'}
+                    >
+                      ~{(contextUsage.tokens / 1000).toFixed(1)}k / {(contextUsage.budget / 1000).toFixed(1)}k context tokens
+                    </span>
+                  )}
+                  {usage && usage.total.calls > 0 && (
+                    <UsageLabel usage={usage.total} className="font-normal" />
+                  )}
                 </CardTitle>
 
+                {conversations.length > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <Select
+                      value={conversationId ? String(conversationId) : ''}
+                      onValueChange={(value) => openConversation(Number(value))}
+                      disabled={isAnalyzing}
+                    >
+                      <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-200 w-48 h-10">
+                        <SelectValue placeholder="Past conversations" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-600">
+                        {conversations.map(conversation => (
+                          <SelectItem key={conversation.id} value={String(conversation.id)}>{conversation.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {conversationId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteConversation(conversationId)}
+                        disabled={isAnalyzing}
+                        title="Delete conversation"
+                        className="h-10 w-8 p-0 text-slate-400 hover:text-red-400"
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    )}
+                  </div>
+                )}
+
                     <div className="flex items-center space-x-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCompareMode(true)}
+                    disabled={isAnalyzing}
+                    title="Ask one question with two prompts or models side by side"
+                    className="h-10 border-slate-600 text-slate-300 hover:bg-slate-800"
+                  >
+                    <Columns2 size={16} className="mr-1" />
+                    Compare
+                  </Button>
                   <label className="text-sm font-medium text-slate-300">Model:</label>
                   <Select value={selectedModel} onValueChange={setSelectedModel}>
                     <SelectTrigger className="bg-slate-800 border-slate-600 text-slate-200 w-36 h-10">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent className="bg-slate-800 border-slate-600">
-                      <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                      <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                      <SelectItem value="o4-mini">o4 Mini</SelectItem>
-                      <SelectItem value="o3">o3</SelectItem>
-                      <SelectItem value="o3-mini">o3 Mini</SelectItem>
+                      {chatModels.map(model => (
+                        <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                     </div>
@@ -1394,11 +1857,16 @@ export default function Dashboard() {
                                     __html: message.content
                                       .replace(/\*\*(.*?)\*\*/g, '<strong class="text-slate-100">$1</strong>')
                                       .replace(/`([^`]+)`/g, '<code class="bg-slate-700 px-1 py-0.5 rounded text-sm">$1</code>')
-                                      .replace(/###\s(.+)/g, '<h3 class="text-lg font-semibold text-slate-100 mt-4 mb-2">$1</h3>')
+                                      .replace(/###\s(.+)/g, (_, title) => renderCategoryHeader(message, title))
                                       .replace(/^- (.+)$/gm, '<div class="flex items-start space-x-2 my-2"><span class="text-slate-400 mt-1">•</span><span class="break-words">$1</span></div>')
                                   }}
                                 />
                         )}
+                              {message.type === 'assistant' && usage?.byMessage[message.id] && (
+                                <div className="mt-2 text-right">
+                                  <UsageLabel usage={usage.byMessage[message.id]} />
+                                </div>
+                              )}
                             </div>
                           );
                           })}
@@ -1425,9 +1893,25 @@ export default function Dashboard() {
 
                   {/* Chat Input Area */}
                   <div className="flex-shrink-0 border-t border-slate-700/50 pt-4">
+                    {traceScope ? (
+                      <div className="flex items-center space-x-2 mb-2 text-xs text-blue-300">
+                        <Eye size={12} />
+                        <button type="button" onClick={() => setOpenTraceId(traceScope.id)} className="truncate hover:underline">
+                          Asking about trace #{traceScope.position + 1}
+                        </button>
+                        <button type="button" onClick={() => setTraceScope(null)} title="Ask about all traces" className="text-slate-400 hover:text-slate-200">
+                          <X size={12} />
+                        </button>
+                      </div>
+                    ) : analysisScope && (
+                      <div className="flex items-center space-x-2 mb-2 text-xs text-blue-300">
+                        <Filter size={12} />
+                        <span className="truncate">Scoped to traces where {describeFilter(analysisScope)}</span>
+                      </div>
+                    )}
                     <div className="flex gap-3">
                       <Textarea
-                        placeholder="Ask about your traces..."
+                        placeholder={traceScope ? 'Ask about this trace, e.g. why did it loop on the search tool?' : 'Ask about your traces...'}
                         value={query}
                         onChange={(e) => setQuery(e.target.value)}
                         onKeyDown={(e) => {
@@ -1446,12 +1930,12 @@ export default function Dashboard() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={handleClearChatHistory}
-                          disabled={chatHistory.length === 0}
-                          className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:border-red-600 hover:text-red-400 transition-all duration-200"
+                          onClick={startNewConversation}
+                          disabled={chatHistory.length === 0 || isAnalyzing}
+                          className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:border-slate-500 transition-all duration-200"
                         >
-                          <X size={16} className="mr-1" />
-                          Clear
+                          <Plus size={16} className="mr-1" />
+                          New chat
                         </Button>
                       </div>
                     </div>
@@ -1468,7 +1952,7 @@ export default function Dashboard() {
           <TabsContent value="batch-jobs" className="mt-0">
             <div style={{ height: 'calc(100vh - 220px)' }}>
               <BatchJobManager
-                traces={traces}
+                scope={analysisScope}
                 analysisId={analysisId}
                 onClose={() => setActiveTab('traces')}
                 batchJobs={batchJobs}
@@ -1476,7 +1960,43 @@ export default function Dashboard() {
               />
             </div>
           </TabsContent>
+
+          <TabsContent value="findings" className="mt-0">
+            <div style={{ height: 'calc(100vh - 220px)' }}>
+              <FindingsFeed
+                analysisId={analysisId}
+                onShowTraces={(traceIds) => {
+                  setSelectedTraces(new Set(traceIds));
+                  setActiveTab('traces');
+                }}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="evals" className="mt-0">
+            <div style={{ height: 'calc(100vh - 220px)' }}>
+              <EvalPanel
+                analysisId={analysisId}
+                reasoningModels={reasoningModels}
+                reasoningModel={reasoningModel}
+                editorPrompt={reasoningPrompt}
+                latestAnswer={latestEvalCase}
+              />
+            </div>
+          </TabsContent>
         </Tabs>
+
+        <TraceDetailDrawer
+          analysisId={analysisId}
+          traceId={openTraceId}
+          onClose={() => setOpenTraceId(null)}
+          onAskAbout={(trace) => {
+            setTraceScope(trace);
+            setOpenTraceId(null);
+            setCompareMode(false);
+            setActiveTab('traces');
+          }}
+        />
       </div>
     </div>
   );
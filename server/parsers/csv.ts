@@ -0,0 +1,119 @@
+import type { CsvColumnMapping, ParsedTrace } from "@shared/schema";
+import { oneLine, toIsoTime } from "./utils";
+
+const DELIMITERS = [",", ";", "\t"];
+
+// Pick the delimiter that appears most often in the header line (outside quotes)
+function detectDelimiter(content: string): string {
+  const headerLine = content.slice(0, content.indexOf("\n") === -1 ? undefined : content.indexOf("\n"));
+  const unquoted = headerLine.replace(/"[^"]*"/g, "");
+  return DELIMITERS
+    .map(delimiter => ({ delimiter, count: unquoted.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * RFC 4180 CSV parser: quoted cells may contain delimiters, escaped quotes ("") and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+export function isCsvFile(filename?: string, mimetype?: string): boolean {
+  return !!filename?.toLowerCase().endsWith(".csv") || mimetype === "text/csv";
+}
+
+const TEXT_COLUMN = /^(input|inputs|question|query|prompt|message|user_message|text|content)$/i;
+const OUTPUT_COLUMN = /^(output|outputs|answer|response|completion|reply)$/i;
+const TIMESTAMP_COLUMN = /^(timestamp|time|date|created_at|createdat|start_time)$/i;
+
+// Default mapping for headers that have no saved mapping yet
+export function suggestCsvMapping(headers: string[]): CsvColumnMapping {
+  const textColumn = headers.find(header => TEXT_COLUMN.test(header.trim())) ?? headers[0];
+  const outputColumn = headers.find(header => header !== textColumn && OUTPUT_COLUMN.test(header.trim()));
+  return {
+    headers,
+    textColumn,
+    outputColumn,
+    metadataColumns: headers.filter(header => header !== textColumn && header !== outputColumn),
+  };
+}
+
+export function parseCsvTraces(rows: string[][], mapping: CsvColumnMapping): ParsedTrace[] {
+  const [headers, ...records] = rows;
+  const columnIndex = (name?: string) => (name ? headers.indexOf(name) : -1);
+  const textIndex = columnIndex(mapping.textColumn);
+  const outputIndex = columnIndex(mapping.outputColumn);
+
+  if (textIndex === -1) {
+    throw new Error(`Trace text column "${mapping.textColumn}" not found in CSV header`);
+  }
+
+  return records
+    .filter(record => (record[textIndex] ?? "").trim() !== "")
+    .map(record => {
+      const input = record[textIndex];
+      const output = outputIndex >= 0 && record[outputIndex] ? record[outputIndex] : undefined;
+
+      const metadata: Record<string, unknown> = {};
+      let startTime: string | undefined;
+      for (const column of mapping.metadataColumns) {
+        const index = columnIndex(column);
+        if (index === -1 || record[index] === undefined || record[index] === "") continue;
+        metadata[column] = record[index];
+        if (!startTime && TIMESTAMP_COLUMN.test(column.trim())) {
+          startTime = toIsoTime(record[index]);
+        }
+      }
+
+      return {
+        format: "csv" as const,
+        text: output ? `${oneLine(input)} → ${oneLine(output)}` : oneLine(input),
+        inputs: input,
+        outputs: output,
+        startTime,
+        steps: [],
+        metadata,
+      };
+    });
+}
@@ -0,0 +1,185 @@
+import type { CsvColumnMapping, ParsedTrace, Trace, TraceFormat, TraceSpan } from "@shared/schema";
+import { withTraceIds } from "@shared/traceIds";
+import { parseTextTraces, textTrace } from "./text";
+import { parseLangSmithRuns, isLangSmithRun } from "./langsmith";
+import { parseOtlpExport, isOtlpExport } from "./otlp";
+import { jsonRecordTrace } from "./json";
+import { parseCsv, parseCsvTraces, suggestCsvMapping } from "./csv";
+import { isRecord, oneLine } from "./utils";
+
+export { parseCsv, isCsvFile, suggestCsvMapping } from "./csv";
+
+export interface ParsedTraceFile {
+  format: TraceFormat;
+  traces: Trace[];
+  csvMapping?: CsvColumnMapping;
+  warnings?: string[]; // Parts of the file that were left out
+}
+
+// Plain trace lines, e.g. the client's cached copy of an analysis. Ids match the original upload's.
+export function textTraces(lines: string[]): Trace[] {
+  return withTraceIds(lines.map(textTrace));
+}
+
+export function parseCsvTraceFile(content: string, mapping?: CsvColumnMapping): ParsedTraceFile {
+  const rows = parseCsv(content);
+  if (rows.length === 0) return { format: "csv", traces: [] };
+
+  const csvMapping = mapping ?? suggestCsvMapping(rows[0]);
+  return { format: "csv", traces: withTraceIds(parseCsvTraces(rows, csvMapping)), csvMapping };
+}
+
+function parseRecords(records: unknown[], genericFormat: TraceFormat, rawLines?: string[]): { format: TraceFormat; traces: ParsedTrace[]; warnings?: string[] } {
+  const otlpExports = records.filter(isOtlpExport);
+  if (otlpExports.length > 0) {
+    // Once the file is OTLP, other records can't be merged into its spans
+    const skipped = records.length - otlpExports.length;
+    if (skipped > 0) console.log(`⚠️ OTLP: skipped ${skipped} of ${records.length} records that are not OTLP exports`);
+    return {
+      format: "otlp",
+      traces: parseOtlpExport(otlpExports),
+      warnings: skipped > 0 ? [`Skipped ${skipped} of ${records.length} records that are not OTLP exports`] : undefined,
+    };
+  }
+
+  if (records.some(isLangSmithRun)) {
+    return { format: "langsmith", traces: parseLangSmithRuns(records.filter(isRecord)) };
+  }
+
+  return {
+    format: genericFormat,
+    traces: records.map((record, index) => jsonRecordTrace(record, genericFormat, rawLines?.[index])),
+  };
+}
+
+function tryParseJsonLines(lines: string[]): unknown[] | null {
+  const records: unknown[] = [];
+  for (const line of lines) {
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      return null;
+    }
+  }
+  return records;
+}
+
+/**
+ * Detect the format of an uploaded trace file and parse it into Trace records.
+ * Supports a single JSON document (LangSmith run export, OTLP/JSON, array of records),
+ * JSON Lines of any of those, and falls back to one trace per line of plain text.
+ */
+export function parseTraceFile(content: string): ParsedTraceFile {
+  const { format, traces, warnings } = detectAndParse(content);
+  return { format, traces: withTraceIds(traces), warnings };
+}
+
+function detectAndParse(content: string): { format: TraceFormat; traces: ParsedTrace[]; warnings?: string[] } {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      const document = JSON.parse(trimmed);
+      const records = Array.isArray(document)
+        ? document
+        : isRecord(document) && Array.isArray(document.runs) ? document.runs : [document];
+      return parseRecords(records, "json");
+    } catch {
+      // Not a single JSON document - try JSON Lines below
+    }
+
+    const lines = trimmed.split("\n").filter(line => line.trim() !== "");
+    const records = tryParseJsonLines(lines);
+    if (records) {
+      return parseRecords(records, "jsonl", lines);
+    }
+  }
+
+  return { format: "text", traces: parseTextTraces(content) };
+}
+
+const MAX_PROMPT_STEPS = 20;
+
+function formatStats(latencyMs?: number, totalTokens?: number): string[] {
+  const stats: string[] = [];
+  if (latencyMs !== undefined) stats.push(`${(latencyMs / 1000).toFixed(1)}s`);
+  if (totalTokens) stats.push(`${totalTokens} tok`);
+  return stats;
+}
+
+function flattenSteps(spans: TraceSpan[], out: string[] = []): string[] {
+  for (const span of spans) {
+    const stats = formatStats(span.latencyMs, span.tokenUsage?.totalTokens);
+    if (span.error) stats.push(`error: ${oneLine(span.error).slice(0, 80)}`);
+    out.push(`${span.kind}:${span.name}${stats.length ? `(${stats.join(", ")})` : ""}`);
+    flattenSteps(span.children, out);
+  }
+  return out;
+}
+
+// Single-line rendering for prompts: the trace text plus latency, tokens and an outline of its steps
+export function formatTraceForPrompt(trace: Trace): string {
+  if (trace.format === "text") return trace.text;
+
+  const parts = [trace.text];
+  const stats = formatStats(trace.latencyMs, trace.tokenUsage?.totalTokens);
+  if (stats.length) parts.push(`(${stats.join(", ")})`);
+
+  const steps = flattenSteps(trace.steps);
+  if (steps.length > 0) {
+    const shown = steps.slice(0, MAX_PROMPT_STEPS).join(" > ");
+    parts.push(`| steps: ${shown}${steps.length > MAX_PROMPT_STEPS ? ` > ... (+${steps.length - MAX_PROMPT_STEPS} more)` : ""}`);
+  }
+
+  return parts.join(" ");
+}
+
+const MAX_DETAIL_SPANS = 200;
+const MAX_DETAIL_VALUE_CHARS = 600;
+
+function detailValue(value: unknown, maxChars: number = MAX_DETAIL_VALUE_CHARS): string {
+  if (value === undefined || value === null) return "";
+  const text = oneLine(typeof value === "string" ? value : JSON.stringify(value));
+  return text.length > maxChars ? `${text.slice(0, maxChars)}...` : text;
+}
+
+function outlineSpans(spans: TraceSpan[], depth: number, out: string[]): string[] {
+  for (const span of spans) {
+    if (out.length >= MAX_DETAIL_SPANS) return out;
+    const indent = "  ".repeat(depth);
+    const stats = formatStats(span.latencyMs, span.tokenUsage?.totalTokens);
+    const lines = [`${indent}- ${span.kind}:${span.name}${stats.length ? ` (${stats.join(", ")})` : ""}`];
+    const input = detailValue(span.inputs);
+    const output = detailValue(span.outputs);
+    if (input) lines.push(`${indent}  input: ${input}`);
+    if (output) lines.push(`${indent}  output: ${output}`);
+    if (span.error) lines.push(`${indent}  error: ${oneLine(span.error)}`);
+    out.push(lines.join("\n"));
+    outlineSpans(span.children, depth + 1, out);
+  }
+  return out;
+}
+
+function countSpans(spans: TraceSpan[]): number {
+  return spans.reduce((count, span) => count + 1 + countSpans(span.children), 0);
+}
+
+// Multi-line rendering of a single trace with its inputs, outputs and whole span tree, for questions about that one trace
+export function formatTraceDetailForPrompt(trace: Trace): string {
+  if (trace.format === "text") return trace.text;
+
+  const lines = [formatTraceForPrompt({ ...trace, steps: [] })];
+  const input = detailValue(trace.inputs, MAX_DETAIL_VALUE_CHARS * 4);
+  const output = detailValue(trace.outputs, MAX_DETAIL_VALUE_CHARS * 4);
+  if (input) lines.push(`input: ${input}`);
+  if (output) lines.push(`output: ${output}`);
+  if (trace.error) lines.push(`error: ${oneLine(trace.error)}`);
+
+  if (trace.steps.length > 0) {
+    const outline = outlineSpans(trace.steps, 0, []);
+    const total = countSpans(trace.steps);
+    lines.push("spans (nested by parent):", ...outline);
+    if (total > outline.length) lines.push(`... (+${total - outline.length} more spans)`);
+  }
+  return lines.join("\n");
+}
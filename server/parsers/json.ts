@@ -0,0 +1,43 @@
+import type { ParsedTrace, TraceFormat } from "@shared/schema";
+import { isRecord, oneLine, toIsoTime } from "./utils";
+
+const INPUT_KEYS = ["inputs", "input", "question", "query", "prompt", "messages"];
+const OUTPUT_KEYS = ["outputs", "output", "answer", "response", "completion"];
+const TIME_KEYS = ["timestamp", "start_time", "startTime", "created_at", "createdAt", "time"];
+
+function firstKey(record: Record<string, any>, keys: string[]): string | undefined {
+  return keys.find(key => record[key] !== undefined && record[key] !== null);
+}
+
+// Arbitrary JSON records (chat logs, custom exports): keep the raw record as text, lift well-known fields
+export function jsonRecordTrace(record: unknown, format: TraceFormat, rawText?: string): ParsedTrace {
+  const text = oneLine(rawText ?? (typeof record === "string" ? record : JSON.stringify(record)));
+  if (!isRecord(record)) {
+    return { format, text, inputs: record, steps: [], metadata: {} };
+  }
+
+  const inputKey = firstKey(record, INPUT_KEYS);
+  const outputKey = firstKey(record, OUTPUT_KEYS);
+  const timeKey = firstKey(record, TIME_KEYS);
+
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key === inputKey || key === outputKey) continue;
+    if (value === null || typeof value !== "object") metadata[key] = value;
+  }
+
+  const error = record.error ? (typeof record.error === "string" ? record.error : JSON.stringify(record.error)) : undefined;
+
+  return {
+    format,
+    text,
+    name: typeof record.name === "string" ? record.name : undefined,
+    inputs: inputKey ? record[inputKey] : record,
+    outputs: outputKey ? record[outputKey] : undefined,
+    error,
+    startTime: timeKey ? toIsoTime(record[timeKey]) : undefined,
+    latencyMs: typeof record.latency_ms === "number" ? record.latency_ms : undefined,
+    steps: [],
+    metadata,
+  };
+}
@@ -0,0 +1,101 @@
+import type { ParsedTrace, TraceSpan } from "@shared/schema";
+import { isRecord, latencyBetween, makeTokenUsage, sortSpansByStart, toIsoTime, traceFromRootSpan } from "./utils";
+
+// LangSmith run exports (`client.list_runs` / UI export) carry run_type plus inputs/outputs
+export function isLangSmithRun(value: unknown): value is Record<string, any> {
+  return isRecord(value) && typeof value.run_type === "string" && ("inputs" in value || "outputs" in value);
+}
+
+function runError(run: Record<string, any>): string | undefined {
+  if (!run.error) return undefined;
+  return typeof run.error === "string" ? run.error : JSON.stringify(run.error);
+}
+
+function runToSpan(run: Record<string, any>): TraceSpan {
+  const startTime = toIsoTime(run.start_time);
+  const endTime = toIsoTime(run.end_time);
+  const usage = run.outputs?.llm_output?.token_usage;
+
+  return {
+    id: String(run.id ?? ""),
+    name: run.name || run.run_type,
+    kind: run.run_type,
+    inputs: run.inputs ?? undefined,
+    outputs: run.outputs ?? undefined,
+    error: runError(run),
+    startTime,
+    endTime,
+    latencyMs: latencyBetween(startTime, endTime),
+    tokenUsage: makeTokenUsage(
+      run.prompt_tokens ?? usage?.prompt_tokens,
+      run.completion_tokens ?? usage?.completion_tokens,
+      run.total_tokens ?? usage?.total_tokens,
+    ),
+    children: [],
+  };
+}
+
+function runMetadata(run: Record<string, any>): Record<string, unknown> {
+  const metadata: Record<string, unknown> = { ...(run.extra?.metadata ?? {}) };
+  if (run.id) metadata.runId = run.id;
+  if (run.trace_id) metadata.traceId = run.trace_id;
+  if (run.session_id) metadata.sessionId = run.session_id;
+  if (Array.isArray(run.tags) && run.tags.length > 0) metadata.tags = run.tags;
+  if (run.feedback_stats) metadata.feedback = run.feedback_stats;
+  const model = run.extra?.invocation_params?.model_name ?? run.extra?.invocation_params?.model;
+  if (model) metadata.model = model;
+  return metadata;
+}
+
+/**
+ * Rebuild run trees from a flat or nested list of LangSmith runs.
+ * Children are linked through `child_runs` (nested exports) or `parent_run_id` (flat exports);
+ * every run without a known parent (missing from the export, or part of a parent cycle) becomes one Trace.
+ */
+export function parseLangSmithRuns(runs: Array<Record<string, any>>): ParsedTrace[] {
+  const spans = new Map<string, TraceSpan>();
+  const parents = new Map<string, string>();
+  const order: Array<{ run: Record<string, any>; span: TraceSpan }> = [];
+
+  const register = (run: Record<string, any>, parentId?: string) => {
+    const span = runToSpan(run);
+    const id = span.id || `run-${order.length}`;
+    span.id = id;
+    spans.set(id, span);
+    order.push({ run, span });
+
+    const parent = parentId ?? run.parent_run_id;
+    if (parent) parents.set(id, String(parent));
+
+    if (Array.isArray(run.child_runs)) {
+      run.child_runs.filter(isRecord).forEach((child: Record<string, any>) => register(child, id));
+    }
+  };
+  runs.forEach(run => register(run));
+
+  // A run whose parent chain leads back to itself loses its parent link and becomes a root
+  const reachesItself = (id: string) => {
+    const seen = new Set<string>();
+    for (let current = parents.get(id); current !== undefined && !seen.has(current); current = parents.get(current)) {
+      if (current === id) return true;
+      seen.add(current);
+    }
+    return false;
+  };
+
+  const roots: Array<{ run: Record<string, any>; span: TraceSpan }> = [];
+  for (const entry of order) {
+    if (reachesItself(entry.span.id)) parents.delete(entry.span.id);
+    const parentSpan = parents.has(entry.span.id) ? spans.get(parents.get(entry.span.id)!) : undefined;
+    if (parentSpan) {
+      parentSpan.children.push(entry.span);
+    } else {
+      roots.push(entry);
+    }
+  }
+
+  return roots.map(({ run, span }) => {
+    sortSpansByStart(span.children);
+    return traceFromRootSpan(span, "langsmith", runMetadata(run));
+  });
+}
@@ -0,0 +1,142 @@
+import type { ParsedTrace, TraceSpan } from "@shared/schema";
+import { isRecord, latencyBetween, makeTokenUsage, sortSpansByStart, traceFromRootSpan } from "./utils";
+
+// OTLP/JSON exports (collector file exporter, `otel-cli`, Jaeger/Tempo dumps) wrap spans in resourceSpans
+export function isOtlpExport(value: unknown): value is Record<string, any> {
+  return isRecord(value) && Array.isArray(value.resourceSpans);
+}
+
+const STATUS_CODE_ERROR = 2;
+
+function attributeValue(value: any): unknown {
+  if (!isRecord(value)) return value;
+  if ("stringValue" in value) return value.stringValue;
+  if ("intValue" in value) return Number(value.intValue);
+  if ("doubleValue" in value) return value.doubleValue;
+  if ("boolValue" in value) return value.boolValue;
+  if ("arrayValue" in value) return (value.arrayValue?.values ?? []).map(attributeValue);
+  if ("kvlistValue" in value) return attributesToObject(value.kvlistValue?.values);
+  return undefined;
+}
+
+function attributesToObject(attributes: any): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!Array.isArray(attributes)) return result;
+  for (const attribute of attributes) {
+    if (attribute?.key) result[attribute.key] = attributeValue(attribute.value);
+  }
+  return result;
+}
+
+function nanosToIso(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "" || value === "0") return undefined;
+  // Nanosecond timestamps exceed Number precision; drop the sub-millisecond digits as text
+  const nanos = String(value).split(".")[0];
+  const millis = Number(nanos.slice(0, -6) || "0");
+  return isNaN(millis) ? undefined : new Date(millis).toISOString();
+}
+
+function tryParseJson(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+}
+
+// Span kinds and payloads follow the OpenInference, GenAI semantic conventions and LangSmith's OTEL exporter
+function spanToNode(span: Record<string, any>): TraceSpan {
+  const attributes = attributesToObject(span.attributes);
+  const startTime = nanosToIso(span.startTimeUnixNano);
+  const endTime = nanosToIso(span.endTimeUnixNano);
+
+  const exception = (span.events ?? []).find((event: any) => event?.name === "exception");
+  const exceptionMessage = exception ? attributesToObject(exception.attributes)["exception.message"] : undefined;
+  const error = span.status?.code === STATUS_CODE_ERROR || span.status?.code === "STATUS_CODE_ERROR"
+    ? String(span.status?.message || exceptionMessage || "error")
+    : undefined;
+
+  const kind = attributes["openinference.span.kind"] ?? attributes["langsmith.span.kind"] ?? attributes["gen_ai.operation.name"];
+
+  return {
+    id: String(span.spanId ?? ""),
+    name: span.name ?? "span",
+    kind: kind ? String(kind).toLowerCase() : "span",
+    inputs: tryParseJson(attributes["input.value"] ?? attributes["gen_ai.prompt"]),
+    outputs: tryParseJson(attributes["output.value"] ?? attributes["gen_ai.completion"]),
+    error,
+    startTime,
+    endTime,
+    latencyMs: latencyBetween(startTime, endTime),
+    tokenUsage: makeTokenUsage(
+      attributes["gen_ai.usage.input_tokens"] ?? attributes["gen_ai.usage.prompt_tokens"] ?? attributes["llm.token_count.prompt"],
+      attributes["gen_ai.usage.output_tokens"] ?? attributes["gen_ai.usage.completion_tokens"] ?? attributes["llm.token_count.completion"],
+      attributes["llm.token_count.total"],
+    ),
+    children: [],
+  };
+}
+
+/**
+ * Group OTLP spans by traceId and rebuild each span tree.
+ * A trace with several parentless spans gets a synthetic root so it still maps to one Trace.
+ */
+export function parseOtlpExport(exports: Array<Record<string, any>>): ParsedTrace[] {
+  const byTrace = new Map<string, Array<{ raw: Record<string, any>; node: TraceSpan; resource: Record<string, unknown> }>>();
+
+  for (const exported of exports) {
+    for (const resourceSpan of exported.resourceSpans ?? []) {
+      const resource = attributesToObject(resourceSpan.resource?.attributes);
+      const scopes = resourceSpan.scopeSpans ?? resourceSpan.instrumentationLibrarySpans ?? [];
+      for (const scope of scopes) {
+        for (const raw of scope.spans ?? []) {
+          const traceId = String(raw.traceId ?? "");
+          if (!byTrace.has(traceId)) byTrace.set(traceId, []);
+          byTrace.get(traceId)!.push({ raw, node: spanToNode(raw), resource });
+        }
+      }
+    }
+  }
+
+  const traces: ParsedTrace[] = [];
+  byTrace.forEach((entries, traceId) => {
+    const nodes = new Map(entries.map(entry => [entry.node.id, entry.node]));
+    const roots: TraceSpan[] = [];
+
+    for (const { raw, node } of entries) {
+      const parent = raw.parentSpanId ? nodes.get(String(raw.parentSpanId)) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    sortSpansByStart(roots);
+    const root: TraceSpan = roots.length === 1 ? roots[0] : {
+      id: traceId,
+      name: roots[0]?.name ?? "trace",
+      kind: "trace",
+      startTime: roots[0]?.startTime,
+      endTime: roots[roots.length - 1]?.endTime,
+      latencyMs: latencyBetween(roots[0]?.startTime, roots[roots.length - 1]?.endTime),
+      children: roots,
+    };
+
+    const resource = entries[0]?.resource ?? {};
+    const metadata: Record<string, unknown> = { traceId };
+    if (resource["service.name"]) metadata.service = resource["service.name"];
+    const model = entries
+      .map(({ raw }) => attributesToObject(raw.attributes))
+      .map(attributes => attributes["gen_ai.request.model"] ?? attributes["llm.model_name"])
+      .find(Boolean);
+    if (model) metadata.model = model;
+
+    traces.push(traceFromRootSpan(root, "otlp", metadata));
+  });
+
+  return traces.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+}
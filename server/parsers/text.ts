@@ -0,0 +1,19 @@
+import type { ParsedTrace } from "@shared/schema";
+
+export function textTrace(line: string): ParsedTrace {
+  return {
+    format: "text",
+    text: line,
+    inputs: line,
+    steps: [],
+    metadata: {},
+  };
+}
+
+// Legacy format: every non-empty line is one trace
+export function parseTextTraces(content: string): ParsedTrace[] {
+  return content
+    .split("\n")
+    .filter(line => line.trim() !== "")
+    .map(textTrace);
+}
@@ -0,0 +1,128 @@
+import type { ParsedTrace, TraceSpan, TokenUsage } from "@shared/schema";
+
+export function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Collapse whitespace so every trace renders on a single line in prompts and the trace list
+export function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function messageContent(message: any): string | undefined {
+  if (!isRecord(message)) return undefined;
+  const content = message.content ?? message.kwargs?.content ?? message.text;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((part: any) => (typeof part === "string" ? part : part?.text ?? "")).join(" ");
+  }
+  return undefined;
+}
+
+// Pick the most human-readable part of a run's inputs/outputs
+export function summarizeValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value !== "object") return String(value);
+
+  if (isRecord(value)) {
+    // Chat-style payloads: use the last message
+    const messages = value.messages ?? value.generations;
+    if (Array.isArray(messages)) {
+      const flat = messages.flat(2);
+      const last = flat[flat.length - 1];
+      const content = messageContent(last) ?? messageContent(last?.message);
+      if (content) return content;
+    }
+
+    for (const key of ["input", "question", "query", "prompt", "output", "answer", "text", "content", "result"]) {
+      if (typeof value[key] === "string") return value[key];
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 1) return summarizeValue(value[keys[0]]);
+  }
+
+  return JSON.stringify(value);
+}
+
+export function toIsoTime(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = typeof value === "number" ? new Date(value) : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function latencyBetween(startTime?: string, endTime?: string): number | undefined {
+  if (!startTime || !endTime) return undefined;
+  const latency = new Date(endTime).getTime() - new Date(startTime).getTime();
+  return latency >= 0 ? latency : undefined;
+}
+
+export function makeTokenUsage(prompt?: unknown, completion?: unknown, total?: unknown): TokenUsage | undefined {
+  const promptTokens = Number(prompt) || 0;
+  const completionTokens = Number(completion) || 0;
+  const totalTokens = Number(total) || promptTokens + completionTokens;
+  if (!totalTokens) return undefined;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+export function sumTokenUsage(spans: TraceSpan[]): TokenUsage | undefined {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let totalTokens = 0;
+
+  const visit = (span: TraceSpan) => {
+    // A span's own totals already roll up its subtree, so only descend into spans that report none
+    if (span.tokenUsage) {
+      promptTokens += span.tokenUsage.promptTokens;
+      completionTokens += span.tokenUsage.completionTokens;
+      totalTokens += span.tokenUsage.totalTokens;
+      return;
+    }
+    span.children.forEach(visit);
+  };
+  spans.forEach(visit);
+
+  return totalTokens ? { promptTokens, completionTokens, totalTokens } : undefined;
+}
+
+export function findSpanError(spans: TraceSpan[]): string | undefined {
+  for (const span of spans) {
+    if (span.error) return span.error;
+    const childError = findSpanError(span.children);
+    if (childError) return childError;
+  }
+  return undefined;
+}
+
+// Build the Trace for a root span: the root's fields become the trace fields, its children the steps
+export function traceFromRootSpan(root: TraceSpan, format: ParsedTrace["format"], metadata: Record<string, unknown>): ParsedTrace {
+  const input = oneLine(summarizeValue(root.inputs));
+  const output = oneLine(summarizeValue(root.outputs));
+  const error = root.error ?? findSpanError(root.children);
+
+  let text = input || root.name;
+  if (output) text += ` → ${output}`;
+  if (error) text += ` [error: ${oneLine(error)}]`;
+
+  return {
+    format,
+    text,
+    name: root.name,
+    inputs: root.inputs,
+    outputs: root.outputs,
+    error,
+    startTime: root.startTime,
+    endTime: root.endTime,
+    latencyMs: root.latencyMs,
+    tokenUsage: root.tokenUsage ?? sumTokenUsage(root.children),
+    steps: root.children,
+    metadata,
+  };
+}
+
+export function sortSpansByStart(spans: TraceSpan[]): TraceSpan[] {
+  spans.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+  spans.forEach(span => sortSpansByStart(span.children));
+  return spans;
+}
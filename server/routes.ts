@@ -1,30 +1,113 @@
 import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { analyzeDatasetGapsStreaming, selectRelevantTraces, runBatchJobAnalysis } from "./services/openai";
+import { analyzeDatasetGapsStreaming, selectRelevantTraces, runBatchJobAnalysis, classifyTraces } from "./services/openai";
+import { listModels } from "./services/providers";
+import { indexAnalysisTraces, scopeTraces } from "./services/retrieval";
+import { applyClusterEdits, extractResponseCategories, looksLikeClusterEdit, mergeClusters, planClusterEdits, recordClassification, recordClustersFromTags } from "./services/clusters";
+import { enqueueBatchJob, isBatchJobActive, subscribeToBatchJob } from "./services/batchQueue";
+import { startCopilot, subscribeToCopilot } from "./services/copilot";
+import { prepareConversationContext } from "./services/context";
+import { resolvePrompt, resolvePromptChoice, seedDefaultPrompts, type ResolvedPrompt } from "./services/prompts";
+import { validateTemplate } from "@shared/template";
+import { applyTraceFilter, filterErrors, metadataFilterFields, type TraceFilter } from "@shared/filters";
+import { parseSearch } from "@shared/search";
+import { resolveComparisonSetup, runComparison, summarizeVotes, type ComparisonSetup } from "./services/compare";
+import { startEvalRun } from "./services/evals";
+import { liveUsageTotals, settleUsage, summarizeUsage, withUsageScope } from "./services/usage";
+import { budgetBatchRun, estimateBatchJob, getBudgetStatus, runAllowance, totalEstimate } from "./services/budget";
+import { decodeCursor, pageAfter, queryAnalysisTraces, toListItem, type TraceQuery } from "./services/traceQuery";
+import { findTraceReferences } from "./services/traceReferences";
+import { parseTraceFile, parseCsvTraceFile, parseCsv, isCsvFile, suggestCsvMapping, textTraces } from "./parsers";
+import { PROMPT_KINDS, type BatchRunEstimate, type CsvColumnMapping, type EvalCase, type Prompt, type PromptKind, type RetrievalStrategy, type Trace, type TraceDetail, type TracePage, type TraceSearchPage, type TraceSort } from "@shared/schema";
 import multer from "multer";
 import { z } from "zod";
-import fs from "fs";
-import path from "path";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+const SSE_KEEP_ALIVE_MS = 25_000;
+
 const uploadDataSchema = z.object({
   langsmithTraces: z.array(z.string()),
 });
 
+const csvMappingSchema: z.ZodType<CsvColumnMapping> = z.object({
+  headers: z.array(z.string()),
+  textColumn: z.string().min(1),
+  outputColumn: z.string().optional(),
+  metadataColumns: z.array(z.string()),
+});
+
+function isPromptKind(value: unknown): value is PromptKind {
+  return PROMPT_KINDS.includes(value as PromptKind);
+}
+
+// Eval cases from a request body, or null if any case is malformed
+function parseEvalCases(value: unknown): EvalCase[] | null {
+  if (!Array.isArray(value)) return null;
+  const cases: EvalCase[] = [];
+  for (const item of value) {
+    if (typeof item?.question !== 'string' || typeof item.response !== 'string' || !Array.isArray(item.expected)) return null;
+    const expected: EvalCase['expected'] = [];
+    for (const entry of item.expected as unknown[]) {
+      if (typeof entry !== 'object' || entry === null || !('traceId' in entry) || typeof entry.traceId !== 'string') continue;
+      const tags = 'tags' in entry && Array.isArray(entry.tags) ? entry.tags : [];
+      expected.push({ traceId: entry.traceId, tags: tags.filter((tag): tag is string => typeof tag === 'string') });
+    }
+    cases.push({ question: item.question, response: item.response, expected });
+  }
+  return cases;
+}
+
+// Warnings are shown while editing; only errors block a prompt from being saved or used
+function templateErrors(kind: PromptKind, body: string): string[] {
+  return validateTemplate(kind, body).filter(issue => issue.severity === 'error').map(issue => issue.message);
+}
+
+// The search, filter and cluster narrowing shared by the trace list and search endpoints
+function parseTraceQuery(params: Request["query"], sort: TraceSort, order: "asc" | "desc"): { query: TraceQuery } | { error: string } {
+  const search = parseSearch(typeof params.q === 'string' ? params.q : '');
+  if (search.errors.length > 0) {
+    return { error: search.errors.join('; ') };
+  }
+
+  let filter: TraceFilter | undefined;
+  if (typeof params.filter === 'string' && params.filter) {
+    try {
+      filter = JSON.parse(params.filter);
+    } catch {
+      return { error: 'filter must be JSON' };
+    }
+    const scopeErrors = filterErrors(filter);
+    if (scopeErrors.length > 0) {
+      return { error: `Invalid trace filter: ${scopeErrors.join('; ')}` };
+    }
+  }
+
+  const clusterId = params.clusterId ? parseInt(String(params.clusterId)) : null;
+  const pinned = typeof params.pinned === 'string' && params.pinned ? params.pinned.split(',') : [];
+  return { query: { search, filter, clusterId, pinned, sort, order } };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  try {
+    await seedDefaultPrompts();
+  } catch (error) {
+    console.error('❌ Could not seed default prompts:', error);
+  }
+
   // Upload and store files
   app.post("/api/upload", upload.fields([
     { name: 'langsmithFile', maxCount: 1 },
   ]), async (req, res) => {
     try {
       const files = req.files as { [fieldname: string]: Express.Multer.File[] } || {};
+      const langsmithFile = files?.langsmithFile?.[0];
       let langsmithContent = '';
 
       // Store LangSmith traces file content
-      if (files?.langsmithFile && files.langsmithFile[0]) {
-        langsmithContent = files.langsmithFile[0].buffer.toString();
+      if (langsmithFile) {
+        langsmithContent = langsmithFile.buffer.toString();
       }
 
       // Check if files were uploaded
@@ -34,18 +117,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Generate basic file summary
-      const langsmithCount = langsmithContent ? langsmithContent.split('\n').filter(q => q.trim() !== '').length : 0;
-      
+      // Detect the export format and reconstruct structured traces.
+      // CSV uploads use the mapping chosen in the dashboard, else the one saved for the same header.
+      let parsed;
+      if (isCsvFile(langsmithFile?.originalname, langsmithFile?.mimetype)) {
+        let csvMapping: CsvColumnMapping | undefined;
+        if (req.body.csvMapping) {
+          let mapping: unknown;
+          try {
+            mapping = JSON.parse(req.body.csvMapping);
+          } catch {
+            return res.status(400).json({ error: "Invalid CSV column mapping" });
+          }
+          const result = csvMappingSchema.safeParse(mapping);
+          if (!result.success) {
+            const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'mapping'}: ${issue.message}`);
+            return res.status(400).json({ error: `Invalid CSV column mapping: ${issues.join('; ')}` });
+          }
+          csvMapping = result.data;
+        } else {
+          const [headers] = parseCsv(langsmithContent);
+          csvMapping = headers ? await storage.findCsvMapping(headers) : undefined;
+        }
+
+        try {
+          parsed = parseCsvTraceFile(langsmithContent, csvMapping);
+        } catch (error) {
+          return res.status(400).json({ error: error instanceof Error ? error.message : "Invalid CSV file" });
+        }
+      } else {
+        parsed = parseTraceFile(langsmithContent);
+      }
+      const { format, traces, csvMapping, warnings } = parsed;
+
       console.log('📤 Upload debug:', {
         contentLength: langsmithContent.length,
-        langsmithCount,
-        firstLine: langsmithContent.split('\n')[0]?.substring(0, 100) || 'empty'
+        format,
+        traceCount: traces.length,
+        firstTrace: traces[0]?.text.substring(0, 100) || 'empty'
       });
 
-      // Store the raw files
+      if (traces.length === 0) {
+        return res.status(400).json({ error: "No traces found in the uploaded file." });
+      }
+
       const analysisResult = await storage.createAnalysis({
-        langsmithContent,
+        traces,
+        traceFormat: format,
+        csvMapping: csvMapping ?? null,
+        embeddings: null,
         datasetFiles: [],
         analysisData: {
           transactionDistribution: {},
@@ -57,12 +177,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('💾 Stored analysis:', {
         id: analysisResult.id,
-        storedContentLength: analysisResult.langsmithContent?.length || 0
+        storedTraceCount: analysisResult.traces.length
       });
 
+      // The vector index for semantic retrieval and the reasoning copilot both run in the background
+      indexAnalysisTraces(analysisResult.id, traces);
+      startCopilot(analysisResult.id);
+
       res.json({
         id: analysisResult.id,
-        langsmithCount,
+        langsmithCount: traces.length,
+        format,
+        warnings: warnings ?? [],
         analysis: analysisResult.analysisData
       });
     } catch (error) {
@@ -71,6 +197,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Inspect a trace file before upload - CSV files need a column mapping
+  app.post("/api/upload/preview", upload.single('langsmithFile'), async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ error: "No trace file uploaded" });
+      }
+
+      if (!isCsvFile(file.originalname, file.mimetype)) {
+        return res.json({ format: parseTraceFile(file.buffer.toString()).format });
+      }
+
+      const [headers, ...rows] = parseCsv(file.buffer.toString());
+      if (!headers) {
+        return res.status(400).json({ error: "CSV file is empty" });
+      }
+
+      const savedMapping = await storage.findCsvMapping(headers);
+
+      res.json({
+        format: 'csv',
+        headers,
+        sampleRows: rows.slice(0, 5),
+        rowCount: rows.length,
+        mapping: savedMapping ?? suggestCsvMapping(headers),
+        isSavedMapping: !!savedMapping
+      });
+    } catch (error) {
+      console.error('Upload preview error:', error);
+      res.status(500).json({ error: "Failed to read trace file" });
+    }
+  });
+
   // Dataset management routes
   app.post("/api/datasets", upload.single('datasetFile'), async (req, res) => {
     try {
@@ -128,6 +287,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Models from every configured LLM provider, for the model dropdowns
+  app.get("/api/models", (req, res) => {
+    res.json(listModels());
+  });
+
   app.get("/api/datasets", async (req, res) => {
     try {
       const datasets = await storage.getAllDatasets();
@@ -183,299 +347,1315 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('📥 Get analysis debug:', {
         id,
         hasAnalysis: !!analysis,
-        contentLength: analysis?.langsmithContent?.length || 0,
-        traceCount: analysis?.langsmithContent ? analysis.langsmithContent.split('\n').filter(line => line.trim() !== '').length : 0
+        format: analysis.traceFormat,
+        traceCount: analysis.traces.length
       });
 
-      res.json(analysis);
+      // Traces and the vector index stay on the server; the list pages through /traces
+      const { traces, embeddings, copilotReviewed, ...summary } = analysis;
+      res.json({ ...summary, traceCount: traces.length, metadataFields: metadataFilterFields(traces), hasEmbeddings: !!embeddings });
     } catch (error) {
       console.error('Get analysis error:', error);
       res.status(500).json({ error: "Failed to retrieve analysis" });
     }
   });
 
-  // Analyze traces endpoint - streaming response
-  app.post("/api/analyze", async (req, res) => {
+  // One page of an analysis's traces, sorted and narrowed on the server. Pass nextCursor back as cursor for the next page.
+  // q takes the search syntax in shared/search.ts, filter a JSON TraceFilter, pinned comma-separated trace ids to list first.
+  app.get("/api/analysis/:id/traces", async (req, res) => {
     try {
-      const { analysisId, query, model, reasoningModel, customPrompt, customReasoningPrompt, maxTracesForReasoning, fallbackTraces } = req.body;
+      const analysisId = parseInt(req.params.id);
+      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '100')) || 100));
+      const sort: TraceSort = ['position', 'startTime', 'latency'].includes(String(req.query.sort)) ? req.query.sort as TraceSort : 'position';
+      const order = req.query.order === 'desc' ? 'desc' : 'asc';
 
-      if (!analysisId || !query) {
-        return res.status(400).json({ error: 'Analysis ID and query are required' });
+      const parsed = parseTraceQuery(req.query, sort, order);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? decodeCursor(req.query.cursor) : null;
+      if (req.query.cursor && !cursor) {
+        return res.status(400).json({ error: 'Invalid cursor' });
       }
 
-      const analysis = await storage.getAnalysis(analysisId);
-      if (!analysis) {
+      const queried = await queryAnalysisTraces(analysisId, parsed.query);
+      if (!queried) {
         return res.status(404).json({ error: "Analysis not found" });
       }
+      const { traces, highlights } = queried;
+      const { page, nextCursor } = pageAfter(traces, cursor, limit);
 
-      console.log(`📊 ANALYSIS DEBUG:`, {
-        id: analysisId,
-        hasContent: !!analysis.langsmithContent,
-        contentLength: analysis.langsmithContent?.length || 0,
-        firstChars: analysis.langsmithContent?.substring(0, 100) || 'EMPTY',
-        traceCount: analysis.langsmithContent ? analysis.langsmithContent.split('\n').filter(line => line.trim() !== '').length : 0
-      });
+      const result: TracePage = {
+        traces: page.map(row => toListItem(row, highlights(row.trace.text))),
+        total: traces.length,
+        nextCursor,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error('List traces error:', error);
+      res.status(500).json({ error: 'Failed to list traces' });
+    }
+  });
 
-      // Use fallback traces if analysis content is missing
-      let tracesContent = analysis.langsmithContent || '';
-      if (!tracesContent && fallbackTraces && Array.isArray(fallbackTraces)) {
-        console.log(`🔄 Using fallback traces: ${fallbackTraces.length} traces from cache`);
-        tracesContent = fallbackTraces.join('\n');
-      } else if (fallbackTraces && Array.isArray(fallbackTraces) && fallbackTraces.length > 0) {
-        // Always use fallback traces if they exist, even if analysis content exists
-        console.log(`🔄 Using fallback traces (override): ${fallbackTraces.length} traces from cache`);
-        tracesContent = fallbackTraces.join('\n');
+  // One trace in full, with everything that references it, for the trace detail drawer
+  app.get("/api/analysis/:id/traces/:traceId", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const traces = await storage.getAnalysisTraces(analysisId);
+      if (!traces) {
+        return res.status(404).json({ error: "Analysis not found" });
       }
-      
-      if (!tracesContent) {
-        console.log(`⚠️ NO TRACES AVAILABLE - neither from analysis nor fallback`);
+
+      const position = traces.findIndex(trace => trace.id === req.params.traceId);
+      if (position === -1) {
+        return res.status(404).json({ error: "Trace not found" });
       }
 
-      const datasets = await storage.getAllDatasets();
+      const trace = traces[position];
+      const result: TraceDetail = {
+        trace,
+        position,
+        references: await findTraceReferences(analysisId, trace),
+      };
+      res.json(result);
+    } catch (error) {
+      console.error('Get trace error:', error);
+      res.status(500).json({ error: 'Failed to get trace' });
+    }
+  });
+
+  // Search the stored traces with the search syntax in shared/search.ts, one page at a time in upload order.
+  // Optional filter (JSON TraceFilter) and clusterId narrow the traces the same way the trace list does.
+  app.get("/api/analysis/:id/search", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const offset = Math.max(0, parseInt(String(req.query.offset ?? '0')) || 0);
+      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit ?? '50')) || 50));
+
+      const parsed = parseTraceQuery(req.query, 'position', 'asc');
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const queried = await queryAnalysisTraces(analysisId, parsed.query);
+      if (!queried) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      const { traces, highlights } = queried;
+
+      const page: TraceSearchPage = {
+        total: traces.length,
+        offset,
+        matches: traces.slice(offset, offset + limit).map(({ trace, position }) => ({
+          traceId: trace.id,
+          position,
+          highlights: highlights(trace.text),
+        })),
+      };
+      res.json(page);
+    } catch (error) {
+      console.error('Search traces error:', error);
+      res.status(500).json({ error: 'Failed to search traces' });
+    }
+  });
+
+  // Analyze traces endpoint - streaming response
+  // LLM usage of the whole turn is attributed to the assistant message, under the id it is stored with
+  app.post("/api/analyze", async (req, res) => {
+    const assistantClientId: string = req.body.messageId || `assistant-${Date.now()}`;
+    return withUsageScope({ analysisId: req.body.analysisId, messageId: assistantClientId }, async () => {
+      // Set once the question is stored and cleared once its answer is, so a failed or stopped turn still gets an answer row
+      let unansweredConversationId: number | null = null;
+      let streamedResponse = '';
+      try {
+        const { analysisId, query, model, reasoningModel, customPrompt, customReasoningPrompt, maxTracesForReasoning, fallbackTraces, retrievalStrategy, userMessageId, filter, traceId } = req.body;
+
+        if (!analysisId || !query) {
+          return res.status(400).json({ error: 'Analysis ID and query are required' });
+        }
+
+        const scopeErrors = filter ? filterErrors(filter) : [];
+        if (scopeErrors.length > 0) {
+          return res.status(400).json({ error: `Invalid trace filter: ${scopeErrors.join('; ')}` });
+        }
+
+        const promptErrors = [
+          ...(customPrompt ? templateErrors('analysis', customPrompt) : []),
+          ...(customReasoningPrompt ? templateErrors('reasoning', customReasoningPrompt) : []),
+        ];
+        if (promptErrors.length > 0) {
+          return res.status(400).json({ error: `Invalid custom prompt: ${promptErrors.join('; ')}` });
+        }
+
+        const analysis = await storage.getAnalysis(analysisId);
+        if (!analysis) {
+          return res.status(404).json({ error: "Analysis not found" });
+        }
+
+        console.log(`📊 ANALYSIS DEBUG:`, {
+          id: analysisId,
+          format: analysis.traceFormat,
+          traceCount: analysis.traces.length,
+          firstTrace: analysis.traces[0]?.text.substring(0, 100) || 'EMPTY'
+        });
+
+        // Fall back to the client's cached trace lines only when the analysis has no traces
+        let traces: Trace[] = analysis.traces;
+        if (traces.length === 0 && fallbackTraces && Array.isArray(fallbackTraces)) {
+          console.log(`🔄 Using fallback traces: ${fallbackTraces.length} traces from cache`);
+          traces = textTraces(fallbackTraces);
+        }
       
-      console.log(`🤖 MODELS: Analysis="${model || "gpt-4o"}" | Reasoning="${reasoningModel || "o4-mini"}"`);
-      console.log(`⚡ OPTIMIZATION: MaxTraces=${maxTracesForReasoning || 250} (used by both models)`);
+        if (traces.length === 0) {
+          console.log(`⚠️ NO TRACES AVAILABLE - neither from analysis nor fallback`);
+        }
+
+        // The question can be scoped to the traces matching a structured filter, or to a single trace; cluster edits still see every trace.
+        // The index only lines up with the analysis's own traces, not the client's fallback copy.
+        // A single-trace answer explains that trace, so its headings don't become clusters
+        const traceScoped = !!traceId;
+        let scope = scopeTraces(traces, traces === analysis.traces ? analysis.embeddings : null, filter);
+        if (traceScoped) {
+          const trace = traces.find(trace => trace.id === traceId);
+          if (!trace) {
+            return res.status(404).json({ error: 'Trace not found' });
+          }
+          console.log(`🎯 TRACE SCOPE: ${traceId} (${trace.steps.length} top-level spans)`);
+          scope = { traces: [trace], embeddings: null };
+        } else if (traces.length > 0 && scope.traces.length === 0) {
+          return res.status(400).json({ error: 'No traces match the filter' });
+        }
+
+        const datasets = await storage.getAllDatasets();
       
-      const lines = (tracesContent || '').split('\n').filter(line => line.trim() !== '');
+        console.log(`🤖 MODELS: Analysis="${model || "gpt-4o"}" | Reasoning="${reasoningModel || "o4-mini"}"`);
+        console.log(`⚡ OPTIMIZATION: MaxTraces=${maxTracesForReasoning || 250} (used by both models)`);
 
-      // Set up streaming response
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control'
-      });
+        const strategy: RetrievalStrategy = ['hybrid', 'semantic', 'random'].includes(retrievalStrategy) ? retrievalStrategy : 'hybrid';
+
+        // History comes from the stored conversation; a request without one starts a new conversation
+        let conversation = req.body.conversationId ? await storage.getConversation(req.body.conversationId) : undefined;
+        if (req.body.conversationId && (!conversation || conversation.analysisId !== Number(analysisId))) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+        if (!conversation) {
+          conversation = await storage.createConversation({ analysisId, title: query.slice(0, 80) });
+        }
+        const conversationId = conversation.id;
+        const history = await storage.getMessages(conversationId);
+        await storage.addMessage({ conversationId, clientId: userMessageId || `user-${Date.now()}`, type: 'user', content: query });
+        unansweredConversationId = conversationId;
+
+        // Set up streaming response
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Cache-Control'
+        });
       
-      // Handle client disconnect and create abort controller
-      let clientDisconnected = false;
-      const abortController = new AbortController();
+        // Handle client disconnect and create abort controller
+        let clientDisconnected = false;
+        const abortController = new AbortController();
       
-      req.on('close', () => {
-        clientDisconnected = true;
-        abortController.abort();
-      });
+        req.on('close', () => {
+          clientDisconnected = true;
+          abortController.abort();
+        });
       
-      req.on('aborted', () => {
-        clientDisconnected = true;
-        abortController.abort();
-      });
+        req.on('aborted', () => {
+          clientDisconnected = true;
+          abortController.abort();
+        });
 
-      // Send initial heartbeat to test connection
-      res.write(`data: ${JSON.stringify({ type: 'heartbeat', message: 'Connection established' })}\n\n`);
-      if (res.flush) res.flush();
-      
-      // Get complete response first, then start both streaming and trace selection
-      let traceSelectionPromise: Promise<Array<{ trace: string; tags: string[] }>> | null = null;
+        // Send initial heartbeat to test connection
+        res.write(`data: ${JSON.stringify({ type: 'heartbeat', message: 'Connection established' })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'conversation', conversationId })}\n\n`);
+        if (res.flush) res.flush();
       
-      const streamingResult = await analyzeDatasetGapsStreaming(
-        tracesContent,
-        datasets, // Pass all uploaded datasets
-        query,
-        model || "gpt-4o",
-        reasoningModel || "o4-mini",
-        (chunk) => {
-          // Check if client disconnected before trying to write
-          if (clientDisconnected || req.aborted || res.destroyed || res.closed) {
-            return;
-          }
-          
+        // Cluster edit requests ("merge X into Y", "split Z") are applied directly instead of answered
+        const provenance = { definingPrompt: query, sourceMessageId: assistantClientId };
+        const existingClusters = await storage.getClustersByAnalysis(analysisId);
+        if (looksLikeClusterEdit(query, existingClusters)) {
+          let edits: Awaited<ReturnType<typeof planClusterEdits>> = [];
           try {
-            res.write(`data: ${JSON.stringify({ type: 'content', content: chunk })}\n\n`);
-            if (res.flush) res.flush();
-          } catch (e) {
-            clientDisconnected = true;
+            edits = await planClusterEdits(query, existingClusters, reasoningModel || "o4-mini", abortController.signal);
+          } catch (error) {
+            console.error('Cluster edit planning error:', error);
           }
-        },
-        customPrompt,
-        req.body.chatHistory, // Pass the complete chat history
-        abortController.signal, // Pass abort signal to OpenAI function
-        maxTracesForReasoning || 250, // Same trace count for both models
-        (completeResponse, selectedTraces) => {
-          // Start trace selection immediately when complete response is ready
-          console.log('🚀 Starting trace selection in parallel...');
-          traceSelectionPromise = selectRelevantTraces(
-            tracesContent,
-            query,
-            completeResponse, // Use complete response for accurate trace selection
-            reasoningModel || "o4-mini",
-            customReasoningPrompt,
-            req.body.chatHistory,
-            abortController.signal,
-            selectedTraces
-          );
-          
-          // Send reasoning_start immediately when trace selection starts
-          if (!clientDisconnected && !req.aborted && !res.destroyed) {
-            res.write(`data: ${JSON.stringify({ type: 'reasoning_start' })}\n\n`);
-            if (res.flush) res.flush();
+
+          if (edits.length > 0) {
+            const summary = await applyClusterEdits(analysisId, edits, traces, provenance, reasoningModel || "o4-mini", abortController.signal);
+            const content = `Updated clusters:\n${summary.join('\n')}`;
+            await storage.addMessage({ conversationId, clientId: assistantClientId, type: 'assistant', content });
+            unansweredConversationId = null;
+            res.write(`data: ${JSON.stringify({ type: 'content', content })}\n\n`);
+            res.write(`data: ${JSON.stringify({ type: 'streaming_complete' })}\n\n`);
+            await settleUsage();
+            res.write(`data: ${JSON.stringify({
+              type: 'complete',
+              tracesWithTags: [],
+              clusters: await storage.getClustersByAnalysis(analysisId),
+              clusterEdit: true
+            })}\n\n`);
+            return res.end();
           }
         }
-      );
 
-      res.write(`data: ${JSON.stringify({ type: 'streaming_complete' })}\n\n`);
+        // The request can override the stored default prompts for this question only
+        const analysisPrompt = customPrompt || await resolvePrompt('analysis');
+        const reasoningPrompt = customReasoningPrompt || await resolvePrompt('reasoning');
+
+        // Older turns that no longer fit are folded into the conversation's running summary
+        const conversationContext = await prepareConversationContext(conversation, history, model || "gpt-4o", abortController.signal);
+
+        // Get complete response first, then start both streaming and trace selection
+        let traceSelectionPromise: Promise<Array<{ trace: string; traceId: string; tags: string[] }>> | null = null;
       
-      // Trace selection should already be running from the callback
-      if (traceSelectionPromise) {
-        console.log('⏳ Trace selection already running, waiting for completion...');
-        const tracesWithTags = await traceSelectionPromise;
-        
-        res.write(`data: ${JSON.stringify({ 
-          type: 'complete', 
-          tracesWithTags: tracesWithTags 
-        })}\n\n`);
-      } else {
-        // Fallback: start trace selection now (shouldn't happen with the callback)
-        console.log('⚠️ Fallback: Starting trace selection now...');
-        res.write(`data: ${JSON.stringify({ type: 'reasoning_start' })}\n\n`);
-        
-        const tracesWithTags = await selectRelevantTraces(
-          tracesContent,
+        const streamingResult = await analyzeDatasetGapsStreaming(
+          scope.traces,
+          datasets, // Pass all uploaded datasets
           query,
-          streamingResult.response,
+          model || "gpt-4o",
           reasoningModel || "o4-mini",
-          customReasoningPrompt,
-          req.body.chatHistory,
-          abortController.signal,
-          streamingResult.selectedTraces
+          (chunk) => {
+            streamedResponse += chunk;
+            // Check if client disconnected before trying to write
+            if (clientDisconnected || req.aborted || res.destroyed || res.closed) {
+              return;
+            }
+          
+            try {
+              res.write(`data: ${JSON.stringify({ type: 'content', content: chunk })}\n\n`);
+              if (res.flush) res.flush();
+            } catch (e) {
+              clientDisconnected = true;
+            }
+          },
+          analysisPrompt,
+          conversationContext,
+          abortController.signal, // Pass abort signal to OpenAI function
+          maxTracesForReasoning || 250, // Same trace count for both models
+          (completeResponse, selectedTraces) => {
+            // Start trace selection immediately when complete response is ready
+            console.log('🚀 Starting trace selection in parallel...');
+            traceSelectionPromise = selectRelevantTraces(
+              scope.traces,
+              query,
+              completeResponse, // Use complete response for accurate trace selection
+              reasoningModel || "o4-mini",
+              reasoningPrompt,
+              conversationContext,
+              abortController.signal,
+              selectedTraces,
+              existingClusters.map(cluster => cluster.name)
+            );
+          
+            // Send reasoning_start immediately when trace selection starts
+            if (!clientDisconnected && !req.aborted && !res.destroyed) {
+              res.write(`data: ${JSON.stringify({ type: 'reasoning_start' })}\n\n`);
+              if (res.flush) res.flush();
+            }
+          },
+          { strategy, embeddings: scope.embeddings, fullTrace: traceScoped }
         );
+
+        res.write(`data: ${JSON.stringify({ type: 'streaming_complete' })}\n\n`);
+        if (streamingResult.contextUsage) {
+          res.write(`data: ${JSON.stringify({ type: 'context', ...streamingResult.contextUsage })}\n\n`);
+        }
+        const assistantMessage = await storage.addMessage({
+          conversationId,
+          clientId: assistantClientId,
+          type: 'assistant',
+          content: streamingResult.response
+        });
+        unansweredConversationId = null;
+      
+        // Trace selection should already be running from the callback
+        if (traceSelectionPromise) {
+          console.log('⏳ Trace selection already running, waiting for completion...');
+          const tracesWithTags = await traceSelectionPromise;
+          await storage.updateMessage(assistantMessage.id, { tracesWithTags });
+          const clusters = traceScoped ? existingClusters : await recordClustersFromTags(analysisId, tracesWithTags, provenance);
+        
+          await settleUsage();
+          res.write(`data: ${JSON.stringify({ 
+            type: 'complete', 
+            tracesWithTags: tracesWithTags,
+            clusters
+          })}\n\n`);
+        } else {
+          // Fallback: start trace selection now (shouldn't happen with the callback)
+          console.log('⚠️ Fallback: Starting trace selection now...');
+          res.write(`data: ${JSON.stringify({ type: 'reasoning_start' })}\n\n`);
+        
+          const tracesWithTags = await selectRelevantTraces(
+            scope.traces,
+            query,
+            streamingResult.response,
+            reasoningModel || "o4-mini",
+            reasoningPrompt,
+            conversationContext,
+            abortController.signal,
+            streamingResult.selectedTraces,
+            existingClusters.map(cluster => cluster.name)
+          );
+          await storage.updateMessage(assistantMessage.id, { tracesWithTags });
+          const clusters = traceScoped ? existingClusters : await recordClustersFromTags(analysisId, tracesWithTags, provenance);
         
-        res.write(`data: ${JSON.stringify({ 
-          type: 'complete', 
-          tracesWithTags: tracesWithTags 
-        })}\n\n`);
+          await settleUsage();
+          res.write(`data: ${JSON.stringify({ 
+            type: 'complete', 
+            tracesWithTags: tracesWithTags,
+            clusters
+          })}\n\n`);
+        }
+
+        res.end();
+
+      } catch (error) {
+        console.error('Analysis error:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (unansweredConversationId !== null) {
+          const note = res.destroyed ? '⏹️ Stopped before the answer finished.' : `⚠️ The answer failed: ${message}`;
+          await storage.addMessage({
+            conversationId: unansweredConversationId,
+            clientId: assistantClientId,
+            type: 'assistant',
+            content: streamedResponse ? `${streamedResponse}\n\n${note}` : note
+          }).catch(saveError => console.error('Failed to record the unanswered turn:', saveError));
+        }
+        res.write(`data: ${JSON.stringify({ type: 'error', error: message })}\n\n`);
+        res.end();
       }
+    });
+  });
 
-      res.end();
+  // Chat conversations for an analysis, most recently active first
+  app.get("/api/analysis/:id/conversations", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const conversations = await storage.getConversationsByAnalysis(analysisId);
+      res.json(conversations);
+    } catch (error) {
+      console.error('Get conversations error:', error);
+      res.status(500).json({ error: 'Failed to get conversations' });
+    }
+  });
+
+  app.post("/api/analysis/:id/conversations", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const analysis = await storage.getAnalysis(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
 
+      const conversation = await storage.createConversation({ analysisId, title: req.body.title || 'New conversation' });
+      res.json(conversation);
     } catch (error) {
-      console.error('Analysis error:', error);
-      res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`);
-      res.end();
+      console.error('Create conversation error:', error);
+      res.status(500).json({ error: 'Failed to create conversation' });
     }
   });
 
-  // Update default prompts in config file
-  app.post("/api/update-default-prompt", async (req, res) => {
+  // Resume a conversation: the conversation and all of its messages
+  app.get("/api/conversations/:id", async (req, res) => {
     try {
-      const { type, prompt } = req.body;
-      
-      if (!type || !prompt) {
-        return res.status(400).json({ error: 'Type and prompt are required' });
+      const id = parseInt(req.params.id);
+      const conversation = await storage.getConversation(id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
       }
 
-      const configPath = path.join(process.cwd(), 'shared/config.ts');
-      let content = fs.readFileSync(configPath, 'utf8');
+      const messages = await storage.getMessages(id);
+      res.json({ conversation, messages });
+    } catch (error) {
+      console.error('Get conversation error:', error);
+      res.status(500).json({ error: 'Failed to get conversation' });
+    }
+  });
+
+  app.delete("/api/conversations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteConversation(id);
 
-      if (type === 'analysis') {
-        // Update the analysis prompt in the config
-        const analysisPromptRegex = /analysis: `[^`]*`/s;
-        const newAnalysisPrompt = `analysis: \`${prompt.replace(/`/g, '\\`')}\``;
-        content = content.replace(analysisPromptRegex, newAnalysisPrompt);
-      } else if (type === 'reasoning') {
-        // Update the reasoning prompt in the config
-        const reasoningPromptRegex = /reasoning: `[^`]*`/s;
-        const newReasoningPrompt = `reasoning: \`${prompt.replace(/`/g, '\\`')}\``;
-        content = content.replace(reasoningPromptRegex, newReasoningPrompt);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Conversation not found' });
       }
 
-      fs.writeFileSync(configPath, content);
       res.json({ success: true });
     } catch (error) {
-      console.error('Update prompt error:', error);
-      res.status(500).json({ error: "Failed to update default prompt" });
+      console.error('Delete conversation error:', error);
+      res.status(500).json({ error: 'Failed to delete conversation' });
     }
   });
 
-  // Batch job analysis endpoint
-  app.post("/api/batch-job", async (req, res) => {
+  // Classify every trace into the categories of a chat answer. Keeps running if the client goes away so the clusters still get saved.
+  app.post("/api/analysis/:id/classify", async (req, res) => withUsageScope({ analysisId: parseInt(req.params.id), messageId: req.body.messageId }, async () => {
     try {
-      const { analysisId, query, model = 'gpt-4o', maxResults = 30, fallbackTraces } = req.body;
+      const analysisId = parseInt(req.params.id);
+      const { response, query, model, messageId, conversationId } = req.body;
 
-      if (!analysisId || !query) {
-        return res.status(400).json({ error: 'Analysis ID and query are required' });
+      if (!response) {
+        return res.status(400).json({ error: 'Response text is required' });
       }
 
       const analysis = await storage.getAnalysis(analysisId);
-      if (!analysis && !fallbackTraces) {
-        return res.status(404).json({ error: "Analysis not found and no fallback traces provided" });
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
       }
 
-      // Use fallback traces if analysis content is missing
-      let traces: string[] = [];
-      if (analysis?.langsmithContent) {
-        traces = analysis.langsmithContent.split('\n').filter(line => line.trim() !== '');
+      const categories = extractResponseCategories(response);
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      const send = (event: Record<string, unknown>) => {
+        if (!res.writableEnded && !res.destroyed) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+      };
+
+      send({ type: 'categories', categories, totalTraces: analysis.traces.length });
+      if (categories.length === 0 || analysis.traces.length === 0) {
+        send({ type: 'complete', stats: [], clusters: await storage.getClustersByAnalysis(analysisId) });
+        return res.end();
       }
-      
-      // If no traces from analysis or fallbackTraces provided, use fallback
-      if ((traces.length === 0 || !analysis) && fallbackTraces && Array.isArray(fallbackTraces)) {
-        console.log(`🔄 Using fallback traces for batch job: ${fallbackTraces.length} traces from cache`);
-        traces = fallbackTraces;
+
+      try {
+        const { membersByCategory, classifiedCount } = await classifyTraces(analysis.traces, categories, model || "o4-mini", (progress) => {
+          send({ type: 'progress', ...progress });
+        });
+        const stats = await recordClassification(analysisId, membersByCategory, classifiedCount, {
+          definingPrompt: query || categories.join(', '),
+          sourceMessageId: messageId
+        });
+
+        // Keep the counts with the stored answer so they come back when the conversation is resumed
+        const message = conversationId
+          ? (await storage.getMessages(conversationId)).find(stored => stored.clientId === messageId)
+          : undefined;
+        if (message) {
+          await storage.updateMessage(message.id, { classification: stats });
+        }
+
+        await settleUsage();
+        send({ type: 'complete', stats, clusters: await storage.getClustersByAnalysis(analysisId) });
+      } catch (error) {
+        console.error('Classification error:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to classify traces' });
       }
-      
-      if (traces.length === 0) {
-        return res.json({ results: [] });
+      res.end();
+    } catch (error) {
+      console.error('Classification error:', error);
+      // Once the stream has started, the error goes out as an event
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to classify traces' });
       }
+      res.write(`data: ${JSON.stringify({ type: 'error', error: 'Failed to classify traces' })}\n\n`);
+      res.end();
+    }
+  }));
 
-      console.log(`🔍 BATCH JOB: Query="${query}" | Model=${model} | MaxResults=${maxResults} | TotalTraces=${traces.length}`);
+  // Clusters built up for an analysis
+  app.get("/api/analysis/:id/clusters", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const clusters = await storage.getClustersByAnalysis(analysisId);
+      res.json(clusters);
+    } catch (error) {
+      console.error('Get clusters error:', error);
+      res.status(500).json({ error: 'Failed to get clusters' });
+    }
+  });
+
+  // Create a cluster from the trace list
+  app.post("/api/analysis/:id/clusters", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const { name, description, traceIds } = req.body;
+
+      if (!name || !Array.isArray(traceIds) || !traceIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ error: 'Cluster name and an array of trace ids are required' });
+      }
 
-      // Use AI to analyze traces and find relevant examples
-      const results = await runBatchJobAnalysis(traces, query, maxResults, model);
+      const analysis = await storage.getAnalysis(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
 
-      res.json({ results });
+      const cluster = await storage.createCluster({
+        analysisId,
+        name,
+        description: description || null,
+        definingPrompt: null,
+        traceIds,
+        sourceMessageId: null,
+      });
+      res.json(cluster);
     } catch (error) {
-      console.error('Batch job error:', error);
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to run batch job' });
+      console.error('Create cluster error:', error);
+      res.status(500).json({ error: 'Failed to create cluster' });
     }
   });
 
-  // Get batch jobs for an analysis
-  app.get("/api/batch-jobs/:analysisId", async (req, res) => {
+  // Rename, describe or change the members of a cluster
+  app.patch("/api/clusters/:id", async (req, res) => {
     try {
-      const analysisId = parseInt(req.params.analysisId);
-      const jobs = await storage.getBatchJobsByAnalysis(analysisId);
-      res.json(jobs);
+      const id = parseInt(req.params.id);
+      const { name, description, traceIds } = req.body;
+
+      if (traceIds !== undefined && (!Array.isArray(traceIds) || !traceIds.every(id => typeof id === 'string'))) {
+        return res.status(400).json({ error: 'traceIds must be an array of trace ids' });
+      }
+
+      const cluster = await storage.updateCluster(id, {
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+        ...(traceIds !== undefined ? { traceIds } : {}),
+      });
+      if (!cluster) {
+        return res.status(404).json({ error: 'Cluster not found' });
+      }
+
+      res.json(cluster);
     } catch (error) {
-      console.error('Get batch jobs error:', error);
-      res.status(500).json({ error: 'Failed to get batch jobs' });
+      console.error('Update cluster error:', error);
+      res.status(500).json({ error: 'Failed to update cluster' });
     }
   });
 
-  // Save batch jobs for an analysis
-  app.post("/api/batch-jobs", async (req, res) => {
+  // Merge a cluster into another one
+  app.post("/api/clusters/:id/merge", async (req, res) => {
     try {
-      const { analysisId, jobs } = req.body;
-      
-      if (!analysisId || !Array.isArray(jobs)) {
-        return res.status(400).json({ error: 'Analysis ID and jobs array are required' });
+      const id = parseInt(req.params.id);
+      const targetId = parseInt(req.body.targetId);
+      if (isNaN(targetId)) {
+        return res.status(400).json({ error: 'targetId must be a cluster id' });
       }
 
-      const savedJobs = await storage.saveBatchJobs(analysisId, jobs);
-      res.json(savedJobs);
+      const source = await storage.getCluster(id);
+      const target = await storage.getCluster(targetId);
+      if (!source || !target || source.analysisId !== target.analysisId || source.id === target.id) {
+        return res.status(400).json({ error: 'Both clusters must exist and belong to the same analysis' });
+      }
+
+      const merged = await mergeClusters(source, target);
+      res.json(merged);
     } catch (error) {
-      console.error('Save batch jobs error:', error);
-      res.status(500).json({ error: 'Failed to save batch jobs' });
+      console.error('Merge clusters error:', error);
+      res.status(500).json({ error: 'Failed to merge clusters' });
     }
   });
 
-  // Update batch job status/results
-  app.put("/api/batch-jobs/:id", async (req, res) => {
+  app.delete("/api/clusters/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      const updatedJob = await storage.updateBatchJob(id, updates);
-      if (!updatedJob) {
-        return res.status(404).json({ error: 'Batch job not found' });
+      const deleted = await storage.deleteCluster(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Cluster not found' });
       }
-      
-      res.json(updatedJob);
-    } catch (error) {
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete cluster error:', error);
+      res.status(500).json({ error: 'Failed to delete cluster' });
+    }
+  });
+
+  // Findings the background copilot has reported so far
+  app.get("/api/analysis/:id/insights", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const insights = await storage.getInsightsByAnalysis(analysisId);
+      res.json(insights);
+    } catch (error) {
+      console.error('Get insights error:', error);
+      res.status(500).json({ error: 'Failed to get insights' });
+    }
+  });
+
+  // Live findings feed; subscribing also resumes the copilot after a server restart
+  app.get("/api/analysis/:id/insights/events", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const analysis = await storage.getAnalysis(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      startCopilot(analysisId);
+      const unsubscribe = subscribeToCopilot(analysisId, (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      // Copilot rounds can be minutes apart; a comment line keeps proxies from closing the idle stream
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error('Insight events error:', error);
+      // Headers may already be sent, so the error goes out as an event
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to subscribe to insights' });
+      }
+      res.write(`data: ${JSON.stringify({ type: 'error', error: 'Failed to subscribe to insights' })}\n\n`);
+      res.end();
+    }
+  });
+
+  app.delete("/api/insights/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteInsight(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Insight not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete insight error:', error);
+      res.status(500).json({ error: 'Failed to delete insight' });
+    }
+  });
+
+  // Saved prompt versions, newest first; ?kind= narrows to one kind
+  app.get("/api/prompts", async (req, res) => {
+    try {
+      const { kind } = req.query;
+      if (kind !== undefined && !isPromptKind(kind)) {
+        return res.status(400).json({ error: `kind must be one of ${PROMPT_KINDS.join(', ')}` });
+      }
+      res.json(await storage.getPrompts(kind));
+    } catch (error) {
+      console.error('Get prompts error:', error);
+      res.status(500).json({ error: 'Failed to get prompts' });
+    }
+  });
+
+  // The prompt each kind currently uses, keyed by kind
+  app.get("/api/prompts/defaults", async (req, res) => {
+    try {
+      const defaults: Partial<Record<PromptKind, Prompt>> = {};
+      for (const kind of PROMPT_KINDS) {
+        const prompt = await storage.getDefaultPrompt(kind);
+        if (prompt) defaults[kind] = prompt;
+      }
+      res.json(defaults);
+    } catch (error) {
+      console.error('Get default prompts error:', error);
+      res.status(500).json({ error: 'Failed to get default prompts' });
+    }
+  });
+
+  app.get("/api/prompts/:id", async (req, res) => {
+    try {
+      const prompt = await storage.getPrompt(parseInt(req.params.id));
+      if (!prompt) {
+        return res.status(404).json({ error: 'Prompt not found' });
+      }
+      res.json(prompt);
+    } catch (error) {
+      console.error('Get prompt error:', error);
+      res.status(500).json({ error: 'Failed to get prompt' });
+    }
+  });
+
+  // Saving under an existing name and kind adds a new version
+  app.post("/api/prompts", async (req, res) => {
+    try {
+      const { name, kind, body, author } = req.body;
+      if (typeof name !== 'string' || !name.trim() || !isPromptKind(kind) || typeof body !== 'string' || !body.trim()) {
+        return res.status(400).json({ error: `Prompt name, body and a kind (${PROMPT_KINDS.join(', ')}) are required` });
+      }
+      const errors = templateErrors(kind, body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.join('; '), issues: errors });
+      }
+
+      const prompt = await storage.createPrompt({ name: name.trim(), kind, body, author: typeof author === 'string' ? author : null });
+      console.log(`📝 Saved ${kind} prompt "${prompt.name}" v${prompt.version}`);
+      res.json(prompt);
+    } catch (error) {
+      console.error('Create prompt error:', error);
+      res.status(500).json({ error: 'Failed to save prompt' });
+    }
+  });
+
+  // Versions are never edited in place; an update stores the next version of the same prompt
+  app.patch("/api/prompts/:id", async (req, res) => {
+    try {
+      const existing = await storage.getPrompt(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: 'Prompt not found' });
+      }
+
+      const { body, author } = req.body;
+      if (typeof body !== 'string' || !body.trim()) {
+        return res.status(400).json({ error: 'Prompt body is required' });
+      }
+      const errors = templateErrors(existing.kind, body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors.join('; '), issues: errors });
+      }
+
+      const prompt = await storage.createPrompt({
+        name: existing.name,
+        kind: existing.kind,
+        body,
+        author: typeof author === 'string' ? author : existing.author,
+      });
+      console.log(`📝 Saved ${prompt.kind} prompt "${prompt.name}" v${prompt.version}`);
+      res.json(prompt);
+    } catch (error) {
+      console.error('Update prompt error:', error);
+      res.status(500).json({ error: 'Failed to update prompt' });
+    }
+  });
+
+  app.post("/api/prompts/:id/default", async (req, res) => {
+    try {
+      const prompt = await storage.setDefaultPrompt(parseInt(req.params.id));
+      if (!prompt) {
+        return res.status(404).json({ error: 'Prompt not found' });
+      }
+      console.log(`⭐ Default ${prompt.kind} prompt is now "${prompt.name}" v${prompt.version}`);
+      res.json(prompt);
+    } catch (error) {
+      console.error('Set default prompt error:', error);
+      res.status(500).json({ error: 'Failed to set default prompt' });
+    }
+  });
+
+  app.delete("/api/prompts/:id", async (req, res) => {
+    try {
+      const prompt = await storage.getPrompt(parseInt(req.params.id));
+      if (!prompt) {
+        return res.status(404).json({ error: 'Prompt not found' });
+      }
+      if (prompt.isDefault) {
+        return res.status(400).json({ error: 'Set another default before deleting this prompt' });
+      }
+
+      await storage.deletePrompt(prompt.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete prompt error:', error);
+      res.status(500).json({ error: 'Failed to delete prompt' });
+    }
+  });
+
+  // Answer one question with two prompt/model setups side by side - streaming response
+  app.post("/api/compare", async (req, res) => withUsageScope({ analysisId: req.body.analysisId }, async () => {
+    try {
+      const { analysisId, query, setups, reasoningModel, customReasoningPrompt, maxTracesForReasoning, retrievalStrategy } = req.body;
+
+      if (!analysisId || !query || !Array.isArray(setups) || setups.length !== 2) {
+        return res.status(400).json({ error: 'Analysis ID, query and exactly two setups are required' });
+      }
+
+      let resolvedSetups: ComparisonSetup[];
+      try {
+        resolvedSetups = await Promise.all(setups.map(resolveComparisonSetup));
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid setup' });
+      }
+      const reasoningPromptErrors = customReasoningPrompt ? templateErrors('reasoning', customReasoningPrompt) : [];
+      if (reasoningPromptErrors.length > 0) {
+        return res.status(400).json({ error: `Invalid custom reasoning prompt: ${reasoningPromptErrors.join('; ')}` });
+      }
+
+      const analysis = await storage.getAnalysis(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      const abortController = new AbortController();
+      req.on('close', () => abortController.abort());
+      const send = (event: object) => {
+        if (!res.writableEnded) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+      };
+      send({ type: 'heartbeat', message: 'Connection established' });
+
+      try {
+        const comparison = await runComparison({
+          analysisId,
+          traces: analysis.traces,
+          embeddings: analysis.embeddings,
+          datasets: await storage.getAllDatasets(),
+          query,
+          setups: resolvedSetups,
+          reasoningModel: reasoningModel || "o4-mini",
+          reasoningPrompt: customReasoningPrompt || await resolvePrompt('reasoning'),
+          maxTraces: maxTracesForReasoning || 250,
+          strategy: ['hybrid', 'semantic', 'random'].includes(retrievalStrategy) ? retrievalStrategy : 'hybrid',
+          seed: Math.floor(Math.random() * 100000),
+          signal: abortController.signal,
+          onEvent: send,
+        });
+        send({ type: 'complete', comparison });
+      } catch (error) {
+        console.error('Comparison error:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Comparison failed' });
+      }
+      res.end();
+    } catch (error) {
+      console.error('Comparison error:', error);
+      res.status(500).json({ error: 'Failed to run comparison' });
+    }
+  }));
+
+  app.get("/api/analysis/:id/comparisons", async (req, res) => {
+    try {
+      const comparisons = await storage.getComparisons(parseInt(req.params.id));
+      res.json(comparisons);
+    } catch (error) {
+      console.error('Get comparisons error:', error);
+      res.status(500).json({ error: 'Failed to get comparisons' });
+    }
+  });
+
+  // Which prompt and model setups win most often, across all analyses
+  app.get("/api/comparisons/stats", async (req, res) => {
+    try {
+      res.json(summarizeVotes(await storage.getComparisons()));
+    } catch (error) {
+      console.error('Get comparison stats error:', error);
+      res.status(500).json({ error: 'Failed to get comparison stats' });
+    }
+  });
+
+  app.post("/api/comparisons/:id/vote", async (req, res) => {
+    try {
+      const { winner } = req.body;
+      if (!['A', 'B', 'tie'].includes(winner)) {
+        return res.status(400).json({ error: 'winner must be A, B or tie' });
+      }
+
+      const comparison = await storage.voteComparison(parseInt(req.params.id), winner);
+      if (!comparison) {
+        return res.status(404).json({ error: 'Comparison not found' });
+      }
+      console.log(`🗳️ COMPARISON ${comparison.id}: ${winner === 'tie' ? 'tie' : `${winner} wins`}`);
+      res.json(comparison);
+    } catch (error) {
+      console.error('Vote comparison error:', error);
+      res.status(500).json({ error: 'Failed to record vote' });
+    }
+  });
+
+  // Token counts and estimated cost of every LLM call made for an analysis
+  app.get("/api/analysis/:id/usage", async (req, res) => {
+    try {
+      const rows = await storage.getUsageByAnalysis(parseInt(req.params.id));
+      res.json(summarizeUsage(rows));
+    } catch (error) {
+      console.error('Get usage error:', error);
+      res.status(500).json({ error: 'Failed to get usage' });
+    }
+  });
+
+  // Labeled eval sets for the trace-selection step
+  app.get("/api/analysis/:id/eval-sets", async (req, res) => {
+    try {
+      const evalSets = await storage.getEvalSetsByAnalysis(parseInt(req.params.id));
+      res.json(evalSets);
+    } catch (error) {
+      console.error('Get eval sets error:', error);
+      res.status(500).json({ error: 'Failed to get eval sets' });
+    }
+  });
+
+  app.post("/api/analysis/:id/eval-sets", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      const { name, description } = req.body;
+      const cases = req.body.cases === undefined ? [] : parseEvalCases(req.body.cases);
+
+      if (typeof name !== 'string' || !name.trim() || !cases) {
+        return res.status(400).json({ error: 'A name and cases of { question, response, expected: [{ traceId, tags }] } are required' });
+      }
+      if (!await storage.getAnalysis(analysisId)) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+
+      const evalSet = await storage.createEvalSet({ analysisId, name: name.trim(), description: description || null, cases });
+      res.json(evalSet);
+    } catch (error) {
+      console.error('Create eval set error:', error);
+      res.status(500).json({ error: 'Failed to create eval set' });
+    }
+  });
+
+  app.put("/api/eval-sets/:id", async (req, res) => {
+    try {
+      const { name, description } = req.body;
+      const cases = req.body.cases === undefined ? undefined : parseEvalCases(req.body.cases);
+      if (cases === null) {
+        return res.status(400).json({ error: 'cases must be a list of { question, response, expected: [{ traceId, tags }] }' });
+      }
+
+      const evalSet = await storage.updateEvalSet(parseInt(req.params.id), {
+        ...(typeof name === 'string' && name.trim() ? { name: name.trim() } : {}),
+        ...(description !== undefined ? { description: description || null } : {}),
+        ...(cases ? { cases } : {}),
+      });
+      if (!evalSet) {
+        return res.status(404).json({ error: 'Eval set not found' });
+      }
+      res.json(evalSet);
+    } catch (error) {
+      console.error('Update eval set error:', error);
+      res.status(500).json({ error: 'Failed to update eval set' });
+    }
+  });
+
+  // Append one case, e.g. a chat answer whose tagged traces were reviewed
+  app.post("/api/eval-sets/:id/cases", async (req, res) => {
+    try {
+      const evalSet = await storage.getEvalSet(parseInt(req.params.id));
+      if (!evalSet) {
+        return res.status(404).json({ error: 'Eval set not found' });
+      }
+      const cases = parseEvalCases([req.body]);
+      if (!cases) {
+        return res.status(400).json({ error: 'A case needs a question, a response and expected: [{ traceId, tags }]' });
+      }
+
+      res.json(await storage.updateEvalSet(evalSet.id, { cases: [...evalSet.cases, ...cases] }));
+    } catch (error) {
+      console.error('Add eval case error:', error);
+      res.status(500).json({ error: 'Failed to add eval case' });
+    }
+  });
+
+  app.delete("/api/eval-sets/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteEvalSet(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Eval set not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete eval set error:', error);
+      res.status(500).json({ error: 'Failed to delete eval set' });
+    }
+  });
+
+  app.get("/api/eval-sets/:id/runs", async (req, res) => {
+    try {
+      const runs = await storage.getEvalRunsBySet(parseInt(req.params.id));
+      res.json(runs);
+    } catch (error) {
+      console.error('Get eval runs error:', error);
+      res.status(500).json({ error: 'Failed to get eval runs' });
+    }
+  });
+
+  // Replay the set against a reasoning model and prompt; the run finishes in the background
+  app.post("/api/eval-sets/:id/runs", async (req, res) => {
+    try {
+      const evalSet = await storage.getEvalSet(parseInt(req.params.id));
+      if (!evalSet) {
+        return res.status(404).json({ error: 'Eval set not found' });
+      }
+      if (evalSet.cases.length === 0) {
+        return res.status(400).json({ error: 'The eval set has no cases' });
+      }
+
+      const { model, promptId, prompt } = req.body;
+      if (typeof model !== 'string' || !model) {
+        return res.status(400).json({ error: 'A reasoning model is required' });
+      }
+
+      let resolved: ResolvedPrompt;
+      try {
+        resolved = await resolvePromptChoice('reasoning', { promptId, prompt });
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid prompt' });
+      }
+
+      const analysis = await storage.getAnalysis(evalSet.analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+
+      const run = await startEvalRun(evalSet, analysis.traces, { model, ...resolved });
+      res.json(run);
+    } catch (error) {
+      console.error('Start eval run error:', error);
+      res.status(500).json({ error: 'Failed to start eval run' });
+    }
+  });
+
+  // Batch job analysis endpoint
+  app.post("/api/batch-job", async (req, res) => withUsageScope({ analysisId: req.body.analysisId }, async () => {
+    try {
+      const { analysisId, query, model = 'gpt-4o', maxResults = 30, fallbackTraces, filter } = req.body;
+
+      if (!analysisId || !query) {
+        return res.status(400).json({ error: 'Analysis ID and query are required' });
+      }
+
+      const scopeErrors = filter ? filterErrors(filter) : [];
+      if (scopeErrors.length > 0) {
+        return res.status(400).json({ error: `Invalid trace filter: ${scopeErrors.join('; ')}` });
+      }
+
+      const analysis = await storage.getAnalysis(analysisId);
+      if (!analysis && !fallbackTraces) {
+        return res.status(404).json({ error: "Analysis not found and no fallback traces provided" });
+      }
+
+      // Use fallback traces if analysis content is missing
+      let traces: Trace[] = analysis?.traces ?? [];
+      
+      // If no traces from analysis or fallbackTraces provided, use fallback
+      if ((traces.length === 0 || !analysis) && fallbackTraces && Array.isArray(fallbackTraces)) {
+        console.log(`🔄 Using fallback traces for batch job: ${fallbackTraces.length} traces from cache`);
+        traces = textTraces(fallbackTraces);
+      }
+      traces = applyTraceFilter(traces, filter);
+      
+      if (traces.length === 0) {
+        return res.json({ results: [] });
+      }
+
+      console.log(`🔍 BATCH JOB: Query="${query}" | Model=${model} | MaxResults=${maxResults} | TotalTraces=${traces.length}`);
+      const batchPrompt = await resolvePrompt('batch');
+
+      let budgeted: Awaited<ReturnType<typeof budgetBatchRun>>;
+      try {
+        budgeted = await budgetBatchRun(traces, { query, model, maxResults }, batchPrompt);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Batch job is over budget' });
+      }
+      res.on('close', budgeted.release);
+      budgeted.track(liveUsageTotals());
+      traces = budgeted.traces;
+      const withWarnings = (warning?: string) => [budgeted.note, warning].filter(Boolean).join(' ') || undefined;
+
+      // Plain JSON response unless the client asks for per-chunk progress events
+      if (req.headers.accept !== 'text/event-stream') {
+        const { results, warning } = await runBatchJobAnalysis(traces, query, maxResults, model, undefined, undefined, batchPrompt);
+        return res.json({ results, warning: withWarnings(warning) });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      const abortController = new AbortController();
+      req.on('close', () => abortController.abort());
+
+      try {
+        const { results, warning } = await runBatchJobAnalysis(traces, query, maxResults, model, (progress) => {
+          if (!res.writableEnded) {
+            res.write(`data: ${JSON.stringify({ type: 'progress', ...progress })}\n\n`);
+          }
+        }, abortController.signal, batchPrompt);
+
+        res.write(`data: ${JSON.stringify({ type: 'complete', results, warning: withWarnings(warning) })}\n\n`);
+      } catch (error) {
+        console.error('Batch job error:', error);
+        res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Failed to run batch job' })}\n\n`);
+      }
+      res.end();
+    } catch (error) {
+      console.error('Batch job error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to run batch job' });
+    }
+  }));
+
+  // Pre-flight token and cost estimate for running batch jobs, checked against the budget limits
+  app.post("/api/batch-jobs/estimate", async (req, res) => {
+    try {
+      const { analysisId, jobs, fallbackTraces, filter } = req.body;
+      if (!analysisId || !Array.isArray(jobs)) {
+        return res.status(400).json({ error: 'Analysis ID and jobs array are required' });
+      }
+
+      const scopeErrors = filter ? filterErrors(filter) : [];
+      if (scopeErrors.length > 0) {
+        return res.status(400).json({ error: `Invalid trace filter: ${scopeErrors.join('; ')}` });
+      }
+
+      const analysis = await storage.getAnalysis(analysisId);
+      let traces: Trace[] = analysis?.traces ?? [];
+      if (traces.length === 0 && Array.isArray(fallbackTraces)) {
+        traces = textTraces(fallbackTraces);
+      }
+      traces = applyTraceFilter(traces, filter);
+
+      const batchPrompt = await resolvePrompt('batch');
+      const budget = await getBudgetStatus();
+      const allowed = runAllowance(budget);
+      const estimates = jobs.map((job: any) => {
+        const estimate = estimateBatchJob(traces, { query: String(job.query ?? ''), model: String(job.model ?? 'gpt-4o'), maxResults: Number(job.maxResults) || 30 }, batchPrompt);
+        return { jobId: String(job.jobId), ...estimate, overLimit: !!allowed && estimate.cost > allowed.allowance };
+      });
+
+      const result: BatchRunEstimate = {
+        jobs: estimates,
+        total: totalEstimate(estimates),
+        budget,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error('Estimate batch jobs error:', error);
+      res.status(500).json({ error: 'Failed to estimate batch jobs' });
+    }
+  });
+
+  // Get batch jobs for an analysis
+  app.get("/api/batch-jobs/:analysisId", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.analysisId);
+      const jobs = await storage.getBatchJobsByAnalysis(analysisId);
+      res.json(jobs.map(job => ({ ...job, active: isBatchJobActive(job.id) })));
+    } catch (error) {
+      console.error('Get batch jobs error:', error);
+      res.status(500).json({ error: 'Failed to get batch jobs' });
+    }
+  });
+
+  // Save batch jobs for an analysis
+  app.post("/api/batch-jobs", async (req, res) => {
+    try {
+      const { analysisId, jobs } = req.body;
+      
+      if (!analysisId || !Array.isArray(jobs)) {
+        return res.status(400).json({ error: 'Analysis ID and jobs array are required' });
+      }
+
+      const savedJobs = await storage.saveBatchJobs(analysisId, jobs);
+      res.json(savedJobs);
+    } catch (error) {
+      console.error('Save batch jobs error:', error);
+      res.status(500).json({ error: 'Failed to save batch jobs' });
+    }
+  });
+
+  // Update batch job status/results
+  app.put("/api/batch-jobs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      const updatedJob = await storage.updateBatchJob(id, updates);
+      if (!updatedJob) {
+        return res.status(404).json({ error: 'Batch job not found' });
+      }
+      
+      res.json(updatedJob);
+    } catch (error) {
       console.error('Update batch job error:', error);
       res.status(500).json({ error: 'Failed to update batch job' });
     }
   });
 
+  // Queue a saved batch job to run on the server
+  app.post("/api/batch-jobs/:id/run", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { fallbackTraces, filter } = req.body;
+
+      const scopeErrors = filter ? filterErrors(filter) : [];
+      if (scopeErrors.length > 0) {
+        return res.status(400).json({ error: `Invalid trace filter: ${scopeErrors.join('; ')}` });
+      }
+
+      const job = await storage.getBatchJob(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Batch job not found' });
+      }
+
+      const enqueued = await enqueueBatchJob(id, Array.isArray(fallbackTraces) ? fallbackTraces : undefined, filter || undefined);
+      if (!enqueued) {
+        return res.status(409).json({ error: 'Batch job is already queued or running' });
+      }
+
+      res.status(202).json({ id, status: 'queued' });
+    } catch (error) {
+      console.error('Run batch job error:', error);
+      res.status(500).json({ error: 'Failed to queue batch job' });
+    }
+  });
+
+  // Stream status and progress events for a batch job
+  app.get("/api/batch-jobs/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getBatchJob(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Batch job not found' });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      if (!isBatchJobActive(id)) {
+        // A job left queued or running by a previous server process will never finish
+        if (job.status === 'queued' || job.status === 'running') {
+          const error = 'Batch job was interrupted by a server restart';
+          await storage.updateBatchJob(id, { status: 'error', error });
+          res.write(`data: ${JSON.stringify({ type: 'error', error })}\n\n`);
+        } else if (job.status === 'completed') {
+          res.write(`data: ${JSON.stringify({ type: 'complete', results: job.results ?? [], warning: job.error ?? undefined })}\n\n`);
+        } else if (job.status === 'error') {
+          res.write(`data: ${JSON.stringify({ type: 'error', error: job.error ?? 'Batch job failed' })}\n\n`);
+        }
+        return res.end();
+      }
+
+      const unsubscribe = subscribeToBatchJob(id, (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'complete' || event.type === 'error') {
+          unsubscribe();
+          res.end();
+        }
+      });
+
+      req.on('close', unsubscribe);
+    } catch (error) {
+      console.error('Batch job events error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to stream batch job events' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Delete batch job
   app.delete("/api/batch-jobs/:id", async (req, res) => {
     try {
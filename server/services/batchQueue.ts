@@ -0,0 +1,151 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+import { textTraces } from "../parsers";
+import { runBatchJobAnalysis, type BatchJobProgress, type BatchJobResult } from "./openai";
+import { resolvePrompt } from "./prompts";
+import { liveUsageTotals, settleUsage, withUsageScope } from "./usage";
+import { budgetBatchRun } from "./budget";
+import type { Trace } from "@shared/schema";
+import { applyTraceFilter, describeFilter, type TraceFilter } from "@shared/filters";
+
+export type BatchJobEvent =
+  | { type: 'queued' }
+  | { type: 'running' }
+  | ({ type: 'progress' } & BatchJobProgress)
+  | { type: 'complete'; results: BatchJobResult[]; warning?: string }
+  | { type: 'error'; error: string };
+
+type QueuedJob = {
+  id: number;
+  fallbackTraces?: string[];
+  filter?: TraceFilter; // Only the matching traces are analyzed
+};
+
+// Jobs run on this server process; more than a couple at once just competes for the same rate limit
+const BATCH_QUEUE_CONCURRENCY = 2;
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+const queue: QueuedJob[] = [];
+const enqueuing = new Set<number>(); // Claimed synchronously, so concurrent run requests can't both queue a job
+const running = new Set<number>();
+const latestProgress = new Map<number, BatchJobProgress>();
+
+function emit(id: number, event: BatchJobEvent) {
+  if (event.type === 'progress') {
+    const { type, ...progress } = event;
+    latestProgress.set(id, progress);
+  }
+  events.emit(`job:${id}`, event);
+}
+
+export function isBatchJobActive(id: number): boolean {
+  return enqueuing.has(id) || running.has(id) || queue.some(job => job.id === id);
+}
+
+// Replay the current state for a new subscriber, then forward live events
+export function subscribeToBatchJob(id: number, listener: (event: BatchJobEvent) => void): () => void {
+  if (enqueuing.has(id) || queue.some(job => job.id === id)) {
+    listener({ type: 'queued' });
+  } else if (running.has(id)) {
+    listener({ type: 'running' });
+    const progress = latestProgress.get(id);
+    if (progress) listener({ type: 'progress', ...progress });
+  }
+
+  events.on(`job:${id}`, listener);
+  return () => {
+    events.off(`job:${id}`, listener);
+  };
+}
+
+export async function enqueueBatchJob(id: number, fallbackTraces?: string[], filter?: TraceFilter): Promise<boolean> {
+  if (isBatchJobActive(id)) return false;
+  enqueuing.add(id);
+
+  try {
+    await storage.updateBatchJob(id, { status: 'queued', error: undefined });
+    queue.push({ id, fallbackTraces, filter });
+  } finally {
+    enqueuing.delete(id);
+  }
+  console.log(`📥 BATCH QUEUE: Enqueued job ${id} | Queue=${queue.length} | Running=${running.size}`);
+  emit(id, { type: 'queued' });
+
+  processQueue();
+  return true;
+}
+
+function processQueue() {
+  while (running.size < BATCH_QUEUE_CONCURRENCY && queue.length > 0) {
+    const next = queue.shift()!;
+    running.add(next.id);
+
+    executeJob(next).finally(() => {
+      running.delete(next.id);
+      latestProgress.delete(next.id);
+      processQueue();
+    });
+  }
+}
+
+async function loadTraces(analysisId: number, fallbackTraces?: string[]): Promise<Trace[]> {
+  const analysis = await storage.getAnalysis(analysisId);
+  if (analysis && analysis.traces.length > 0) {
+    return analysis.traces;
+  }
+  if (fallbackTraces && fallbackTraces.length > 0) {
+    console.log(`🔄 Using fallback traces for batch job: ${fallbackTraces.length} traces from cache`);
+    return textTraces(fallbackTraces);
+  }
+  return [];
+}
+
+async function executeJob({ id, fallbackTraces, filter }: QueuedJob) {
+  try {
+    const job = await storage.getBatchJob(id);
+    if (!job) {
+      console.log(`⚠️ BATCH QUEUE: Job ${id} was deleted before it started`);
+      return;
+    }
+
+    await storage.updateBatchJob(id, { status: 'running', error: undefined, lastRunAt: new Date() });
+    emit(id, { type: 'running' });
+
+    const traces = applyTraceFilter(await loadTraces(job.analysisId, fallbackTraces), filter);
+    console.log(`🔍 BATCH JOB ${id}: Query="${job.query}" | Model=${job.model} | MaxResults=${job.maxResults} | TotalTraces=${traces.length}${filter ? ` | Scope=${describeFilter(filter)}` : ''}`);
+
+    // Over-budget runs are rejected here, or cut down to the traces that fit
+    const batchPrompt = await resolvePrompt('batch');
+    const budgeted = await budgetBatchRun(traces, job, batchPrompt);
+
+    // Usage is written before the job reports completion, so clients refetching costs see all of it
+    let outcome: { results: BatchJobResult[]; warning?: string } = { results: [] };
+    try {
+      if (budgeted.traces.length > 0) {
+        outcome = await withUsageScope({ analysisId: job.analysisId, batchJobId: id }, async () => {
+          budgeted.track(liveUsageTotals());
+          const outcome = await runBatchJobAnalysis(budgeted.traces, job.query, job.maxResults, job.model, (progress) => emit(id, { type: 'progress', ...progress }), undefined, batchPrompt);
+          await settleUsage();
+          return outcome;
+        });
+      }
+    } finally {
+      budgeted.release();
+    }
+
+    // A truncated or partly failed run still completes; the note explains why results may be missing
+    const { results } = outcome;
+    const warning = [budgeted.note, outcome.warning].filter(Boolean).join(' ') || undefined;
+    await storage.updateBatchJob(id, { status: 'completed', results, error: warning });
+    emit(id, { type: 'complete', results, warning });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to run batch job';
+    console.error(`❌ BATCH JOB ${id} failed:`, error);
+    await storage.updateBatchJob(id, { status: 'error', error: message }).catch(updateError => {
+      console.error('Failed to record batch job error:', updateError);
+    });
+    emit(id, { type: 'error', error: message });
+  }
+}
@@ -0,0 +1,140 @@
+import type { BatchJobEstimate, BudgetStatus, Trace, UsageTotals } from "@shared/schema";
+import { estimateCost, formatCost } from "@shared/pricing";
+import { storage } from "../storage";
+import { estimateBatchChunks } from "./openai";
+import { getModelPrices } from "./usage";
+
+// USD limits; unset or non-positive means no limit
+function costLimit(value: string | undefined): number | null {
+  const limit = Number(value);
+  return limit > 0 ? limit : null;
+}
+
+const JOB_COST_LIMIT = costLimit(process.env.BATCH_JOB_COST_LIMIT);
+const DAILY_COST_LIMIT = costLimit(process.env.DAILY_COST_LIMIT);
+const OVERRUN: BudgetStatus["overrun"] = process.env.BUDGET_OVERRUN === "truncate" ? "truncate" : "reject";
+
+// Estimates of batch runs that have started but not finished, so concurrent runs can't all fit under the same daily limit.
+// A run's metered usage is already in today's spend, so it comes off its reservation as it accrues.
+const reservations = new Map<number, { cost: number; usage: UsageTotals | null }>();
+let nextReservation = 1;
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+// Synchronous, so a caller can check the status and add its reservation without another run getting in between
+function budgetStatus(spent: number): BudgetStatus {
+  const reserved = Array.from(reservations.values())
+    .reduce((total, reservation) => total + Math.max(0, reservation.cost - (reservation.usage?.cost ?? 0)), 0);
+  return {
+    jobCostLimit: JOB_COST_LIMIT,
+    dailyCostLimit: DAILY_COST_LIMIT,
+    spentToday: spent + reserved,
+    overrun: OVERRUN,
+  };
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  return budgetStatus(await storage.getUsageCostSince(startOfToday()));
+}
+
+type BatchJobInput = { query: string; model: string; maxResults: number };
+
+function chunkEstimates(traces: Trace[], job: BatchJobInput, promptTemplate: string) {
+  const prices = getModelPrices();
+  return estimateBatchChunks(traces, job.query, job.maxResults, promptTemplate).map(chunk => ({
+    ...chunk,
+    cost: estimateCost(prices, job.model, chunk.promptTokens, chunk.completionTokens),
+  }));
+}
+
+export function totalEstimate(estimates: BatchJobEstimate[]): BatchJobEstimate {
+  return estimates.reduce<BatchJobEstimate>((total, estimate) => ({
+    traceCount: total.traceCount + estimate.traceCount,
+    chunks: total.chunks + estimate.chunks,
+    promptTokens: total.promptTokens + estimate.promptTokens,
+    completionTokens: total.completionTokens + estimate.completionTokens,
+    cost: total.cost + estimate.cost,
+  }), { traceCount: 0, chunks: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+}
+
+// Per-chunk estimates into one job estimate
+function sumEstimates(chunks: Array<Omit<BatchJobEstimate, "chunks">>): BatchJobEstimate {
+  return totalEstimate(chunks.map(chunk => ({ ...chunk, chunks: 1 })));
+}
+
+export function estimateBatchJob(traces: Trace[], job: BatchJobInput, promptTemplate: string): BatchJobEstimate {
+  return sumEstimates(chunkEstimates(traces, job, promptTemplate));
+}
+
+// The most a single run may cost right now, and which limit sets it
+export function runAllowance(budget: BudgetStatus): { allowance: number; limit: string } | null {
+  const dailyLeft = budget.dailyCostLimit !== null ? Math.max(0, budget.dailyCostLimit - budget.spentToday) : null;
+  if (dailyLeft !== null && (budget.jobCostLimit === null || dailyLeft < budget.jobCostLimit)) {
+    return { allowance: dailyLeft, limit: `the ${formatCost(dailyLeft)} left of today's ${formatCost(budget.dailyCostLimit!)} budget` };
+  }
+  if (budget.jobCostLimit !== null) {
+    return { allowance: budget.jobCostLimit, limit: `the ${formatCost(budget.jobCostLimit)} per-job limit` };
+  }
+  return null;
+}
+
+export type BudgetedRun = {
+  traces: Trace[];
+  estimate: BatchJobEstimate;
+  note: string | null; // Set when the run was cut down to fit the budget
+  track: (usage: UsageTotals) => void; // The run's live usage totals, e.g. liveUsageTotals() inside its usage scope
+  release: () => void;
+};
+
+// Check a batch run against the limits before it starts. Throws when it can't run at all; otherwise returns the
+// traces to analyze (all of them, or the leading chunks that fit) and reserves the estimate until release().
+export async function budgetBatchRun(traces: Trace[], job: BatchJobInput, promptTemplate: string): Promise<BudgetedRun> {
+  const chunks = chunkEstimates(traces, job, promptTemplate);
+  const full = sumEstimates(chunks);
+  const spent = await storage.getUsageCostSince(startOfToday());
+  // No awaits from here until the reservation is added
+  const allowed = runAllowance(budgetStatus(spent));
+
+  let kept = chunks;
+  let note: string | null = null;
+  if (allowed && full.cost > allowed.allowance) {
+    const overLimit = `Estimated cost ${formatCost(full.cost)} exceeds ${allowed.limit}`;
+    if (OVERRUN === "reject") {
+      throw new Error(`${overLimit}. Pick a cheaper model or raise the limit.`);
+    }
+
+    let cost = 0;
+    kept = [];
+    for (const chunk of chunks) {
+      if (cost + chunk.cost > allowed.allowance) break;
+      cost += chunk.cost;
+      kept.push(chunk);
+    }
+    if (kept.length === 0) {
+      throw new Error(`${overLimit}; not even the first chunk of traces fits.`);
+    }
+
+    const traceCount = kept.reduce((total, chunk) => total + chunk.traceCount, 0);
+    note = `${overLimit}, so only the first ${traceCount} of ${traces.length} traces were analyzed.`;
+    console.log(`💸 BUDGET: ${note}`);
+  }
+
+  const estimate = sumEstimates(kept);
+  const reservation = nextReservation++;
+  reservations.set(reservation, { cost: estimate.cost, usage: null });
+
+  return {
+    traces: traces.slice(0, estimate.traceCount),
+    estimate,
+    note,
+    track: (usage) => {
+      const reserved = reservations.get(reservation);
+      if (reserved) reserved.usage = usage;
+    },
+    release: () => reservations.delete(reservation),
+  };
+}
@@ -0,0 +1,382 @@
+import type { ClassificationStat, Cluster, Trace } from "@shared/schema";
+import { normalizeClusterName } from "@shared/clusters";
+import { storage } from "../storage";
+import { formatTraceForPrompt } from "../parsers";
+import { getProvider } from "./providers";
+import { meter } from "./usage";
+import { mapWithConcurrency } from "./utils";
+
+export type ClusterEdit =
+  | { op: "merge"; cluster: string; target: string }
+  | { op: "rename"; cluster: string; name: string; description?: string }
+  | { op: "delete"; cluster: string }
+  | { op: "split"; cluster: string; into: Array<{ name: string; description?: string }> };
+
+type ClusterProvenance = {
+  definingPrompt: string;
+  sourceMessageId?: string;
+};
+
+const SPLIT_CHUNK_SIZE = 150;
+const SPLIT_MAX_TRACE_CHARS = 300;
+const MAX_RESPONSE_CATEGORIES = 12;
+
+function findCluster(clusters: Cluster[], name: string): Cluster | undefined {
+  const normalized = normalizeClusterName(name);
+  return clusters.find(cluster => normalizeClusterName(cluster.name) === normalized);
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+// Fold the reasoning model's tags into the analysis's clusters; a tag that matches an existing cluster adds members to it
+export async function recordClustersFromTags(
+  analysisId: number,
+  tracesWithTags: Array<{ traceId: string; tags: string[] }>,
+  provenance: ClusterProvenance
+): Promise<Cluster[]> {
+  const membersByTag = new Map<string, { name: string; traceIds: string[] }>();
+  for (const { traceId, tags } of tracesWithTags) {
+    for (const tag of tags) {
+      const key = normalizeClusterName(tag);
+      // "selected" is a marker the reasoning model sometimes adds, not a category
+      if (!key || key === "selected") continue;
+      const entry = membersByTag.get(key) ?? { name: tag, traceIds: [] };
+      entry.traceIds.push(traceId);
+      membersByTag.set(key, entry);
+    }
+  }
+
+  const existing = await storage.getClustersByAnalysis(analysisId);
+  let created = 0;
+  let updated = 0;
+
+  for (const { name, traceIds } of Array.from(membersByTag.values())) {
+    const cluster = findCluster(existing, name);
+    if (cluster) {
+      const merged = union(cluster.traceIds, traceIds);
+      if (merged.length !== cluster.traceIds.length) {
+        await storage.updateCluster(cluster.id, { traceIds: merged });
+        updated++;
+      }
+    } else {
+      await storage.createCluster({
+        analysisId,
+        name,
+        description: null,
+        definingPrompt: provenance.definingPrompt,
+        traceIds: union([], traceIds),
+        sourceMessageId: provenance.sourceMessageId ?? null,
+      });
+      created++;
+    }
+  }
+
+  console.log(`🏷️ CLUSTERS: ${created} created, ${updated} updated from ${membersByTag.size} tags`);
+  return storage.getClustersByAnalysis(analysisId);
+}
+
+// Categories in a chat answer are its markdown headers, or standalone bold lines when it has none
+export function extractResponseCategories(response: string): string[] {
+  const clean = (line: string) => line
+    .replace(/^#{1,4}\s+/, "")
+    .replace(/^\d+[.)]\s*/, "")
+    .replace(/\*\*/g, "")
+    .replace(/[:：]\s*$/, "")
+    .trim();
+
+  const lines = response.split("\n").map(line => line.trim());
+  let categories = lines.filter(line => /^#{1,4}\s+\S/.test(line)).map(clean);
+  if (categories.length === 0) {
+    categories = lines.filter(line => /^(\d+[.)]\s*)?\*\*[^*]+\*\*:?$/.test(line)).map(clean);
+  }
+
+  const seen = new Set<string>();
+  return categories
+    .filter(category => {
+      const key = normalizeClusterName(category);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_RESPONSE_CATEGORIES);
+}
+
+// Store a full-corpus classification: each category's members are folded into the cluster of the same name
+export async function recordClassification(
+  analysisId: number,
+  membersByCategory: Map<string, string[]>,
+  totalTraces: number,
+  provenance: ClusterProvenance
+): Promise<ClassificationStat[]> {
+  const existing = await storage.getClustersByAnalysis(analysisId);
+  const stats: ClassificationStat[] = [];
+
+  for (const [category, traceIds] of Array.from(membersByCategory.entries())) {
+    const cluster = findCluster(existing, category);
+    let clusterId: number;
+    if (cluster) {
+      const merged = union(cluster.traceIds, traceIds);
+      if (merged.length !== cluster.traceIds.length) {
+        await storage.updateCluster(cluster.id, { traceIds: merged });
+      }
+      clusterId = cluster.id;
+    } else {
+      const created = await storage.createCluster({
+        analysisId,
+        name: category,
+        description: null,
+        definingPrompt: provenance.definingPrompt,
+        traceIds: union([], traceIds),
+        sourceMessageId: provenance.sourceMessageId ?? null,
+      });
+      clusterId = created.id;
+    }
+
+    stats.push({
+      category,
+      clusterId,
+      count: traceIds.length,
+      percentage: totalTraces > 0 ? Math.round((traceIds.length / totalTraces) * 1000) / 10 : 0,
+    });
+  }
+
+  console.log(`🗂️ CLASSIFICATION RECORDED: ${stats.map(stat => `${stat.category}=${stat.count}`).join(", ")}`);
+  return stats;
+}
+
+export async function mergeClusters(source: Cluster, target: Cluster): Promise<Cluster | undefined> {
+  const merged = await storage.updateCluster(target.id, { traceIds: union(target.traceIds, source.traceIds) });
+  await storage.deleteCluster(source.id);
+  return merged;
+}
+
+// Cheap gate so ordinary questions don't pay for an extra model call
+export function looksLikeClusterEdit(query: string, clusters: Cluster[]): boolean {
+  if (clusters.length === 0) return false;
+  if (!/\b(merge|combine|split|rename|delete|remove|drop)\b/i.test(query)) return false;
+
+  const normalizedQuery = normalizeClusterName(query);
+  return /\bclusters?\b/i.test(query) || clusters.some(cluster => {
+    const name = normalizeClusterName(cluster.name);
+    return name !== "" && normalizedQuery.includes(name);
+  });
+}
+
+export async function planClusterEdits(
+  query: string,
+  clusters: Cluster[],
+  model: string,
+  signal?: AbortSignal
+): Promise<ClusterEdit[]> {
+  const editFunction = {
+    name: "edit_clusters",
+    description: "Apply the cluster edits the user asked for. Return an empty list if the message is not a cluster edit.",
+    parameters: {
+      type: "object",
+      properties: {
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              op: { type: "string", enum: ["merge", "rename", "delete", "split"] },
+              cluster: { type: "string", description: "Exact name of the cluster being edited (for merge: the one merged away)" },
+              target: { type: "string", description: "merge only: exact name of the cluster that absorbs it" },
+              name: { type: "string", description: "rename only: the new name" },
+              description: { type: "string", description: "rename only: optional new description" },
+              into: {
+                type: "array",
+                description: "split only: the new clusters",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    description: { type: "string" }
+                  },
+                  required: ["name"]
+                }
+              }
+            },
+            required: ["op", "cluster"]
+          }
+        }
+      },
+      required: ["edits"]
+    }
+  };
+
+  const prompt = `You manage the clusters a user has built while exploring production traces.
+
+CURRENT CLUSTERS:
+${clusters.map(cluster => `- ${cluster.name} (${cluster.traceIds.length} traces)${cluster.description ? `: ${cluster.description}` : ""}`).join("\n")}
+
+USER MESSAGE:
+${query}
+
+Translate the message into cluster edits. Use the exact cluster names listed above. If the user is asking a question rather than editing clusters, return no edits.`;
+
+  const { provider, model: providerModel } = getProvider(model);
+  const args = await provider.callFunction({
+    model: providerModel,
+    messages: [{ role: "user", content: prompt }],
+    function: editFunction,
+    reasoningEffort: "low",
+    signal,
+    onUsage: meter("clusters", model)
+  });
+
+  const edits: ClusterEdit[] = [];
+  for (const edit of args?.edits ?? []) {
+    if (!edit?.cluster || !findCluster(clusters, edit.cluster)) continue;
+
+    if (edit.op === "merge" && edit.target && findCluster(clusters, edit.target)) {
+      edits.push({ op: "merge", cluster: edit.cluster, target: edit.target });
+    } else if (edit.op === "rename" && edit.name) {
+      edits.push({ op: "rename", cluster: edit.cluster, name: edit.name, description: edit.description });
+    } else if (edit.op === "delete") {
+      edits.push({ op: "delete", cluster: edit.cluster });
+    } else if (edit.op === "split" && Array.isArray(edit.into)) {
+      const into = edit.into.filter((part: any) => part?.name);
+      if (into.length >= 2) edits.push({ op: "split", cluster: edit.cluster, into });
+    }
+  }
+
+  console.log(`✂️ CLUSTER EDITS PLANNED: ${edits.map(edit => edit.op).join(", ") || "none"}`);
+  return edits;
+}
+
+// Ask the model which of the new sub-clusters each member belongs to
+async function splitCluster(
+  cluster: Cluster,
+  into: Array<{ name: string; description?: string }>,
+  traces: Trace[],
+  provenance: ClusterProvenance,
+  model: string,
+  signal?: AbortSignal
+): Promise<{ created: Cluster[]; unassigned: number }> {
+  const names = into.map(part => part.name);
+  const tracesById = new Map(traces.map(trace => [trace.id, trace]));
+  const members = cluster.traceIds.filter(traceId => tracesById.has(traceId));
+  const chunks: string[][] = [];
+  for (let i = 0; i < members.length; i += SPLIT_CHUNK_SIZE) {
+    chunks.push(members.slice(i, i + SPLIT_CHUNK_SIZE));
+  }
+
+  const assignFunction = {
+    name: "assign_traces",
+    description: "Assign each trace to the sub-cluster it fits best",
+    parameters: {
+      type: "object",
+      properties: {
+        assignments: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              line_number: { type: "number" },
+              cluster: { type: "string", enum: names }
+            },
+            required: ["line_number", "cluster"]
+          }
+        }
+      },
+      required: ["assignments"]
+    }
+  };
+
+  const { provider, model: providerModel } = getProvider(model);
+  const assignmentsByChunk = await mapWithConcurrency(chunks, 4, async (chunk) => {
+    const prompt = `The cluster "${cluster.name}" is being split into:
+${into.map(part => `- ${part.name}${part.description ? `: ${part.description}` : ""}`).join("\n")}
+
+TRACES:
+${chunk.map((traceId, index) => `${index + 1}: ${formatTraceForPrompt(tracesById.get(traceId)!).slice(0, SPLIT_MAX_TRACE_CHARS)}`).join("\n")}
+
+Assign every trace to exactly one of the new clusters.`;
+
+    const args = await provider.callFunction({
+      model: providerModel,
+      messages: [{ role: "user", content: prompt }],
+      function: assignFunction,
+      reasoningEffort: "low",
+      signal,
+      onUsage: meter("clusters", model)
+    });
+
+    return (args?.assignments ?? [])
+      .filter((item: any) => chunk[item.line_number - 1] && names.includes(item.cluster))
+      .map((item: any) => ({ traceId: chunk[item.line_number - 1], name: item.cluster as string }));
+  });
+
+  const membersByName = new Map<string, string[]>(names.map(name => [name, []]));
+  const assigned = new Set<string>();
+  for (const { traceId, name } of assignmentsByChunk.flat()) {
+    if (assigned.has(traceId)) continue;
+    assigned.add(traceId);
+    membersByName.get(name)!.push(traceId);
+  }
+
+  const created: Cluster[] = [];
+  for (const part of into) {
+    created.push(await storage.createCluster({
+      analysisId: cluster.analysisId,
+      name: part.name,
+      description: part.description ?? null,
+      definingPrompt: provenance.definingPrompt,
+      traceIds: union([], membersByName.get(part.name) ?? []),
+      sourceMessageId: provenance.sourceMessageId ?? null,
+    }));
+  }
+  await storage.deleteCluster(cluster.id);
+
+  return { created, unassigned: members.length - assigned.size };
+}
+
+// Apply edits in order and describe what happened, one markdown line per edit
+export async function applyClusterEdits(
+  analysisId: number,
+  edits: ClusterEdit[],
+  traces: Trace[],
+  provenance: ClusterProvenance,
+  model: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const summary: string[] = [];
+
+  for (const edit of edits) {
+    // Re-read each time so later edits see the result of earlier ones
+    const clusters = await storage.getClustersByAnalysis(analysisId);
+    const cluster = findCluster(clusters, edit.cluster);
+    if (!cluster) {
+      summary.push(`- Couldn't find a cluster named **${edit.cluster}**`);
+      continue;
+    }
+
+    if (edit.op === "merge") {
+      const target = findCluster(clusters, edit.target);
+      if (!target || target.id === cluster.id) {
+        summary.push(`- Couldn't merge **${cluster.name}** into **${edit.target}**`);
+        continue;
+      }
+      const merged = await mergeClusters(cluster, target);
+      summary.push(`- Merged **${cluster.name}** into **${target.name}** (${merged?.traceIds.length ?? 0} traces)`);
+    } else if (edit.op === "rename") {
+      await storage.updateCluster(cluster.id, {
+        name: edit.name,
+        ...(edit.description ? { description: edit.description } : {}),
+      });
+      summary.push(`- Renamed **${cluster.name}** to **${edit.name}**`);
+    } else if (edit.op === "delete") {
+      await storage.deleteCluster(cluster.id);
+      summary.push(`- Deleted **${cluster.name}**`);
+    } else if (edit.op === "split") {
+      const { created, unassigned } = await splitCluster(cluster, edit.into, traces, provenance, model, signal);
+      const parts = created.map(part => `**${part.name}** (${part.traceIds.length})`).join(", ");
+      summary.push(`- Split **${cluster.name}** into ${parts}${unassigned > 0 ? `; ${unassigned} traces didn't fit any of them` : ""}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import type { ComparisonArm, ComparisonStat, Dataset, PromptComparison, RetrievalStrategy, Trace, TraceEmbeddingIndex } from "@shared/schema";
+import { storage } from "../storage";
+import { analyzeDatasetGapsStreaming, selectRelevantTraces } from "./openai";
+import { EMPTY_CONTEXT } from "./context";
+import { resolvePromptChoice } from "./prompts";
+
+export type ComparisonEvent =
+  | { type: 'content'; arm: number; content: string }
+  | { type: 'reasoning_start'; arm: number }
+  | { type: 'arm_complete'; arm: number; tracesWithTags: Array<{ trace: string; traceId: string; tags: string[] }> };
+
+// A setup to compare, with its prompt already resolved
+export type ComparisonSetup = Pick<ComparisonArm, 'model' | 'promptId' | 'promptName' | 'prompt'>;
+
+const ARM_LABELS = ["A", "B"] as const;
+
+export async function resolveComparisonSetup(input: { model?: unknown; promptId?: unknown; prompt?: unknown }): Promise<ComparisonSetup> {
+  if (typeof input.model !== 'string' || !input.model) {
+    throw new Error('Each setup needs a model');
+  }
+  return { model: input.model, ...await resolvePromptChoice('analysis', input) };
+}
+
+// Answer one question with each setup in parallel. Both arms get the same trace sample through the shared seed
+// and no chat history, so the prompt and model are the only differences.
+export async function runComparison(options: {
+  analysisId: number;
+  traces: Trace[];
+  embeddings?: TraceEmbeddingIndex | null;
+  datasets: Dataset[];
+  query: string;
+  setups: ComparisonSetup[];
+  reasoningModel: string;
+  reasoningPrompt: string;
+  maxTraces: number;
+  strategy: RetrievalStrategy;
+  seed: number;
+  signal?: AbortSignal;
+  onEvent: (event: ComparisonEvent) => void;
+}): Promise<PromptComparison> {
+  const { analysisId, traces, embeddings, datasets, query, setups, reasoningModel, reasoningPrompt, maxTraces, strategy, seed, signal, onEvent } = options;
+  console.log(`⚖️ COMPARISON: "${query}" | ${setups.map(setup => `${setup.promptName} @ ${setup.model}`).join(' vs ')} | Seed=${seed}`);
+
+  const arms = await Promise.all(setups.map(async (setup, arm): Promise<ComparisonArm> => {
+    const result = await analyzeDatasetGapsStreaming(
+      traces,
+      datasets,
+      query,
+      setup.model,
+      reasoningModel,
+      (content) => onEvent({ type: 'content', arm, content }),
+      setup.prompt,
+      EMPTY_CONTEXT,
+      signal,
+      maxTraces,
+      undefined,
+      { strategy, embeddings, seed }
+    );
+
+    onEvent({ type: 'reasoning_start', arm });
+    const tracesWithTags = await selectRelevantTraces(
+      traces,
+      query,
+      result.response,
+      reasoningModel,
+      reasoningPrompt,
+      EMPTY_CONTEXT,
+      signal,
+      result.selectedTraces
+    );
+    onEvent({ type: 'arm_complete', arm, tracesWithTags });
+
+    return {
+      label: ARM_LABELS[arm],
+      ...setup,
+      response: result.response,
+      traceIds: tracesWithTags.map(({ traceId }) => traceId),
+    };
+  }));
+
+  return storage.createComparison({ analysisId, query, seed, arms });
+}
+
+// Wins, losses and ties per prompt version (or unsaved prompt text) and model across every voted comparison, best win rate first
+export function summarizeVotes(comparisons: PromptComparison[]): ComparisonStat[] {
+  const stats = new Map<string, ComparisonStat>();
+
+  for (const comparison of comparisons) {
+    if (!comparison.winner) continue;
+    for (const arm of comparison.arms) {
+      // Saved prompts group by version; unsaved ones by their text, labeled with a short hash so they can be told apart
+      const bodyHash = createHash("sha256").update(arm.prompt).digest("hex").slice(0, 8);
+      const promptKey = arm.promptId !== null ? `#${arm.promptId}` : bodyHash;
+      const key = `${promptKey}\u0000${arm.model}`;
+      const promptName = arm.promptId !== null ? arm.promptName : `${arm.promptName} (${bodyHash})`;
+      const stat = stats.get(key) ?? { promptName, model: arm.model, wins: 0, losses: 0, ties: 0 };
+      if (comparison.winner === 'tie') stat.ties++;
+      else if (comparison.winner === arm.label) stat.wins++;
+      else stat.losses++;
+      stats.set(key, stat);
+    }
+  }
+
+  const winRate = (stat: ComparisonStat) => (stat.wins + stat.ties / 2) / (stat.wins + stat.losses + stat.ties);
+  return Array.from(stats.values()).sort((a, b) => winRate(b) - winRate(a) || b.wins - a.wins);
+}
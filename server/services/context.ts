@@ -0,0 +1,136 @@
+import type { Conversation, Message } from "@shared/schema";
+import { storage } from "../storage";
+import { getProvider } from "./providers";
+import { meter } from "./usage";
+
+export type ChatTurn = { type: 'user' | 'assistant'; content: string };
+
+// What the prompt builders get: the running summary plus the turns after it, verbatim
+export interface ConversationContext {
+  summary: string | null;
+  turns: ChatTurn[];
+  summarizedMessages: number;
+}
+
+export const EMPTY_CONTEXT: ConversationContext = { summary: null, turns: [], summarizedMessages: 0 };
+
+export interface ContextUsage {
+  tokens: number;
+  budget: number;
+  summarizedMessages: number;
+  verbatimMessages: number;
+  droppedMessages: number;
+}
+
+// Token budgets for the {conversation} part of each prompt
+export const ANALYSIS_CONTEXT_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 6000;
+export const REASONING_CONTEXT_BUDGET = 1500;
+
+// Older turns are rolled into the summary once the verbatim history grows past this, keeping the latest few as they are
+const HISTORY_TOKEN_BUDGET = Math.floor(ANALYSIS_CONTEXT_BUDGET * 0.6);
+const MIN_VERBATIM_MESSAGES = 4;
+
+// Rough count (~4 characters per token) - close enough for budgeting without a tokenizer per model
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatTurn(turn: ChatTurn): string {
+  return `${turn.type === 'user' ? 'User' : 'AI'}: ${turn.content}`;
+}
+
+// Summarize whatever no longer fits the history budget and store the new summary with the conversation
+export async function prepareConversationContext(
+  conversation: Conversation,
+  messages: Message[],
+  model: string,
+  abortSignal?: AbortSignal
+): Promise<ConversationContext> {
+  let summarizedMessages = Math.min(conversation.summarizedMessageCount, messages.length);
+  let summary = conversation.summary;
+  let turns: ChatTurn[] = messages.slice(summarizedMessages).map(({ type, content }) => ({ type, content }));
+
+  let overflow = 0;
+  let historyTokens = turns.reduce((total, turn) => total + estimateTokens(formatTurn(turn)), 0);
+  while (historyTokens > HISTORY_TOKEN_BUDGET && turns.length - overflow > MIN_VERBATIM_MESSAGES) {
+    historyTokens -= estimateTokens(formatTurn(turns[overflow]));
+    overflow++;
+  }
+  if (overflow === 0) {
+    return { summary, turns, summarizedMessages };
+  }
+
+  try {
+    const startTime = Date.now();
+    summary = await summarizeTurns(summary, turns.slice(0, overflow), model, abortSignal);
+    summarizedMessages += overflow;
+    turns = turns.slice(overflow);
+    await storage.updateConversation(conversation.id, { summary, summarizedMessageCount: summarizedMessages });
+    console.log(`🧾 CONTEXT: summarized ${overflow} more messages (${summarizedMessages} total) in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    // The builder still drops the oldest turns to stay within budget
+    console.error('❌ Conversation summary failed:', error);
+  }
+
+  return { summary, turns, summarizedMessages };
+}
+
+async function summarizeTurns(previousSummary: string | null, turns: ChatTurn[], model: string, abortSignal?: AbortSignal): Promise<string> {
+  const prompt = `You keep a running summary of a conversation between a user and an AI analyzing production traces. Fold the new turns into the summary. Keep the questions asked, the categories and patterns the AI reported (with numbers), and any conclusions or follow-ups the user cares about. Write at most 250 words.
+
+CURRENT SUMMARY:
+${previousSummary || "(empty)"}
+
+NEW TURNS:
+${turns.map(formatTurn).join("\n\n")}
+
+Return only the updated summary.`;
+
+  const { provider, model: providerModel } = getProvider(model);
+  const summary = await provider.complete({
+    model: providerModel,
+    messages: [{ role: "user", content: prompt }],
+    signal: abortSignal,
+    onUsage: meter("summary", model),
+  });
+  return summary.trim();
+}
+
+// Format the conversation for a prompt within `budget` tokens. `finalTurns` (the current question and
+// answer) are always kept; older turns are dropped whole, oldest first, so no message is cut halfway.
+export function buildConversationContext(
+  context: ConversationContext,
+  finalTurns: ChatTurn[],
+  budget: number
+): { text: string; usage: ContextUsage } {
+  const summaryBlock = context.summary ? `Summary of the earlier conversation:\n${context.summary}` : '';
+  let finalBlock = finalTurns.map(formatTurn).join('\n\n');
+
+  // Only a single oversized answer can blow the budget on its own; keep its beginning
+  const reserved = estimateTokens(summaryBlock);
+  if (estimateTokens(finalBlock) + reserved > budget) {
+    finalBlock = finalBlock.slice(0, Math.max(0, budget - reserved) * 4) + '\n[truncated]';
+  }
+
+  let remaining = budget - reserved - estimateTokens(finalBlock);
+  const kept: string[] = [];
+  for (let i = context.turns.length - 1; i >= 0; i--) {
+    const formatted = formatTurn(context.turns[i]);
+    const tokens = estimateTokens(formatted);
+    if (tokens > remaining) break;
+    kept.unshift(formatted);
+    remaining -= tokens;
+  }
+
+  const text = [summaryBlock, ...kept, finalBlock].filter(Boolean).join('\n\n');
+  return {
+    text,
+    usage: {
+      tokens: estimateTokens(text),
+      budget,
+      summarizedMessages: context.summarizedMessages,
+      verbatimMessages: kept.length,
+      droppedMessages: context.turns.length - kept.length,
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { EventEmitter } from "events";
+import type { Trace, TraceInsight } from "@shared/schema";
+import { storage } from "../storage";
+import { formatTraceForPrompt } from "../parsers";
+import { getProvider, listModels } from "./providers";
+import { meter, withUsageScope } from "./usage";
+import { shuffleArray } from "./utils";
+
+export type CopilotEvent =
+  | { type: 'status'; reviewed: number; total: number; running: boolean }
+  | { type: 'insight'; insight: TraceInsight };
+
+// How many unseen traces each round looks at, and how long to wait between rounds
+const COPILOT_SAMPLE_SIZE = Number(process.env.COPILOT_SAMPLE_SIZE) || 40;
+const COPILOT_INTERVAL_MS = Number(process.env.COPILOT_INTERVAL_MS) || 60_000;
+const COPILOT_MAX_TRACE_CHARS = 1500;
+const COPILOT_MAX_FAILURES = 3;
+
+const INSIGHT_STYLES: Record<string, { icon: string; color: string }> = {
+  anomaly: { icon: "AlertTriangle", color: "red" },
+  novel_pattern: { icon: "Sparkles", color: "purple" },
+  failure_mode: { icon: "XCircle", color: "orange" },
+  user_behavior: { icon: "Users", color: "blue" },
+};
+
+type CopilotState = {
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  reviewed: number;
+  total: number;
+  failures: number;
+};
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+const workers = new Map<number, CopilotState>();
+
+function emit(analysisId: number, event: CopilotEvent) {
+  events.emit(`copilot:${analysisId}`, event);
+}
+
+function emitStatus(analysisId: number, state: CopilotState) {
+  emit(analysisId, { type: 'status', reviewed: state.reviewed, total: state.total, running: state.running || state.timer !== null });
+}
+
+function copilotModel(): string | undefined {
+  return process.env.COPILOT_MODEL || listModels().find(model => model.roles.includes("reasoning"))?.value;
+}
+
+// Start reviewing an analysis in the background. Safe to call repeatedly, e.g. from every feed subscription after a restart.
+export function startCopilot(analysisId: number) {
+  if (process.env.COPILOT_DISABLED === "true" || workers.has(analysisId)) return;
+
+  const state: CopilotState = { timer: null, running: false, reviewed: 0, total: 0, failures: 0 };
+  workers.set(analysisId, state);
+  scheduleRound(analysisId, state, 0);
+}
+
+export function subscribeToCopilot(analysisId: number, listener: (event: CopilotEvent) => void): () => void {
+  const state = workers.get(analysisId);
+  if (state) {
+    listener({ type: 'status', reviewed: state.reviewed, total: state.total, running: state.running || state.timer !== null });
+  }
+
+  events.on(`copilot:${analysisId}`, listener);
+  return () => {
+    events.off(`copilot:${analysisId}`, listener);
+  };
+}
+
+function scheduleRound(analysisId: number, state: CopilotState, delay: number) {
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    withUsageScope({ analysisId }, () => runRound(analysisId, state))
+      .then(hasMore => {
+        state.failures = 0;
+        if (hasMore) {
+          scheduleRound(analysisId, state, COPILOT_INTERVAL_MS);
+        }
+        emitStatus(analysisId, state);
+      })
+      .catch(error => {
+        console.error(`❌ COPILOT ${analysisId}: round failed:`, error);
+        if (++state.failures < COPILOT_MAX_FAILURES) {
+          scheduleRound(analysisId, state, COPILOT_INTERVAL_MS);
+        } else {
+          // Give up until the next feed subscription restarts it
+          workers.delete(analysisId);
+        }
+        emitStatus(analysisId, state);
+      });
+  }, delay);
+  // Don't keep the process alive just for the copilot
+  state.timer.unref();
+}
+
+// One pass over a sample of unseen traces. Returns whether any traces are left to review.
+async function runRound(analysisId: number, state: CopilotState): Promise<boolean> {
+  const analysis = await storage.getAnalysis(analysisId);
+  if (!analysis) {
+    console.log(`⚠️ COPILOT ${analysisId}: analysis is gone, stopping`);
+    workers.delete(analysisId);
+    return false;
+  }
+
+  const reviewed = new Set(analysis.copilotReviewed ?? []);
+  const unseen = analysis.traces.filter(trace => !reviewed.has(trace.id));
+  state.total = analysis.traces.length;
+  state.reviewed = state.total - unseen.length;
+  if (unseen.length === 0) {
+    console.log(`🧭 COPILOT ${analysisId}: all ${state.total} traces reviewed`);
+    return false;
+  }
+
+  const model = copilotModel();
+  if (!model) {
+    console.log(`⚠️ COPILOT ${analysisId}: no reasoning model configured, stopping`);
+    workers.delete(analysisId);
+    return false;
+  }
+
+  state.running = true;
+  emitStatus(analysisId, state);
+
+  const sample = shuffleArray(unseen).slice(0, COPILOT_SAMPLE_SIZE);
+  const startTime = Date.now();
+  console.log(`🧭 COPILOT ${analysisId}: reviewing ${sample.length} of ${unseen.length} unseen traces | Model=${model}`);
+
+  try {
+    const [previous, clusters] = await Promise.all([
+      storage.getInsightsByAnalysis(analysisId),
+      storage.getClustersByAnalysis(analysisId),
+    ]);
+    const findings = await findInsights(sample, previous, clusters.map(cluster => cluster.name), model);
+
+    for (const finding of findings) {
+      const insight = await storage.createInsight({ analysisId, model, ...INSIGHT_STYLES[finding.category], ...finding });
+      emit(analysisId, { type: 'insight', insight });
+    }
+
+    sample.forEach(trace => reviewed.add(trace.id));
+    await storage.updateAnalysis(analysisId, { copilotReviewed: Array.from(reviewed) });
+    state.reviewed = reviewed.size;
+
+    console.log(`🧭 COPILOT ${analysisId}: ${findings.length} findings in ${Date.now() - startTime}ms | Reviewed ${state.reviewed}/${state.total}`);
+    return state.reviewed < state.total;
+  } finally {
+    state.running = false;
+  }
+}
+
+async function findInsights(
+  sample: Trace[],
+  previous: TraceInsight[],
+  clusterNames: string[],
+  model: string
+): Promise<Array<{ category: string; title: string; description: string; traceIds: string[] }>> {
+  const reportFunction = {
+    name: "report_findings",
+    description: "Report noteworthy findings in the traces. Return an empty list if nothing stands out.",
+    parameters: {
+      type: "object",
+      properties: {
+        findings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              category: { type: "string", enum: Object.keys(INSIGHT_STYLES) },
+              title: { type: "string", description: "Short headline for the finding" },
+              description: { type: "string", description: "One or two sentences explaining what was found and why it matters" },
+              line_numbers: {
+                type: "array",
+                items: { type: "number" },
+                description: "Line numbers of the traces that show the finding"
+              }
+            },
+            required: ["category", "title", "description", "line_numbers"]
+          }
+        }
+      },
+      required: ["findings"]
+    }
+  };
+
+  const prompt = `You are a reasoning copilot reviewing production traces in the background. Look for anomalies, novel patterns, failure modes and unusual user behavior that a person skimming the traces would miss.
+
+TRACES:
+${sample.map((trace, index) => `${index + 1}: ${formatTraceForPrompt(trace).slice(0, COPILOT_MAX_TRACE_CHARS)}`).join("\n")}
+
+ALREADY REPORTED (don't repeat these):
+${previous.map(insight => `- ${insight.title}`).join("\n") || "- nothing yet"}
+
+CLUSTERS THE USER ALREADY KNOWS ABOUT:
+${clusterNames.map(name => `- ${name}`).join("\n") || "- none"}
+
+Report at most 3 findings, each backed by the traces that show it. Only report something genuinely interesting.`;
+
+  const { provider, model: providerModel } = getProvider(model);
+  const args = await provider.callFunction({
+    model: providerModel,
+    messages: [{ role: "user", content: prompt }],
+    function: reportFunction,
+    reasoningEffort: "medium",
+    onUsage: meter("copilot", model),
+  });
+
+  return (args?.findings ?? [])
+    .filter((finding: any) => finding?.title && finding.description && INSIGHT_STYLES[finding.category])
+    .map((finding: any) => ({
+      category: finding.category as string,
+      title: finding.title as string,
+      description: finding.description as string,
+      traceIds: (Array.isArray(finding.line_numbers) ? finding.line_numbers : [])
+        .filter((lineNumber: number) => sample[lineNumber - 1])
+        .map((lineNumber: number) => sample[lineNumber - 1].id)
+        .filter((traceId: string, index: number, traceIds: string[]) => traceIds.indexOf(traceId) === index),
+    }))
+    .filter((finding: { traceIds: string[] }) => finding.traceIds.length > 0)
+    .slice(0, 3);
+}
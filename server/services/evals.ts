@@ -0,0 +1,129 @@
+import type { EvalCase, EvalCaseResult, EvalMetrics, EvalRun, EvalSet, Trace } from "@shared/schema";
+import { storage } from "../storage";
+import { selectRelevantTraces } from "./openai";
+import { EMPTY_CONTEXT } from "./context";
+import { mapWithConcurrency, shuffleArray } from "./utils";
+import { withUsageScope } from "./usage";
+
+// Same candidate pool size the chat uses for the reasoning step
+const EVAL_CANDIDATE_COUNT = 250;
+const EVAL_CASE_CONCURRENCY = 2;
+
+export type EvalSetup = { model: string; promptId: number | null; promptName: string; prompt: string };
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+function overlap(a: string[], b: string[]): number {
+  const left = new Set(a.map(normalizeTag));
+  const right = new Set(b.map(normalizeTag));
+  const union = new Set([...Array.from(left), ...Array.from(right)]);
+  if (union.size === 0) return 1;
+  return Array.from(left).filter(tag => right.has(tag)).length / union.size;
+}
+
+export function scoreCase(evalCase: EvalCase, selected: Array<{ traceId: string; tags: string[] }>): EvalCaseResult {
+  const expectedById = new Map(evalCase.expected.map(item => [item.traceId, item.tags]));
+  const hits = selected.filter(item => expectedById.has(item.traceId));
+
+  const precision = selected.length > 0 ? hits.length / selected.length : 0;
+  const recall = expectedById.size > 0 ? hits.length / expectedById.size : 1;
+  const tagScores = hits.map(item => overlap(item.tags, expectedById.get(item.traceId) ?? []));
+
+  return {
+    question: evalCase.question,
+    selected,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    tagAgreement: tagScores.length > 0 ? tagScores.reduce((sum, score) => sum + score, 0) / tagScores.length : null,
+  };
+}
+
+// Averaged per case, so a large case doesn't drown out the rest
+export function aggregateMetrics(results: EvalCaseResult[]): EvalMetrics {
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const tagScores = results.map(result => result.tagAgreement).filter((score): score is number => score !== null);
+  const precision = mean(results.map(result => result.precision));
+  const recall = mean(results.map(result => result.recall));
+
+  return {
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    tagAgreement: tagScores.length > 0 ? mean(tagScores) : null,
+  };
+}
+
+// The expected traces plus a fixed random fill, shuffled so the gold traces don't sit at the top
+function candidatesFor(evalCase: EvalCase, traces: Trace[], caseIndex: number) {
+  const tracesWithIndexes = traces.map((trace, index) => ({ trace, originalIndex: index + 1 }));
+  const expectedIds = new Set(evalCase.expected.map(item => item.traceId));
+  const expected = tracesWithIndexes.filter(({ trace }) => expectedIds.has(trace.id));
+  const fill = shuffleArray(tracesWithIndexes.filter(({ trace }) => !expectedIds.has(trace.id)), caseIndex + 1)
+    .slice(0, Math.max(0, EVAL_CANDIDATE_COUNT - expected.length));
+  return shuffleArray([...expected, ...fill], caseIndex + 1);
+}
+
+// Record a run and replay the set in the background; the run row is updated when it finishes
+export async function startEvalRun(evalSet: EvalSet, traces: Trace[], setup: EvalSetup): Promise<EvalRun> {
+  const run = await storage.createEvalRun({
+    evalSetId: evalSet.id,
+    model: setup.model,
+    promptId: setup.promptId,
+    promptName: setup.promptName,
+    status: 'running',
+  });
+
+  withUsageScope({ analysisId: evalSet.analysisId }, () => runEval(run.id, evalSet, traces, setup)).catch(async error => {
+    console.error(`❌ EVAL RUN ${run.id} failed:`, error);
+    await storage.updateEvalRun(run.id, {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Eval run failed',
+      completedAt: new Date(),
+    }).catch(updateError => console.error('Failed to record eval run error:', updateError));
+  });
+
+  return run;
+}
+
+async function runEval(runId: number, evalSet: EvalSet, traces: Trace[], setup: EvalSetup) {
+  const startTime = Date.now();
+  console.log(`🧪 EVAL RUN ${runId}: "${evalSet.name}" | ${evalSet.cases.length} cases | Model=${setup.model} | Prompt=${setup.promptName}`);
+
+  const caseResults = await mapWithConcurrency(evalSet.cases, EVAL_CASE_CONCURRENCY, async (evalCase, caseIndex) => {
+    try {
+      const selected = await selectRelevantTraces(
+        traces,
+        evalCase.question,
+        evalCase.response,
+        setup.model,
+        setup.prompt,
+        EMPTY_CONTEXT,
+        undefined,
+        candidatesFor(evalCase, traces, caseIndex)
+      );
+      return scoreCase(evalCase, selected.map(({ traceId, tags }) => ({ traceId, tags })));
+    } catch (error) {
+      return { ...scoreCase(evalCase, []), error: error instanceof Error ? error.message : 'Case failed' };
+    }
+  });
+
+  // Failed cases are kept in the results but left out of the scores, and the run says how many failed
+  const scored = caseResults.filter(result => !result.error);
+  const failed = caseResults.length - scored.length;
+  if (caseResults.length > 0 && scored.length === 0) {
+    await storage.updateEvalRun(runId, { status: 'error', caseResults, error: `All ${failed} cases failed: ${caseResults[0].error}`, completedAt: new Date() });
+    console.error(`❌ EVAL RUN ${runId}: all ${failed} cases failed in ${Date.now() - startTime}ms`);
+    return;
+  }
+
+  const metrics = aggregateMetrics(scored);
+  await storage.updateEvalRun(runId, {
+    status: failed > 0 ? 'partial' : 'completed',
+    metrics,
+    caseResults,
+    error: failed > 0 ? `${failed} of ${caseResults.length} cases failed; scores cover the other ${scored.length}` : null,
+    completedAt: new Date(),
+  });
+  console.log(`🧪 EVAL RUN ${runId}: P=${metrics.precision.toFixed(2)} R=${metrics.recall.toFixed(2)} F1=${metrics.f1.toFixed(2)} (${failed} failed cases) in ${Date.now() - startTime}ms`);
+}
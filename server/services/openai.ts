@@ -1,51 +1,39 @@
-import OpenAI from "openai";
 import { storage } from "../storage";
 import { DEFAULT_PROMPTS } from "@shared/config";
-
-// Fisher-Yates shuffle algorithm with optional seed
-function shuffleArray<T>(array: T[], seed?: number): T[] {
-  const shuffled = [...array];
-  
-  // Simple seeded random number generator (LCG)
-  let rng = seed !== undefined ? seed : Math.floor(Math.random() * 1000000);
-  const seededRandom = () => {
-    rng = (rng * 9301 + 49297) % 233280;
-    return rng / 233280;
-  };
-
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(seededRandom() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({
-  apiKey:
-    process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "",
-});
+import { renderTemplate } from "@shared/template";
+import type { RetrievalStrategy, Trace, TraceEmbeddingIndex } from "@shared/schema";
+import { formatTraceDetailForPrompt, formatTraceForPrompt } from "../parsers";
+import { getProvider } from "./providers";
+import { meter } from "./usage";
+import { mapWithConcurrency, shuffleArray } from "./utils";
+import { selectTracesForQuery } from "./retrieval";
+import { ANALYSIS_CONTEXT_BUDGET, REASONING_CONTEXT_BUDGET, EMPTY_CONTEXT, buildConversationContext, estimateTokens, type ContextUsage, type ConversationContext } from "./context";
 
 export async function analyzeDatasetGapsStreaming(
-  langsmithContent: string,
+  traces: Trace[],
   datasets: Array<{ id: number; name: string; filename: string; content: any; description?: string | null; size: number; createdAt: Date }>,
   userQuery: string,
   model: string = "gpt-4o",
   reasoningModel: string = "o4-mini",
   onChunk: (chunk: string) => void,
   customPrompt?: string,
-  chatHistory?: Array<{ id: string; type: 'user' | 'assistant'; content: string; timestamp: number }>,
+  conversation: ConversationContext = EMPTY_CONTEXT,
   abortSignal?: AbortSignal,
   maxTracesForAnalysis: number = 250, // Renamed and use same count for both analysis and reasoning
-  onResponseReady?: (response: string, selectedTraces: Array<{ trace: string; originalIndex: number }>) => void // Callback when complete response is ready
+  onResponseReady?: (response: string, selectedTraces: Array<{ trace: Trace; originalIndex: number }>) => void, // Callback when complete response is ready
+  retrieval: {
+    strategy: RetrievalStrategy;
+    embeddings?: TraceEmbeddingIndex | null;
+    seed?: number;
+    fullTrace?: boolean; // The question is about a single trace: show its whole span tree
+  } = { strategy: "random" }
 ): Promise<{
   response: string;
   examples: string[];
   quickTraces?: Array<{ trace: string; tags: string[] }>;
-  selectedTraces?: Array<{ trace: string; originalIndex: number }>;
+  selectedTraces?: Array<{ trace: Trace; originalIndex: number }>;
+  contextUsage?: ContextUsage;
 }> {
-  const traces = langsmithContent.split("\n").filter((line) => line.trim() !== "");
-
   if (traces.length === 0) {
     return {
       response: "ERROR: No traces found in the uploaded data.",
@@ -56,21 +44,21 @@ export async function analyzeDatasetGapsStreaming(
   }
 
   // Use same trace count for both analysis and reasoning for consistency
-  const tracesWithIndexes = traces.map((trace, index) => ({ 
-    trace, 
-    originalIndex: index + 1 
-  }));
-  
-  // Create deterministic seed based on content hash for consistent shuffling
-  const contentSeed = traces.join('').length % 100000;
-  const shuffledTraces = shuffleArray(tracesWithIndexes, contentSeed);
-  const selectedTraces = shuffledTraces.slice(0, Math.min(maxTracesForAnalysis, traces.length));
+  const selectedTraces = await selectTracesForQuery(
+    traces,
+    userQuery,
+    maxTracesForAnalysis,
+    retrieval.strategy,
+    retrieval.embeddings,
+    abortSignal,
+    retrieval.seed
+  );
   
   console.log(`📊 TRACE ALLOCATION: Both Analysis & Reasoning=${selectedTraces.length} (from ${traces.length} total)`);
-  console.log(`🎲 SHUFFLE SEED: ${contentSeed} (deterministic based on content)`);
   
   // Create traces section with original line numbers preserved
-  const tracesSection = `${selectedTraces.map(({ trace, originalIndex }) => `${originalIndex}: ${trace}`).join("\n")}
+  const formatTrace = retrieval.fullTrace ? formatTraceDetailForPrompt : formatTraceForPrompt;
+  const tracesSection = `${selectedTraces.map(({ trace, originalIndex }) => `${originalIndex}: ${formatTrace(trace)}`).join("\n")}
 
 📊 FOCUS: These traces are your PRIMARY data source (${selectedTraces.length} traces selected from ${traces.length} total).`;
 
@@ -120,54 +108,55 @@ ${formattedDatasets}
   let analysisPrompt = customPrompt || DEFAULT_PROMPTS.analysis;
 
   // Create conversation context including current question
-  const conversationContext = chatHistory && chatHistory.length > 0 ? 
-    chatHistory.map(msg => `${msg.type === 'user' ? 'User' : 'AI'}: ${msg.content}`).join('\n\n') + `\n\nUser: ${userQuery}` : 
-    `User: ${userQuery}`;
+  const { text: conversationContext, usage: contextUsage } = buildConversationContext(
+    conversation,
+    [{ type: 'user', content: userQuery }],
+    ANALYSIS_CONTEXT_BUDGET
+  );
+  console.log(`🧾 CONTEXT: ~${contextUsage.tokens}/${contextUsage.budget} tokens | ${contextUsage.verbatimMessages} verbatim, ${contextUsage.summarizedMessages} summarized, ${contextUsage.droppedMessages} dropped`);
 
   // Replace variables in the prompt
-  const finalPrompt = analysisPrompt
-    .replace('{conversation}', conversationContext)
-    .replace('{traces}', tracesSection)
-    .replace('{datasets}', datasetsSection);
+  const finalPrompt = renderTemplate(analysisPrompt, {
+    conversation: conversationContext,
+    query: userQuery,
+    traces: tracesSection,
+    datasets: datasetsSection,
+    datasetNames: datasets.map(dataset => dataset.name).join(', ') || 'none',
+    datasetCount: datasets.length,
+    traceCount: traces.length,
+    sampleSize: selectedTraces.length,
+  });
 
   // Log the number of traces being sent to the chat model
   console.log(`📤 SENDING TO CHAT MODEL: ${selectedTraces.length} traces | Model: ${model}`);
 
   try {
-    // First, get the complete response (non-streaming)
-    const completeResponse = await openai.chat.completions.create({
-      model: model,
+    // Stream tokens from the provider and forward each delta as it arrives
+    const { provider, model: providerModel } = getProvider(model);
+    const stream = provider.stream({
+      model: providerModel,
       messages: [{ role: "user", content: finalPrompt }],
-    }, {
-      signal: abortSignal
+      signal: abortSignal,
+      onUsage: meter("analysis", model)
     });
 
-    const fullResponse = completeResponse.choices[0]?.message?.content || '';
-    
+    let fullResponse = '';
+    for await (const delta of stream) {
+      fullResponse += delta;
+      onChunk(delta);
+    }
+
     // Notify that complete response is ready for parallel processing
     if (onResponseReady) {
       onResponseReady(fullResponse, selectedTraces);
     }
 
-    // Now stream the response word by word for UI effect
-    const words = fullResponse.split(' ');
-    for (let i = 0; i < words.length; i++) {
-      if (abortSignal?.aborted) {
-        break;
-      }
-      
-      const word = words[i];
-      onChunk(i === 0 ? word : ' ' + word);
-      
-      // Small delay to simulate streaming
-      await new Promise(resolve => setTimeout(resolve, 20));
-    }
-
     return {
       response: fullResponse,
       examples: [],
       quickTraces: [], // No quick traces, only reasoning model traces
       selectedTraces: selectedTraces, // Pass same traces for reasoning
+      contextUsage,
     };
   } catch (error) {
     console.error("Analysis error:", error);
@@ -176,39 +165,36 @@ ${formattedDatasets}
 }
 
 export async function selectRelevantTraces(
-  langsmithContent: string,
+  traces: Trace[],
   userQuery: string,
   aiResponse: string,
   model: string = "o4-mini",
   customPrompt?: string,
-  chatHistory?: Array<{ id: string; type: 'user' | 'assistant'; content: string; timestamp: number }>,
+  conversation: ConversationContext = EMPTY_CONTEXT,
   abortSignal?: AbortSignal,
-  preSelectedTraces?: Array<{ trace: string; originalIndex: number }>
-): Promise<Array<{ trace: string; tags: string[] }>> {
+  preSelectedTraces?: Array<{ trace: Trace; originalIndex: number }>,
+  existingClusterNames: string[] = []
+): Promise<Array<{ trace: string; traceId: string; tags: string[] }>> {
   const functionStartTime = Date.now();
   console.log(`🚀 REASONING START - Model: ${model}`);
   
   // Step 1: Prepare traces for reasoning
   const tracesPrepStartTime = Date.now();
-  let tracesForReasoning: Array<{ trace: string; originalIndex: number }>;
+  let tracesForReasoning: Array<{ trace: Trace; originalIndex: number }>;
   
   if (preSelectedTraces && preSelectedTraces.length > 0) {
     tracesForReasoning = preSelectedTraces;
     console.log(`📝 Using pre-selected traces: ${tracesForReasoning.length} traces`);
   } else {
-    console.log(`📝 Fallback: Processing traces from langsmith content`);
-    const allTraces = langsmithContent
-      .split("\n")
-      .filter((line) => line.trim() !== "");
-
-    const limitedTraces = allTraces.slice(0, 250);
+    console.log(`📝 Fallback: Processing traces from analysis`);
+    const limitedTraces = traces.slice(0, 250);
     
     const tracesWithIndexes = limitedTraces.map((trace, index) => ({ 
       trace, 
       originalIndex: index + 1 
     }));
     // Use same deterministic seed for consistency
-    const contentSeed = limitedTraces.join('').length % 100000;
+    const contentSeed = limitedTraces.reduce((length, trace) => length + trace.text.length, 0) % 100000;
     tracesForReasoning = shuffleArray(tracesWithIndexes, contentSeed);
   }
   
@@ -217,36 +203,34 @@ export async function selectRelevantTraces(
 
   // Step 2: Optimize function schema - reduce complexity for faster processing
   const schemaStartTime = Date.now();
-  const traceSelectionFunction = [
-    {
-      name: "select_and_tag_traces",
-      description: "Select EXACTLY 20 most relevant traces and tag them",
-      parameters: {
-        type: "object",
-        properties: {
-          selected_traces: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                line_number: { type: "number" },
-                relevance_score: { type: "number" },
-                tags: {
-                  type: "array",
-                  items: { type: "string" },
-                  description: "1-3 specific tags"
-                }
-              },
-              required: ["line_number", "relevance_score", "tags"]
+  const traceSelectionFunction = {
+    name: "select_and_tag_traces",
+    description: "Select EXACTLY 20 most relevant traces and tag them",
+    parameters: {
+      type: "object",
+      properties: {
+        selected_traces: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              line_number: { type: "number" },
+              relevance_score: { type: "number" },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "1-3 specific tags"
+              }
             },
-            minItems: 20,
-            maxItems: 20
-          }
-        },
-        required: ["selected_traces"]
-      }
+            required: ["line_number", "relevance_score", "tags"]
+          },
+          minItems: 20,
+          maxItems: 20
+        }
+      },
+      required: ["selected_traces"]
     }
-  ];
+  };
   
   const schemaDuration = Date.now() - schemaStartTime;
   console.log(`⚡ SCHEMA PREP: ${schemaDuration}ms`);
@@ -255,28 +239,36 @@ export async function selectRelevantTraces(
   const promptStartTime = Date.now();
   let reasoningPrompt = customPrompt || DEFAULT_PROMPTS.reasoning;
 
-  // Optimize conversation context - limit size to reduce tokens
-  const maxConversationLength = 2000;
-  let conversationContext = chatHistory && chatHistory.length > 0 ? 
-    chatHistory.map(msg => `${msg.type === 'user' ? 'User' : 'AI'}: ${msg.content}`).join('\n\n') + 
-    `\n\nUser: ${userQuery}\n\nAI: ${aiResponse}` : 
-    `User: ${userQuery}\n\nAI: ${aiResponse}`;
-    
-  if (conversationContext.length > maxConversationLength) {
-    conversationContext = conversationContext.slice(-maxConversationLength);
-    console.log(`✂️ CONVERSATION TRUNCATED: ${conversationContext.length} chars (was longer)`);
+  // Keep the conversation small - the reasoning model mostly needs the latest answer
+  const { text: conversationContext, usage: contextUsage } = buildConversationContext(
+    conversation,
+    [{ type: 'user', content: userQuery }, { type: 'assistant', content: aiResponse }],
+    REASONING_CONTEXT_BUDGET
+  );
+  if (contextUsage.droppedMessages > 0) {
+    console.log(`✂️ CONVERSATION TRIMMED: ${contextUsage.droppedMessages} older messages left out (~${contextUsage.tokens} tokens)`);
   }
 
   // Optimize traces - limit trace length to reduce tokens
   const maxTraceLength = 200;
   const optimizedTraces = tracesForReasoning.map(({ trace, originalIndex }) => {
-    const truncatedTrace = trace.length > maxTraceLength ? trace.slice(0, maxTraceLength) + '...' : trace;
+    const promptTrace = formatTraceForPrompt(trace);
+    const truncatedTrace = promptTrace.length > maxTraceLength ? promptTrace.slice(0, maxTraceLength) + '...' : promptTrace;
     return `${originalIndex}: ${truncatedTrace}`;
   }).join("\n");
 
-  reasoningPrompt = reasoningPrompt
-    .replace('{conversation}', conversationContext)
-    .replace('{traces}', optimizedTraces);
+  reasoningPrompt = renderTemplate(reasoningPrompt, {
+    conversation: conversationContext,
+    query: userQuery,
+    response: aiResponse,
+    traces: optimizedTraces,
+    traceCount: tracesForReasoning.length,
+  });
+
+  // Reusing cluster names lets tags from this turn accumulate into the clusters built on earlier turns
+  if (existingClusterNames.length > 0) {
+    reasoningPrompt += `\n\nEXISTING CLUSTERS (reuse these exact tag names when a trace fits one of them):\n${existingClusterNames.map(name => `- ${name}`).join('\n')}`;
+  }
 
   const promptDuration = Date.now() - promptStartTime;
   console.log(`⚡ PROMPT BUILD: ${promptDuration}ms`);
@@ -292,14 +284,14 @@ export async function selectRelevantTraces(
       return [];
     }
     
-    const reasoningResponse = await openai.chat.completions.create({
-      model: model,
+    const { provider, model: providerModel } = getProvider(model);
+    const reasoningArgs = await provider.callFunction({
+      model: providerModel,
       messages: [{ role: "user", content: reasoningPrompt }],
-      functions: traceSelectionFunction,
-      function_call: { name: "select_and_tag_traces" },
-      reasoning_effort: "low" // Reduce reasoning time for faster responses
-    }, {
-      signal: abortSignal
+      function: traceSelectionFunction,
+      reasoningEffort: "low", // Reduce reasoning time for faster responses
+      signal: abortSignal,
+      onUsage: meter("reasoning", model)
     });
 
     const apiCallDuration = Date.now() - apiCallStartTime;
@@ -307,29 +299,27 @@ export async function selectRelevantTraces(
 
     // Step 5: Process response with detailed timing
     const processingStartTime = Date.now();
-    let tracesWithTags: Array<{ trace: string; tags: string[] }> = [];
+    let tracesWithTags: Array<{ trace: string; traceId: string; tags: string[] }> = [];
 
-    if (reasoningResponse.choices[0].message.function_call) {
+    if (reasoningArgs) {
       const parseStartTime = Date.now();
       
       try {
-        const reasoningArgs = JSON.parse(reasoningResponse.choices[0].message.function_call.arguments);
-        const parseDuration = Date.now() - parseStartTime;
-        console.log(`⚡ JSON PARSE: ${parseDuration}ms`);
-        
         if (reasoningArgs.selected_traces && reasoningArgs.selected_traces.length > 0) {
           const mappingStartTime = Date.now();
           const selectedTraces = reasoningArgs.selected_traces;
 
-          tracesWithTags = selectedTraces.map((item: any) => {
+          tracesWithTags = selectedTraces.flatMap((item: any) => {
             const lineNumber = item.line_number;
             const matchingTrace = tracesForReasoning.find(t => t.originalIndex === lineNumber);
-            const trace = matchingTrace ? matchingTrace.trace : "";
+            // Line numbers the model made up don't point at any trace
+            if (!matchingTrace) return [];
             
-            return {
-              trace: trace,
+            return [{
+              trace: matchingTrace.trace.text,
+              traceId: matchingTrace.trace.id,
               tags: item.tags || []
-            };
+            }];
           });
           
           const mappingDuration = Date.now() - mappingStartTime;
@@ -370,112 +360,312 @@ export async function selectRelevantTraces(
   }
 }
 
+// originalIndex is the 0-based position in the analysis, kept for the "Line N" labels
+export type BatchJobResult = { trace: string; traceId: string; originalIndex: number; relevanceScore: number; reasoning: string };
+
+export type BatchJobProgress = {
+  completedChunks: number;
+  totalChunks: number;
+  failedChunks: number;
+  matches: number;
+};
+
+// Each chunk must fit comfortably in the model context next to the instructions (~4 chars per token)
+const BATCH_CHUNK_CHAR_BUDGET = 60000;
+const BATCH_MAX_TRACE_CHARS = 2000;
+const BATCH_CHUNK_CONCURRENCY = 4;
+
+// Split traces into windows that stay under the character budget, keeping global indexes
+function chunkTracesForContext(traces: Trace[], charBudget: number, maxTraceChars: number): Array<Array<{ trace: Trace; index: number; line: string }>> {
+  const chunks: Array<Array<{ trace: Trace; index: number; line: string }>> = [];
+  let current: Array<{ trace: Trace; index: number; line: string }> = [];
+  let currentSize = 0;
+
+  traces.forEach((trace, index) => {
+    const promptTrace = formatTraceForPrompt(trace);
+    const truncated = promptTrace.length > maxTraceChars ? promptTrace.slice(0, maxTraceChars) + '...' : promptTrace;
+    const line = `${index + 1}: ${truncated}`;
+
+    if (current.length > 0 && currentSize + line.length > charBudget) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push({ trace, index, line });
+    currentSize += line.length + 1;
+  });
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+function renderBatchPrompt(template: string, query: string, chunk: Array<{ line: string }>, maxResults: number, chunkIndex: number, parts: number): string {
+  return renderTemplate(template, {
+    query,
+    traces: chunk.map(({ line }) => line).join('\n'),
+    maxResults,
+    part: chunkIndex + 1,
+    parts,
+  });
+}
+
+// Rough prompt overhead of the function schema, and output tokens per reported match
+const BATCH_FUNCTION_TOKENS = 150;
+const BATCH_TOKENS_PER_MATCH = 50;
+
+// Token estimate per chunk of a batch job run, in the order the chunks are sent. Chunking is greedy,
+// so the first N chunks of the full run are also the chunks of a run over just their traces.
+export function estimateBatchChunks(
+  traces: Trace[],
+  query: string,
+  maxResults: number,
+  promptTemplate: string = DEFAULT_PROMPTS.batch
+): Array<{ traceCount: number; promptTokens: number; completionTokens: number }> {
+  const chunks = chunkTracesForContext(traces, BATCH_CHUNK_CHAR_BUDGET, BATCH_MAX_TRACE_CHARS);
+  return chunks.map((chunk, chunkIndex) => ({
+    traceCount: chunk.length,
+    promptTokens: estimateTokens(renderBatchPrompt(promptTemplate, query, chunk, maxResults, chunkIndex, chunks.length)) + BATCH_FUNCTION_TOKENS,
+    completionTokens: Math.min(maxResults, chunk.length) * BATCH_TOKENS_PER_MATCH,
+  }));
+}
+
 export async function runBatchJobAnalysis(
-  traces: string[],
+  traces: Trace[],
   query: string,
   maxResults: number = 30,
-  model: string = "gpt-4o"
-): Promise<Array<{ trace: string; originalIndex: number; relevanceScore: number; reasoning: string }>> {
+  model: string = "gpt-4o",
+  onProgress?: (progress: BatchJobProgress) => void,
+  abortSignal?: AbortSignal,
+  promptTemplate: string = DEFAULT_PROMPTS.batch
+): Promise<{ results: BatchJobResult[]; warning?: string }> {
   const startTime = Date.now();
   console.log(`🚀 BATCH JOB START - Query: "${query}" | Model: ${model} | MaxResults: ${maxResults} | Traces: ${traces.length}`);
 
-  try {
-    // Create a function schema for batch job analysis
-    const batchJobFunction = [
-      {
-        name: "analyze_traces_for_batch_job",
-        description: `Analyze traces and find up to ${maxResults} examples that match the query criteria`,
-        parameters: {
-          type: "object",
-          properties: {
-            matching_traces: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  line_number: { type: "number", description: "The line number of the trace (1-based)" },
-                  relevance_score: { type: "number", minimum: 0, maximum: 1, description: "How well this trace matches the query (0-1)" },
-                  reasoning: { type: "string", description: "Brief explanation of why this trace matches the query" }
-                },
-                required: ["line_number", "relevance_score", "reasoning"]
-              },
-              maxItems: maxResults
-            }
+  // Create a function schema for batch job analysis
+  const batchJobFunction = {
+    name: "analyze_traces_for_batch_job",
+    description: `Analyze traces and find up to ${maxResults} examples that match the query criteria`,
+    parameters: {
+      type: "object",
+      properties: {
+        matching_traces: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              line_number: { type: "number", description: "The line number of the trace (1-based)" },
+              relevance_score: { type: "number", minimum: 0, maximum: 1, description: "How well this trace matches the query (0-1)" },
+              reasoning: { type: "string", description: "Brief explanation of why this trace matches the query" }
+            },
+            required: ["line_number", "relevance_score", "reasoning"]
           },
-          required: ["matching_traces"]
+          maxItems: maxResults
         }
-      }
-    ];
+      },
+      required: ["matching_traces"]
+    }
+  };
 
-    // Create the prompt for batch job analysis
-    const tracesWithNumbers = traces.map((trace, index) => `${index + 1}: ${trace}`).join('\n');
-    
-    const prompt = `You are analyzing production traces to find examples that match a specific query.
+  const chunks = chunkTracesForContext(traces, BATCH_CHUNK_CHAR_BUDGET, BATCH_MAX_TRACE_CHARS);
+  const progress: BatchJobProgress = { completedChunks: 0, totalChunks: chunks.length, failedChunks: 0, matches: 0 };
+  let lastError: unknown = null;
+
+  console.log(`🧩 BATCH JOB CHUNKS: ${chunks.length} chunks | Concurrency: ${BATCH_CHUNK_CONCURRENCY}`);
+  onProgress?.({ ...progress });
+
+  // Map: ask the model for matches inside each chunk
+  const chunkResults = await mapWithConcurrency(chunks, BATCH_CHUNK_CONCURRENCY, async (chunk, chunkIndex) => {
+    if (abortSignal?.aborted) return [];
+
+    const chunkStartTime = Date.now();
+    const validIndexes = new Set(chunk.map(({ index }) => index));
+
+    const prompt = renderBatchPrompt(promptTemplate, query, chunk, maxResults, chunkIndex, chunks.length);
+
+    let results: BatchJobResult[] = [];
+    try {
+      const { provider, model: providerModel } = getProvider(model);
+      const analysisResult = await provider.callFunction({
+        model: providerModel,
+        messages: [{ role: "user", content: prompt }],
+        function: batchJobFunction,
+        temperature: 0.1, // Low temperature for consistent results (ignored by reasoning models)
+        signal: abortSignal,
+        onUsage: meter("batch", model)
+      });
+
+      if (analysisResult) {
+        try {
+          if (analysisResult.matching_traces && Array.isArray(analysisResult.matching_traces)) {
+            results = analysisResult.matching_traces
+              .filter((item: any) => item.line_number && validIndexes.has(item.line_number - 1))
+              .map((item: any) => ({
+                trace: traces[item.line_number - 1].text, // Convert to 0-based index
+                traceId: traces[item.line_number - 1].id,
+                originalIndex: item.line_number - 1,
+                relevanceScore: Math.min(1, Math.max(0, item.relevance_score || 0)),
+                reasoning: item.reasoning || "No reasoning provided"
+              }));
+          }
+        } catch (e) {
+          console.error(`❌ Error parsing batch job response for chunk ${chunkIndex + 1}:`, e);
+        }
+      }
 
-QUERY: ${query}
+      console.log(`⚡ BATCH JOB CHUNK ${chunkIndex + 1}/${chunks.length}: ${Date.now() - chunkStartTime}ms | ${results.length} matches`);
+    } catch (error) {
+      lastError = error;
+      progress.failedChunks++;
+      console.error(`❌ BATCH JOB CHUNK ${chunkIndex + 1}/${chunks.length} ERROR:`, error);
+    }
 
-TRACES TO ANALYZE:
-${tracesWithNumbers}
+    progress.completedChunks++;
+    progress.matches += results.length;
+    onProgress?.({ ...progress });
+    return results;
+  });
 
-INSTRUCTIONS:
-1. Carefully read through all traces and identify all the ones that match the query criteria
-2. Score each matching trace from 0.0 to 1.0 based on how well it matches the query
-3. Provide a brief reasoning for why each trace matches
-4. Return up to ${maxResults} of the best matching traces, ordered by relevance score (highest first)
-5. Only include traces that genuinely match the query criteria
-6. If no traces match, return an empty array
-
-Be thorough but selective - quality over quantity.`;
-
-    // Build the request parameters
-    const requestParams: any = {
-      model: model,
-      messages: [{ role: "user", content: prompt }],
-      functions: batchJobFunction,
-      function_call: { name: "analyze_traces_for_batch_job" }
-    };
+  if (progress.failedChunks === chunks.length && lastError) {
+    const errorDuration = Date.now() - startTime;
+    console.error(`❌ BATCH JOB ERROR after ${errorDuration}ms: all ${chunks.length} chunks failed`);
+    throw lastError;
+  }
 
-    // Only add temperature for models that support it (not o4-mini, o3, o3-mini)
-    if (!model.includes('o4-mini') && !model.includes('o3')) {
-      requestParams.temperature = 0.1; // Low temperature for consistent results
+  // Reduce: dedupe by trace, keep the best score, then re-rank globally
+  const bestById = new Map<string, BatchJobResult>();
+  for (const result of chunkResults.flat()) {
+    const existing = bestById.get(result.traceId);
+    if (!existing || result.relevanceScore > existing.relevanceScore) {
+      bestById.set(result.traceId, result);
     }
+  }
 
-    const response = await openai.chat.completions.create(requestParams);
+  const results = Array.from(bestById.values())
+    .sort((a, b) => b.relevanceScore - a.relevanceScore || a.originalIndex - b.originalIndex) // Sort by relevance score descending
+    .slice(0, maxResults);
 
-    const duration = Date.now() - startTime;
-    console.log(`⚡ BATCH JOB API CALL: ${duration}ms`);
+  const totalDuration = Date.now() - startTime;
+  console.log(`🎯 BATCH JOB COMPLETE: ${totalDuration}ms | Found ${results.length} matching traces (${bestById.size} before ranking, ${progress.failedChunks} failed chunks)`);
 
-    let results: Array<{ trace: string; originalIndex: number; relevanceScore: number; reasoning: string }> = [];
+  // Some chunks failing still completes the job, with a note that their traces were never searched
+  const warning = progress.failedChunks > 0
+    ? `${progress.failedChunks} of ${chunks.length} chunks failed, so some traces were not searched (${lastError instanceof Error ? lastError.message : 'unknown error'})`
+    : undefined;
+  return { results, warning };
+}
 
-    if (response.choices[0].message.function_call) {
-      try {
-        const analysisResult = JSON.parse(response.choices[0].message.function_call.arguments);
-        
-        if (analysisResult.matching_traces && Array.isArray(analysisResult.matching_traces)) {
-          results = analysisResult.matching_traces
-            .filter((item: any) => item.line_number && item.line_number >= 1 && item.line_number <= traces.length)
-            .map((item: any) => ({
-              trace: traces[item.line_number - 1], // Convert to 0-based index
-              originalIndex: item.line_number - 1,
-              relevanceScore: Math.min(1, Math.max(0, item.relevance_score || 0)),
-              reasoning: item.reasoning || "No reasoning provided"
-            }))
-            .sort((a: { relevanceScore: number }, b: { relevanceScore: number }) => b.relevanceScore - a.relevanceScore); // Sort by relevance score descending
+// Classification only needs the gist of each trace, so more traces fit in each chunk
+const CLASSIFY_MAX_TRACE_CHARS = 500;
+
+// Assign every trace to zero or more categories. Returns the member trace ids per category name.
+export async function classifyTraces(
+  traces: Trace[],
+  categories: string[],
+  model: string = "o4-mini",
+  onProgress?: (progress: BatchJobProgress) => void,
+  abortSignal?: AbortSignal
+): Promise<{ membersByCategory: Map<string, string[]>; classifiedCount: number }> {
+  const startTime = Date.now();
+  const membersByCategory = new Map<string, string[]>(categories.map(category => [category, []]));
+  if (traces.length === 0 || categories.length === 0) return { membersByCategory, classifiedCount: 0 };
+
+  const classifyFunction = {
+    name: "classify_traces",
+    description: "List every trace that belongs to one or more of the categories",
+    parameters: {
+      type: "object",
+      properties: {
+        classifications: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              line_number: { type: "number", description: "The line number of the trace (1-based)" },
+              categories: {
+                type: "array",
+                items: { type: "string", enum: categories },
+                description: "Every category the trace belongs to"
+              }
+            },
+            required: ["line_number", "categories"]
+          }
         }
-      } catch (e) {
-        console.error("❌ Error parsing batch job response:", e);
-      }
+      },
+      required: ["classifications"]
     }
+  };
 
-    const totalDuration = Date.now() - startTime;
-    console.log(`🎯 BATCH JOB COMPLETE: ${totalDuration}ms | Found ${results.length} matching traces`);
-    
-    return results;
-  } catch (error) {
-    const errorDuration = Date.now() - startTime;
-    console.error(`❌ BATCH JOB ERROR after ${errorDuration}ms:`, error);
-    throw error;
+  const chunks = chunkTracesForContext(traces, BATCH_CHUNK_CHAR_BUDGET, CLASSIFY_MAX_TRACE_CHARS);
+  const progress: BatchJobProgress = { completedChunks: 0, totalChunks: chunks.length, failedChunks: 0, matches: 0 };
+  let lastError: unknown = null;
+  // Traces in chunks that came back, so percentages ignore failed or aborted chunks
+  let classifiedCount = 0;
+
+  console.log(`🗂️ CLASSIFY START: ${traces.length} traces | ${categories.length} categories | ${chunks.length} chunks | Model: ${model}`);
+  onProgress?.({ ...progress });
+
+  const { provider, model: providerModel } = getProvider(model);
+  const chunkResults = await mapWithConcurrency(chunks, BATCH_CHUNK_CONCURRENCY, async (chunk, chunkIndex) => {
+    if (abortSignal?.aborted) return [];
+
+    const validIndexes = new Set(chunk.map(({ index }) => index));
+    const prompt = `Classify production traces into categories.
+
+CATEGORIES:
+${categories.map(category => `- ${category}`).join('\n')}
+
+TRACES (part ${chunkIndex + 1} of ${chunks.length}):
+${chunk.map(({ line }) => line).join('\n')}
+
+INSTRUCTIONS:
+1. Go through every trace and decide which categories it belongs to
+2. A trace can belong to several categories, or to none
+3. Only list traces that belong to at least one category`;
+
+    let assignments: Array<{ index: number; categories: string[] }> = [];
+    try {
+      const result = await provider.callFunction({
+        model: providerModel,
+        messages: [{ role: "user", content: prompt }],
+        function: classifyFunction,
+        temperature: 0,
+        reasoningEffort: "low",
+        signal: abortSignal,
+        onUsage: meter("classification", model)
+      });
+
+      assignments = (result?.classifications ?? [])
+        .filter((item: any) => item.line_number && validIndexes.has(item.line_number - 1) && Array.isArray(item.categories))
+        .map((item: any) => ({
+          index: item.line_number - 1,
+          categories: item.categories.filter((category: string) => membersByCategory.has(category))
+        }));
+      classifiedCount += chunk.length;
+    } catch (error) {
+      lastError = error;
+      progress.failedChunks++;
+      console.error(`❌ CLASSIFY CHUNK ${chunkIndex + 1}/${chunks.length} ERROR:`, error);
+    }
+
+    progress.completedChunks++;
+    progress.matches += assignments.filter(assignment => assignment.categories.length > 0).length;
+    onProgress?.({ ...progress });
+    return assignments;
+  });
+
+  if (progress.failedChunks === chunks.length && lastError) {
+    throw lastError;
   }
+
+  for (const { index, categories: traceCategories } of chunkResults.flat()) {
+    for (const category of traceCategories) {
+      const members = membersByCategory.get(category)!;
+      if (!members.includes(traces[index].id)) members.push(traces[index].id);
+    }
+  }
+
+  console.log(`🗂️ CLASSIFY COMPLETE: ${Date.now() - startTime}ms | ${progress.matches} matches in ${classifiedCount} traces (${progress.failedChunks} failed chunks)`);
+  return { membersByCategory, classifiedCount };
 }
 
 export async function generateInitialAnalysis(
@@ -0,0 +1,50 @@
+import { DEFAULT_PROMPTS } from "@shared/config";
+import type { PromptKind } from "@shared/schema";
+import { validateTemplate } from "@shared/template";
+import { storage } from "../storage";
+
+type SeededKind = keyof typeof DEFAULT_PROMPTS & PromptKind;
+
+// The built-in prompts only seed the registry; after that the stored default for each kind wins
+export async function seedDefaultPrompts() {
+  for (const kind of Object.keys(DEFAULT_PROMPTS) as SeededKind[]) {
+    const existing = await storage.getPrompts(kind);
+    if (existing.length > 0) continue;
+
+    await storage.createPrompt({ name: "Built-in", kind, body: DEFAULT_PROMPTS[kind], author: "system", isDefault: true });
+    console.log(`🌱 Seeded default ${kind} prompt`);
+  }
+}
+
+// Body of the current default prompt for a kind, falling back to the built-in one
+export async function resolvePrompt(kind: SeededKind): Promise<string> {
+  const prompt = await storage.getDefaultPrompt(kind);
+  return prompt?.body ?? DEFAULT_PROMPTS[kind];
+}
+
+export type ResolvedPrompt = { promptId: number | null; promptName: string; prompt: string };
+
+// A saved version by id, unsaved text from the editor, or (neither given) the current default.
+// Throws when the version doesn't exist or the text isn't a valid template.
+export async function resolvePromptChoice(kind: SeededKind, choice: { promptId?: unknown; prompt?: unknown }): Promise<ResolvedPrompt> {
+  if (choice.promptId !== undefined && choice.promptId !== null) {
+    const prompt = await storage.getPrompt(Number(choice.promptId));
+    if (!prompt || prompt.kind !== kind) {
+      throw new Error(`${kind} prompt ${choice.promptId} not found`);
+    }
+    return { promptId: prompt.id, promptName: `${prompt.name} v${prompt.version}`, prompt: prompt.body };
+  }
+
+  if (typeof choice.prompt === 'string' && choice.prompt.trim()) {
+    const errors = validateTemplate(kind, choice.prompt).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`Invalid prompt: ${errors.map(issue => issue.message).join('; ')}`);
+    }
+    return { promptId: null, promptName: 'Unsaved prompt', prompt: choice.prompt };
+  }
+
+  const defaultPrompt = await storage.getDefaultPrompt(kind);
+  return defaultPrompt
+    ? { promptId: defaultPrompt.id, promptName: `${defaultPrompt.name} v${defaultPrompt.version}`, prompt: defaultPrompt.body }
+    : { promptId: null, promptName: 'Built-in', prompt: DEFAULT_PROMPTS[kind] };
+}
@@ -0,0 +1,23 @@
+// Canned responses replayed by the mock provider. `match` is a case-insensitive substring of the last user message;
+// functions without a fixture get arguments generated from their JSON schema.
+export type MockFixtures = {
+  chat: Array<{ match: string; response: string }>;
+  functions: Record<string, any>;
+};
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  chat: [
+    {
+      match: "what patterns do you see",
+      response: `### Repeated lookups
+- Several traces ask for the same record more than once in a short session.
+
+### Short follow-up questions
+- Many user turns are one or two words long and rely on earlier context.
+
+### Error responses
+- A small group of traces ends with an error or an empty answer.`,
+    },
+  ],
+  functions: {},
+};
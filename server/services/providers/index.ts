@@ -0,0 +1,64 @@
+import type { ModelOption } from "@shared/schema";
+import type { LLMProvider } from "./types";
+import { createCompatibleProvider, createOpenAIProvider } from "./openai";
+import { MockProvider, loadMockFixtures } from "./mock";
+
+export type { CallUsage, ChatMessage, ChatRequest, FunctionCallRequest, FunctionDefinition, LLMProvider } from "./types";
+
+const providers = new Map<string, LLMProvider>();
+
+const openaiApiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR;
+if (openaiApiKey) {
+  providers.set("openai", createOpenAIProvider(openaiApiKey));
+}
+
+if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+  const modelNames = (process.env.OPENAI_COMPATIBLE_MODELS || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+  providers.set("compatible", createCompatibleProvider(
+    process.env.OPENAI_COMPATIBLE_BASE_URL,
+    process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+    modelNames,
+    process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || undefined
+  ));
+}
+
+providers.set("mock", new MockProvider(loadMockFixtures(process.env.MOCK_FIXTURES_PATH)));
+
+// Model values are "<provider>:<model>"; bare names (e.g. "gpt-4o") belong to OpenAI
+export function getProvider(modelValue: string): { provider: LLMProvider; model: string } {
+  const separator = modelValue.indexOf(":");
+  const providerId = separator === -1 ? "openai" : modelValue.slice(0, separator);
+  const model = separator === -1 ? modelValue : modelValue.slice(separator + 1);
+
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`LLM provider "${providerId}" is not configured for model "${modelValue}"`);
+  }
+  return { provider, model };
+}
+
+export function listModels(): ModelOption[] {
+  return Array.from(providers.values()).flatMap(provider => provider.listModels());
+}
+
+// Embedding models use the same "<provider>:<model>" form. Without a value, EMBEDDING_PROVIDER or the first
+// configured provider with an embedding model is used; the mock provider's local hashing embedder is the fallback.
+export function getEmbedder(modelValue?: string): { provider: LLMProvider; model: string; value: string } {
+  if (modelValue) {
+    const { provider, model } = getProvider(modelValue);
+    if (!provider.embed) {
+      throw new Error(`LLM provider "${provider.id}" does not support embeddings`);
+    }
+    return { provider, model, value: modelValue };
+  }
+
+  const preferred = process.env.EMBEDDING_PROVIDER ? providers.get(process.env.EMBEDDING_PROVIDER) : undefined;
+  const provider = preferred?.embed && preferred.embeddingModel
+    ? preferred
+    : Array.from(providers.values()).find(candidate => candidate.embed && candidate.embeddingModel)!;
+  const model = provider.embeddingModel!;
+  return { provider, model, value: `${provider.id}:${model}` };
+}
@@ -0,0 +1,149 @@
+import fs from "fs";
+import type { ModelOption } from "@shared/schema";
+import type { ChatRequest, FunctionCallRequest, LLMProvider } from "./types";
+import { DEFAULT_MOCK_FIXTURES, type MockFixtures } from "./fixtures";
+
+export const MOCK_MODELS: ModelOption[] = [
+  { value: "mock:mock-analyst", label: "Mock (offline)", provider: "mock", roles: ["chat", "reasoning"] },
+];
+
+function lastUserMessage(request: ChatRequest): string {
+  return [...request.messages].reverse().find(message => message.role === "user")?.content ?? "";
+}
+
+// Traces are sent as "<line number>: <trace>" lines
+function promptLineNumbers(prompt: string): number[] {
+  return Array.from(prompt.matchAll(/^(\d+): /gm), match => parseInt(match[1]));
+}
+
+// Build deterministic arguments that satisfy a function's JSON schema, pointing at the traces in the prompt
+function fakeFromSchema(schema: any, lineNumbers: number[], key = "", index = 0): any {
+  if (!schema || typeof schema !== "object") return null;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[index % schema.enum.length];
+  }
+
+  switch (schema.type) {
+    case "object": {
+      const result: Record<string, any> = {};
+      for (const [propertyKey, propertySchema] of Object.entries<any>(schema.properties ?? {})) {
+        result[propertyKey] = fakeFromSchema(propertySchema, lineNumbers, propertyKey, index);
+      }
+      return result;
+    }
+    case "array": {
+      const referencesTraces = schema.items?.type === "object" && "line_number" in (schema.items.properties ?? {});
+      const wanted = schema.minItems ?? Math.min(schema.maxItems ?? 5, 5);
+      const count = referencesTraces ? Math.min(wanted, lineNumbers.length) : Math.max(1, Math.min(wanted, 3));
+      return Array.from({ length: count }, (_, itemIndex) => {
+        const item = fakeFromSchema(schema.items, lineNumbers, key, itemIndex);
+        if (referencesTraces) item.line_number = lineNumbers[itemIndex];
+        return item;
+      });
+    }
+    case "number":
+    case "integer": {
+      if (schema.maximum !== undefined) {
+        return Math.max(schema.minimum ?? 0, schema.maximum - index * 0.05);
+      }
+      return index + 1;
+    }
+    case "boolean":
+      return false;
+    case "string":
+      return `mock ${key || "value"} ${index + 1}`;
+    default:
+      return null;
+  }
+}
+
+// Roughly four characters per token, so usage accounting has numbers to show offline
+function reportUsage(request: ChatRequest, output: string) {
+  const promptLength = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  request.onUsage?.({
+    promptTokens: Math.ceil(promptLength / 4),
+    completionTokens: Math.ceil(output.length / 4),
+    reasoningTokens: 0,
+  });
+}
+
+const HASHING_DIMENSIONS = 256;
+
+// Feature-hash words and word pairs into a fixed-size vector so similar texts share buckets
+function hashingEmbedding(text: string): number[] {
+  const vector = new Array(HASHING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+  for (const feature of features) {
+    let hash = 2166136261;
+    for (let i = 0; i < feature.length; i++) {
+      hash = Math.imul(hash ^ feature.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % HASHING_DIMENSIONS] += hash & 1 ? 1 : -1;
+  }
+  return vector;
+}
+
+export class MockProvider implements LLMProvider {
+  id = "mock";
+  label = "Mock";
+  embeddingModel = `hashing-${HASHING_DIMENSIONS}`;
+
+  constructor(private fixtures: MockFixtures = DEFAULT_MOCK_FIXTURES) {}
+
+  listModels(): ModelOption[] {
+    return MOCK_MODELS;
+  }
+
+  private respond(request: ChatRequest): string {
+    const prompt = lastUserMessage(request);
+    const normalized = prompt.toLowerCase();
+    const fixture = this.fixtures.chat.find(entry => normalized.includes(entry.match.toLowerCase()));
+    if (fixture) return fixture.response;
+
+    const traceCount = promptLineNumbers(prompt).length;
+    return `### Mock analysis
+- This response comes from the offline mock provider.
+- The prompt contained ${traceCount} traces and ${prompt.length} characters.`;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    const response = this.respond(request);
+    reportUsage(request, response);
+    return response;
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<string> {
+    const response = this.respond(request);
+    for (const token of response.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+    reportUsage(request, response);
+  }
+
+  async callFunction(request: FunctionCallRequest): Promise<any | null> {
+    const { name, parameters } = request.function;
+    const args = name in this.fixtures.functions
+      ? this.fixtures.functions[name]
+      : fakeFromSchema(parameters, promptLineNumbers(lastUserMessage(request)));
+    reportUsage(request, JSON.stringify(args));
+    return args;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(hashingEmbedding);
+  }
+}
+
+export function loadMockFixtures(fixturesPath?: string): MockFixtures {
+  if (!fixturesPath) return DEFAULT_MOCK_FIXTURES;
+
+  const loaded = JSON.parse(fs.readFileSync(fixturesPath, "utf-8"));
+  return {
+    chat: [...(loaded.chat ?? []), ...DEFAULT_MOCK_FIXTURES.chat],
+    functions: { ...DEFAULT_MOCK_FIXTURES.functions, ...(loaded.functions ?? {}) },
+  };
+}
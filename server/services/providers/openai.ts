@@ -0,0 +1,133 @@
+import OpenAI from "openai";
+import type { ModelOption } from "@shared/schema";
+import type { CallUsage, ChatRequest, FunctionCallRequest, LLMProvider } from "./types";
+
+function reportUsage(request: ChatRequest, usage: OpenAI.CompletionUsage | null | undefined) {
+  if (!usage || !request.onUsage) return;
+  request.onUsage({
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+  });
+}
+
+// Reasoning models reject temperature and are the only ones that accept reasoning_effort
+function isReasoningModel(model: string): boolean {
+  return /^o\d/.test(model);
+}
+
+export class OpenAIProvider implements LLMProvider {
+  constructor(
+    public id: string,
+    public label: string,
+    private client: OpenAI,
+    private models: ModelOption[],
+    private supportsReasoningEffort: boolean = true,
+    public embeddingModel?: string,
+    private embeddingDimensions?: number
+  ) {}
+
+  listModels(): ModelOption[] {
+    return this.models;
+  }
+
+  private baseParams(request: ChatRequest) {
+    const params: Record<string, any> = {
+      model: request.model,
+      messages: request.messages,
+    };
+    if (request.temperature !== undefined && !isReasoningModel(request.model)) {
+      params.temperature = request.temperature;
+    }
+    if (request.reasoningEffort && this.supportsReasoningEffort && isReasoningModel(request.model)) {
+      params.reasoning_effort = request.reasoningEffort;
+    }
+    return params;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    const response = await this.client.chat.completions.create(
+      { ...this.baseParams(request), stream: false } as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+      { signal: request.signal }
+    );
+    reportUsage(request, response.usage);
+    return response.choices[0]?.message?.content ?? "";
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create(
+      // The usage arrives in a final chunk without choices
+      { ...this.baseParams(request), stream: true, stream_options: { include_usage: true } } as OpenAI.Chat.ChatCompletionCreateParamsStreaming,
+      { signal: request.signal }
+    );
+    for await (const chunk of stream) {
+      reportUsage(request, chunk.usage);
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async callFunction(request: FunctionCallRequest): Promise<any | null> {
+    const response = await this.client.chat.completions.create(
+      {
+        ...this.baseParams(request),
+        functions: [request.function],
+        function_call: { name: request.function.name },
+      } as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+      { signal: request.signal }
+    );
+    reportUsage(request, response.usage);
+
+    const functionCall = response.choices[0]?.message?.function_call;
+    if (!functionCall) return null;
+    // Truncated or malformed arguments count as no call
+    try {
+      return JSON.parse(functionCall.arguments);
+    } catch (error) {
+      console.error(`❌ ${request.function.name}: function call arguments are not valid JSON:`, error);
+      return null;
+    }
+  }
+
+  async embed(texts: string[], model: string, signal?: AbortSignal, onUsage?: (usage: CallUsage) => void): Promise<number[][]> {
+    const response = await this.client.embeddings.create(
+      {
+        model,
+        input: texts,
+        ...(this.embeddingDimensions ? { dimensions: this.embeddingDimensions } : {}),
+      },
+      { signal }
+    );
+    if (response.usage) {
+      onUsage?.({ promptTokens: response.usage.prompt_tokens, completionTokens: 0, reasoningTokens: 0 });
+    }
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+export const OPENAI_MODELS: ModelOption[] = [
+  { value: "gpt-4o", label: "GPT-4o", provider: "openai", roles: ["chat"] },
+  { value: "gpt-4o-mini", label: "GPT-4o Mini", provider: "openai", roles: ["chat"] },
+  { value: "o4-mini", label: "o4 Mini", provider: "openai", roles: ["chat", "reasoning"] },
+  { value: "o3", label: "o3", provider: "openai", roles: ["chat", "reasoning"] },
+  { value: "o3-mini", label: "o3 Mini", provider: "openai", roles: ["chat", "reasoning"] },
+];
+
+// text-embedding-3 models can be shortened; 256 dimensions keeps the stored index small
+export function createOpenAIProvider(apiKey: string): OpenAIProvider {
+  return new OpenAIProvider("openai", "OpenAI", new OpenAI({ apiKey }), OPENAI_MODELS, true, "text-embedding-3-small", 256);
+}
+
+// Any server that speaks the OpenAI chat completions API (vLLM, Ollama, LM Studio, Azure proxies, ...)
+export function createCompatibleProvider(baseURL: string, apiKey: string, modelNames: string[], embeddingModel?: string): OpenAIProvider {
+  const models: ModelOption[] = modelNames.map(name => ({
+    value: `compatible:${name}`,
+    label: name,
+    provider: "compatible",
+    roles: ["chat", "reasoning"],
+  }));
+  return new OpenAIProvider("compatible", "OpenAI-compatible", new OpenAI({ apiKey, baseURL }), models, false, embeddingModel);
+}
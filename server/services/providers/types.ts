@@ -0,0 +1,47 @@
+import type { ModelOption } from "@shared/schema";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type FunctionDefinition = {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+};
+
+// Token counts of one call; reasoning tokens are already included in completionTokens
+export type CallUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+};
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Only sent to models that accept it (e.g. OpenAI o-series)
+  reasoningEffort?: "low" | "medium" | "high";
+  signal?: AbortSignal;
+  // Called once per call with the token counts the provider reported
+  onUsage?: (usage: CallUsage) => void;
+}
+
+export interface FunctionCallRequest extends ChatRequest {
+  function: FunctionDefinition;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  listModels(): ModelOption[];
+  complete(request: ChatRequest): Promise<string>;
+  stream(request: ChatRequest): AsyncIterable<string>;
+  // Forces a call to the given function and returns its parsed arguments, or null if the model did not call it
+  callFunction(request: FunctionCallRequest): Promise<any | null>;
+  // Default embedding model; providers without one cannot build trace indexes
+  embeddingModel?: string;
+  embed?(texts: string[], model: string, signal?: AbortSignal, onUsage?: (usage: CallUsage) => void): Promise<number[][]>;
+}
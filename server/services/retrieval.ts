@@ -0,0 +1,162 @@
+import type { RetrievalStrategy, Trace, TraceEmbeddingIndex } from "@shared/schema";
+import { describeFilter, isEmptyFilter, matchesTraceFilter, type TraceFilter } from "@shared/filters";
+import { formatTraceForPrompt } from "../parsers";
+import { storage } from "../storage";
+import { getEmbedder } from "./providers";
+import { mapWithConcurrency, shuffleArray } from "./utils";
+import { meter, withUsageScope } from "./usage";
+
+const EMBED_BATCH_SIZE = 128;
+const EMBED_CONCURRENCY = 4;
+const EMBED_MAX_CHARS = 4000;
+
+// Share of the hybrid selection filled with random traces so the model still sees what the query doesn't mention
+const HYBRID_DIVERSITY_RATIO = 0.2;
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) norm += normalized[i] * normalized[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+  }
+  return normalized;
+}
+
+function encodeVectors(vectors: Float32Array[], dimensions: number): string {
+  const packed = new Float32Array(vectors.length * dimensions);
+  vectors.forEach((vector, index) => packed.set(vector, index * dimensions));
+  return Buffer.from(packed.buffer).toString("base64");
+}
+
+function decodeVectors(index: TraceEmbeddingIndex): Float32Array {
+  // Copy into a fresh buffer; Buffer views are not guaranteed to be 4-byte aligned
+  const bytes = new Uint8Array(Buffer.from(index.vectors, "base64"));
+  return new Float32Array(bytes.buffer);
+}
+
+// Embed every trace at upload time. Returns null when no embedding provider works, so retrieval falls back to sampling.
+export async function embedTraces(traces: Trace[]): Promise<TraceEmbeddingIndex | null> {
+  if (traces.length === 0) return null;
+
+  const startTime = Date.now();
+  try {
+    const { provider, model, value } = getEmbedder();
+    const texts = traces.map(trace => formatTraceForPrompt(trace).slice(0, EMBED_MAX_CHARS));
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      batches.push(texts.slice(i, i + EMBED_BATCH_SIZE));
+    }
+
+    console.log(`🧮 EMBEDDING START: ${traces.length} traces | Model=${value} | Batches=${batches.length}`);
+    const embedded = await mapWithConcurrency(batches, EMBED_CONCURRENCY, batch => provider.embed!(batch, model, undefined, meter("embedding", value)));
+    const vectors = embedded.flat().map(normalize);
+    const dimensions = vectors[0]?.length ?? 0;
+
+    console.log(`🧮 EMBEDDING COMPLETE: ${Date.now() - startTime}ms | ${vectors.length} vectors x ${dimensions} dimensions`);
+    return {
+      model: value,
+      dimensions,
+      count: vectors.length,
+      vectors: encodeVectors(vectors, dimensions),
+    };
+  } catch (error) {
+    console.error(`❌ EMBEDDING ERROR after ${Date.now() - startTime}ms:`, error);
+    return null;
+  }
+}
+
+// Build the index after the analysis is saved so the upload doesn't wait on it; retrieval samples randomly until it lands
+export function indexAnalysisTraces(analysisId: number, traces: Trace[]) {
+  withUsageScope({ analysisId }, () => embedTraces(traces))
+    .then(embeddings => embeddings && storage.updateAnalysis(analysisId, { embeddings }))
+    .catch(error => console.error(`❌ EMBEDDING SAVE ERROR for analysis ${analysisId}:`, error));
+}
+
+// The index rows for a subset of the embedded traces (their positions in the original list), in that order
+function subsetEmbeddings(index: TraceEmbeddingIndex, positions: number[]): TraceEmbeddingIndex {
+  const vectors = decodeVectors(index);
+  const rows = positions.map(position => vectors.subarray(position * index.dimensions, (position + 1) * index.dimensions));
+  return { ...index, count: rows.length, vectors: encodeVectors(rows, index.dimensions) };
+}
+
+// Narrow the traces to those matching a structured filter, keeping the embedding index lined up with them
+export function scopeTraces(
+  traces: Trace[],
+  embeddings: TraceEmbeddingIndex | null | undefined,
+  filter: TraceFilter | null | undefined
+): { traces: Trace[]; embeddings: TraceEmbeddingIndex | null } {
+  if (!filter || isEmptyFilter(filter)) return { traces, embeddings: embeddings ?? null };
+
+  const positions = traces.flatMap((trace, position) => matchesTraceFilter(trace, filter) ? [position] : []);
+  console.log(`🧰 SCOPE: ${describeFilter(filter)} | ${positions.length} of ${traces.length} traces`);
+  return {
+    traces: positions.map(position => traces[position]),
+    embeddings: embeddings && embeddings.count === traces.length ? subsetEmbeddings(embeddings, positions) : null,
+  };
+}
+
+async function rankBySimilarity(index: TraceEmbeddingIndex, query: string, signal?: AbortSignal): Promise<number[]> {
+  const { provider, model } = getEmbedder(index.model);
+  const [queryEmbedding] = await provider.embed!([query], model, signal, meter("embedding", index.model));
+  const queryVector = normalize(queryEmbedding);
+  const vectors = decodeVectors(index);
+
+  const scores = Array.from({ length: index.count }, (_, traceIndex) => {
+    let score = 0;
+    const offset = traceIndex * index.dimensions;
+    for (let i = 0; i < index.dimensions; i++) score += vectors[offset + i] * queryVector[i];
+    return { traceIndex, score };
+  });
+
+  return scores
+    .sort((a, b) => b.score - a.score || a.traceIndex - b.traceIndex)
+    .map(({ traceIndex }) => traceIndex);
+}
+
+// Pick the traces for the chat model's {traces} section. originalIndex is 1-based to match the prompt line numbers.
+export async function selectTracesForQuery(
+  traces: Trace[],
+  query: string,
+  limit: number,
+  strategy: RetrievalStrategy,
+  embeddings?: TraceEmbeddingIndex | null,
+  signal?: AbortSignal,
+  seed?: number
+): Promise<Array<{ trace: Trace; originalIndex: number }>> {
+  const tracesWithIndexes = traces.map((trace, index) => ({ trace, originalIndex: index + 1 }));
+
+  // Create deterministic seed based on content hash for consistent shuffling, unless the caller pins one
+  const contentSeed = seed ?? traces.reduce((length, trace) => length + trace.text.length, 0) % 100000;
+  const randomSample = () => shuffleArray(tracesWithIndexes, contentSeed).slice(0, Math.min(limit, traces.length));
+
+  if (strategy === "random" || traces.length <= limit) {
+    console.log(`🎲 RETRIEVAL: random sample | Seed=${contentSeed}`);
+    return randomSample();
+  }
+
+  if (!embeddings || embeddings.count !== traces.length) {
+    console.log(`⚠️ RETRIEVAL: no embedding index for these traces, falling back to random sample`);
+    return randomSample();
+  }
+
+  let ranked: number[];
+  try {
+    ranked = await rankBySimilarity(embeddings, query, signal);
+  } catch (error) {
+    console.error(`❌ RETRIEVAL: query embedding failed, falling back to random sample:`, error);
+    return randomSample();
+  }
+
+  const diversityQuota = strategy === "hybrid" ? Math.round(limit * HYBRID_DIVERSITY_RATIO) : 0;
+  const semanticCount = limit - diversityQuota;
+  const semantic = ranked.slice(0, semanticCount).map(traceIndex => tracesWithIndexes[traceIndex]);
+
+  const chosen = new Set(semantic.map(({ originalIndex }) => originalIndex));
+  const diverse = shuffleArray(tracesWithIndexes.filter(({ originalIndex }) => !chosen.has(originalIndex)), contentSeed)
+    .slice(0, diversityQuota);
+
+  console.log(`🔎 RETRIEVAL: ${strategy} | Semantic=${semantic.length} | Random=${diverse.length} | Index=${embeddings.model}`);
+  return [...semantic, ...diverse];
+}
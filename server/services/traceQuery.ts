@@ -0,0 +1,125 @@
+import type { Cluster, Trace, TraceListItem, TraceSort } from "@shared/schema";
+import { filterFieldValue, matchesTraceFilter, type TraceFilter } from "@shared/filters";
+import { createSearchMatcher, type ParsedSearch } from "@shared/search";
+import { storage } from "../storage";
+
+// Recent query results, so paging through one doesn't reload and re-sort the traces on every request
+const QUERY_CACHE_SIZE = 8;
+const QUERY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Which stored traces to list, and in what order
+export type TraceQuery = {
+  search: ParsedSearch;
+  filter?: TraceFilter;
+  clusterId?: number | null;
+  pinned?: string[]; // Listed before everything else, e.g. the traces the latest answer tagged
+  sort: TraceSort;
+  order: "asc" | "desc";
+};
+
+// [pinned ? 0 : 1, has the sort value ? 0 : 1, sort value (negated when descending), position], compared in order.
+// Position breaks ties, so every trace has a distinct key and a cursor is just the key of the last row sent.
+type SortKey = [number, number, number, number];
+
+export type QueriedTrace = { trace: Trace; position: number; key: SortKey };
+
+function sortValue(trace: Trace, position: number, sort: TraceSort): number | null {
+  switch (sort) {
+    case "startTime": {
+      const time = trace.startTime ? Date.parse(trace.startTime) : NaN;
+      return Number.isNaN(time) ? null : time;
+    }
+    case "latency": return typeof trace.latencyMs === "number" ? trace.latencyMs : null;
+    default: return position;
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+export function queryTraces(traces: Trace[], clusters: Cluster[], query: TraceQuery) {
+  const matcher = createSearchMatcher(query.search, { clusters });
+  const clusterMembers = query.clusterId != null ? new Set(clusters.find(cluster => cluster.id === query.clusterId)?.traceIds ?? []) : null;
+  const pinned = new Set(query.pinned ?? []);
+
+  const matching: QueriedTrace[] = [];
+  traces.forEach((trace, position) => {
+    if (clusterMembers && !clusterMembers.has(trace.id)) return;
+    if (query.filter && !matchesTraceFilter(trace, query.filter)) return;
+    if (!matcher.matches(trace)) return;
+
+    const value = sortValue(trace, position, query.sort);
+    matching.push({
+      trace,
+      position,
+      key: [pinned.has(trace.id) ? 0 : 1, value === null ? 1 : 0, value === null ? 0 : query.order === "desc" ? -value : value, position],
+    });
+  });
+
+  matching.sort((a, b) => compareKeys(a.key, b.key));
+  return { traces: matching, highlights: matcher.highlights };
+}
+
+type QueryResult = ReturnType<typeof queryTraces>;
+
+const queryCache = new Map<string, { result: QueryResult; expiresAt: number }>();
+
+// queryTraces over a stored analysis, reusing the result while the query and the clusters are unchanged. Undefined when the analysis doesn't exist.
+export async function queryAnalysisTraces(analysisId: number, query: TraceQuery): Promise<QueryResult | undefined> {
+  // Traces never change after upload, but clusters do and cluster: terms depend on them
+  const clusters = await storage.getClustersByAnalysis(analysisId);
+  const key = JSON.stringify([analysisId, clusters.map(cluster => [cluster.id, new Date(cluster.updatedAt).getTime()]), query]);
+
+  const cached = queryCache.get(key);
+  queryCache.delete(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    queryCache.set(key, cached);
+    return cached.result;
+  }
+
+  const traces = await storage.getAnalysisTraces(analysisId);
+  if (!traces) return undefined;
+
+  const result = queryTraces(traces, clusters, query);
+  queryCache.set(key, { result, expiresAt: Date.now() + QUERY_CACHE_TTL_MS });
+  // Least recently used first
+  while (queryCache.size > QUERY_CACHE_SIZE) {
+    queryCache.delete(queryCache.keys().next().value!);
+  }
+  return result;
+}
+
+export function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+// Null when the cursor wasn't produced by encodeCursor
+export function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Array.isArray(key) && key.length === 4 && key.every(part => typeof part === "number") ? key as SortKey : null;
+  } catch {
+    return null;
+  }
+}
+
+// The rows after the cursor; keyset rather than offset, so a page never repeats or skips a row
+export function pageAfter(traces: QueriedTrace[], cursor: SortKey | null, limit: number) {
+  const start = cursor ? traces.findIndex(row => compareKeys(row.key, cursor) > 0) : 0;
+  const page = start === -1 ? [] : traces.slice(start, start + limit);
+  const last = page[page.length - 1];
+  return {
+    page,
+    nextCursor: last && start + page.length < traces.length ? encodeCursor(last.key) : null,
+  };
+}
+
+// What the list shows for a trace; spans, inputs and outputs are left out to keep pages small
+export function toListItem({ trace, position }: QueriedTrace, highlights: Array<[number, number]>): TraceListItem {
+  const { steps, inputs, outputs, ...summary } = trace;
+  return { ...summary, position, hasError: filterFieldValue(trace, "error") === true, highlights };
+}
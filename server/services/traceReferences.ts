@@ -0,0 +1,45 @@
+import type { Trace, TraceReferences } from "@shared/schema";
+import { storage } from "../storage";
+import type { BatchJobResult } from "./openai";
+
+// Clusters, chat tags, batch job results and findings that mention the trace
+export async function findTraceReferences(analysisId: number, trace: Trace): Promise<TraceReferences> {
+  const [clusters, conversations, batchJobs, insights] = await Promise.all([
+    storage.getClustersByAnalysis(analysisId),
+    storage.getConversationsByAnalysis(analysisId),
+    storage.getBatchJobsByAnalysis(analysisId),
+    storage.getInsightsByAnalysis(analysisId),
+  ]);
+
+  const tags: TraceReferences["tags"] = [];
+  for (const conversation of conversations) {
+    const messages = await storage.getMessages(conversation.id);
+    messages.forEach((message, index) => {
+      const tagged = message.tracesWithTags?.find(tagged => tagged.traceId === trace.id);
+      if (!tagged) return;
+      // The answer's question is the user message before it
+      const question = messages.slice(0, index).reverse().find(previous => previous.type === "user");
+      tags.push({ conversationId: conversation.id, conversationTitle: conversation.title, question: question?.content ?? "", tags: tagged.tags });
+    });
+  }
+
+  const batchResults: TraceReferences["batchResults"] = [];
+  for (const job of batchJobs) {
+    const results: BatchJobResult[] = Array.isArray(job.results) ? job.results : [];
+    const result = results.find(result => result.traceId === trace.id);
+    if (result) {
+      batchResults.push({ jobId: job.jobId, name: job.name, query: job.query, relevanceScore: result.relevanceScore, reasoning: result.reasoning });
+    }
+  }
+
+  return {
+    clusters: clusters
+      .filter(cluster => cluster.traceIds.includes(trace.id))
+      .map(cluster => ({ id: cluster.id, name: cluster.name, description: cluster.description })),
+    tags,
+    batchResults,
+    findings: insights
+      .filter(insight => insight.traceIds.includes(trace.id))
+      .map(insight => ({ id: insight.id, title: insight.title, category: insight.category })),
+  };
+}
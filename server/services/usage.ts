@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { AnalysisUsage, LlmUsage, UsageOperation, UsageTotals } from "@shared/schema";
+import { DEFAULT_MODEL_PRICES, estimateCost, formatCost, type ModelPrices } from "@shared/pricing";
+import { storage } from "../storage";
+import type { CallUsage } from "./providers";
+
+// What the LLM calls made inside withUsageScope are attributed to
+export type UsageAttribution = {
+  analysisId?: number;
+  messageId?: string;
+  batchJobId?: number;
+};
+
+type UsageScope = UsageAttribution & {
+  totals: UsageTotals;
+  pending: Promise<unknown>[];
+};
+
+const scopes = new AsyncLocalStorage<UsageScope>();
+
+// MODEL_PRICES is a JSON object of { "<model value>": { "prompt": usdPerMillion, "completion": usdPerMillion } }
+function loadModelPrices(): ModelPrices {
+  if (!process.env.MODEL_PRICES) return DEFAULT_MODEL_PRICES;
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(process.env.MODEL_PRICES) };
+  } catch (error) {
+    console.error('❌ MODEL_PRICES is not valid JSON, using the default prices:', error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+const modelPrices = loadModelPrices();
+
+export function getModelPrices(): ModelPrices {
+  return modelPrices;
+}
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, cost: 0 });
+
+function addTo(totals: UsageTotals, usage: Pick<LlmUsage, 'promptTokens' | 'completionTokens' | 'reasoningTokens' | 'cost'>) {
+  totals.calls++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.cost += usage.cost;
+}
+
+// Nested scopes keep the attribution of the outer one unless they override it
+export function withUsageScope<T>(attribution: UsageAttribution, fn: () => Promise<T>): Promise<T> {
+  const parent = scopes.getStore();
+  return scopes.run({
+    analysisId: parent?.analysisId,
+    messageId: parent?.messageId,
+    batchJobId: parent?.batchJobId,
+    ...attribution,
+    totals: emptyTotals(),
+    pending: [],
+  }, fn);
+}
+
+// The onUsage callback for one LLM call: prices it and records it against the current scope
+export function meter(operation: UsageOperation, model: string): (usage: CallUsage) => void {
+  return (usage) => {
+    const scope = scopes.getStore();
+    const cost = estimateCost(modelPrices, model, usage.promptTokens, usage.completionTokens);
+    console.log(`💰 USAGE: ${operation} | ${model} | ${usage.promptTokens} in / ${usage.completionTokens} out${usage.reasoningTokens ? ` (${usage.reasoningTokens} reasoning)` : ''} | ${formatCost(cost)}`);
+
+    const row = {
+      analysisId: scope?.analysisId ?? null,
+      messageId: scope?.messageId ?? null,
+      batchJobId: scope?.batchJobId ?? null,
+      operation,
+      model,
+      ...usage,
+      cost,
+    };
+    if (scope) addTo(scope.totals, row);
+
+    const write = storage.recordUsage(row).catch(error => console.error('Failed to record LLM usage:', error));
+    scope?.pending.push(write);
+  };
+}
+
+// The current scope's totals object, which keeps counting as calls are metered
+export function liveUsageTotals(): UsageTotals {
+  return scopes.getStore()?.totals ?? emptyTotals();
+}
+
+// Totals of the current scope once every usage row has been written
+export async function settleUsage(): Promise<UsageTotals> {
+  const scope = scopes.getStore();
+  if (!scope) return emptyTotals();
+  await Promise.all(scope.pending);
+  return { ...scope.totals };
+}
+
+export function summarizeUsage(rows: LlmUsage[]): AnalysisUsage {
+  const summary: AnalysisUsage = { total: emptyTotals(), byOperation: {}, byModel: {}, byMessage: {}, byBatchJob: {} };
+  const addToGroup = (groups: Record<string, UsageTotals>, key: string | number | null, row: LlmUsage) => {
+    if (key === null) return;
+    addTo(groups[key] ??= emptyTotals(), row);
+  };
+
+  for (const row of rows) {
+    addTo(summary.total, row);
+    addToGroup(summary.byOperation, row.operation, row);
+    addToGroup(summary.byModel, row.model, row);
+    addToGroup(summary.byMessage, row.messageId, row);
+    addToGroup(summary.byBatchJob, row.batchJobId, row);
+  }
+  return summary;
+}
@@ -0,0 +1,33 @@
+// Fisher-Yates shuffle algorithm with optional seed
+export function shuffleArray<T>(array: T[], seed?: number): T[] {
+  const shuffled = [...array];
+  
+  // Simple seeded random number generator (LCG)
+  let rng = seed !== undefined ? seed : Math.floor(Math.random() * 1000000);
+  const seededRandom = () => {
+    rng = (rng * 9301 + 49297) % 233280;
+    return rng / 233280;
+  };
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(seededRandom() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Run an async task over items with at most `limit` in flight
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
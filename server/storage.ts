@@ -1,4 +1,6 @@
-import { users, analysisResults, datasets, batchJobs, type User, type InsertUser, type AnalysisResult, type InsertAnalysisResult, type Dataset, type InsertDataset } from "@shared/schema";
+import { users, analysisResults, datasets, batchJobs, clusters, traceInsights, conversations, messages, prompts, promptComparisons, evalSets, evalRuns, llmUsage, type User, type InsertUser, type AnalysisResult, type InsertAnalysisResult, type Trace, type Dataset, type InsertDataset, type CsvColumnMapping, type Cluster, type InsertCluster, type TraceInsight, type InsertTraceInsight, type Conversation, type InsertConversation, type Message, type InsertMessage, type Prompt, type InsertPrompt, type PromptKind, type PromptComparison, type InsertPromptComparison, type ComparisonWinner, type EvalSet, type InsertEvalSet, type EvalRun, type InsertEvalRun, type LlmUsage, type InsertLlmUsage } from "@shared/schema";
+import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 export interface BatchJob {
   id: number;
@@ -34,6 +36,9 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   createAnalysis(analysis: InsertAnalysisResult): Promise<AnalysisResult>;
   getAnalysis(id: number): Promise<AnalysisResult | undefined>;
+  getAnalysisTraces(id: number): Promise<Trace[] | undefined>; // Without the embeddings and the rest of the row
+  updateAnalysis(id: number, updates: Partial<InsertAnalysisResult>): Promise<AnalysisResult | undefined>;
+  findCsvMapping(headers: string[]): Promise<CsvColumnMapping | undefined>;
   createDataset(dataset: InsertDataset): Promise<Dataset>;
   getDataset(id: number): Promise<Dataset | undefined>;
   getAllDatasets(): Promise<Dataset[]>;
@@ -44,6 +49,45 @@ export interface IStorage {
   updateBatchJob(id: number, updates: Partial<InsertBatchJob>): Promise<BatchJob | undefined>;
   deleteBatchJob(id: number): Promise<boolean>;
   saveBatchJobs(analysisId: number, jobs: Array<Omit<InsertBatchJob, 'analysisId'>>): Promise<BatchJob[]>;
+  createCluster(cluster: InsertCluster): Promise<Cluster>;
+  getCluster(id: number): Promise<Cluster | undefined>;
+  getClustersByAnalysis(analysisId: number): Promise<Cluster[]>;
+  updateCluster(id: number, updates: Partial<Omit<InsertCluster, 'analysisId'>>): Promise<Cluster | undefined>;
+  deleteCluster(id: number): Promise<boolean>;
+  createInsight(insight: InsertTraceInsight): Promise<TraceInsight>;
+  getInsightsByAnalysis(analysisId: number): Promise<TraceInsight[]>;
+  deleteInsight(id: number): Promise<boolean>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationsByAnalysis(analysisId: number): Promise<Conversation[]>;
+  updateConversation(id: number, updates: Partial<Omit<InsertConversation, 'analysisId'>>): Promise<Conversation | undefined>;
+  deleteConversation(id: number): Promise<boolean>;
+  addMessage(message: InsertMessage): Promise<Message>;
+  getMessages(conversationId: number): Promise<Message[]>;
+  updateMessage(id: number, updates: Partial<Omit<InsertMessage, 'conversationId'>>): Promise<Message | undefined>;
+  // Without an explicit version the prompt becomes the next version of its name and kind
+  createPrompt(prompt: InsertPrompt): Promise<Prompt>;
+  getPrompt(id: number): Promise<Prompt | undefined>;
+  getPrompts(kind?: PromptKind): Promise<Prompt[]>;
+  getDefaultPrompt(kind: PromptKind): Promise<Prompt | undefined>;
+  setDefaultPrompt(id: number): Promise<Prompt | undefined>;
+  deletePrompt(id: number): Promise<boolean>;
+  createComparison(comparison: InsertPromptComparison): Promise<PromptComparison>;
+  getComparison(id: number): Promise<PromptComparison | undefined>;
+  // All analyses when no id is given, newest first
+  getComparisons(analysisId?: number): Promise<PromptComparison[]>;
+  voteComparison(id: number, winner: ComparisonWinner): Promise<PromptComparison | undefined>;
+  createEvalSet(evalSet: InsertEvalSet): Promise<EvalSet>;
+  getEvalSet(id: number): Promise<EvalSet | undefined>;
+  getEvalSetsByAnalysis(analysisId: number): Promise<EvalSet[]>;
+  updateEvalSet(id: number, updates: Partial<Omit<InsertEvalSet, 'analysisId'>>): Promise<EvalSet | undefined>;
+  deleteEvalSet(id: number): Promise<boolean>;
+  createEvalRun(run: InsertEvalRun): Promise<EvalRun>;
+  getEvalRunsBySet(evalSetId: number): Promise<EvalRun[]>;
+  updateEvalRun(id: number, updates: Partial<Omit<InsertEvalRun, 'evalSetId'>>): Promise<EvalRun | undefined>;
+  recordUsage(usage: InsertLlmUsage): Promise<LlmUsage>;
+  getUsageByAnalysis(analysisId: number): Promise<LlmUsage[]>;
+  getUsageCostSince(since: Date): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
@@ -51,20 +95,56 @@ export class MemStorage implements IStorage {
   private analyses: Map<number, AnalysisResult>;
   private datasets: Map<number, Dataset>;
   private batchJobs: Map<number, BatchJob>;
+  private clusters: Map<number, Cluster>;
+  private insights: Map<number, TraceInsight>;
+  private conversations: Map<number, Conversation>;
+  private messages: Map<number, Message>;
+  private prompts: Map<number, Prompt>;
+  private comparisons: Map<number, PromptComparison>;
+  private evalSets: Map<number, EvalSet>;
+  private evalRuns: Map<number, EvalRun>;
+  private usage: Map<number, LlmUsage>;
   private currentUserId: number;
   private currentAnalysisId: number;
   private currentDatasetId: number;
   private currentBatchJobId: number;
+  private currentClusterId: number;
+  private currentInsightId: number;
+  private currentConversationId: number;
+  private currentMessageId: number;
+  private currentPromptId: number;
+  private currentComparisonId: number;
+  private currentEvalSetId: number;
+  private currentEvalRunId: number;
+  private currentUsageId: number;
 
   constructor() {
     this.users = new Map();
     this.analyses = new Map();
     this.datasets = new Map();
     this.batchJobs = new Map();
+    this.clusters = new Map();
+    this.insights = new Map();
+    this.conversations = new Map();
+    this.messages = new Map();
+    this.prompts = new Map();
+    this.comparisons = new Map();
+    this.evalSets = new Map();
+    this.evalRuns = new Map();
+    this.usage = new Map();
     this.currentUserId = 1;
     this.currentAnalysisId = 1;
     this.currentDatasetId = 1;
     this.currentBatchJobId = 1;
+    this.currentClusterId = 1;
+    this.currentInsightId = 1;
+    this.currentConversationId = 1;
+    this.currentMessageId = 1;
+    this.currentPromptId = 1;
+    this.currentComparisonId = 1;
+    this.currentEvalSetId = 1;
+    this.currentEvalRunId = 1;
+    this.currentUsageId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -89,6 +169,9 @@ export class MemStorage implements IStorage {
     const analysis: AnalysisResult = { 
       ...insertAnalysis, 
       id,
+      csvMapping: insertAnalysis.csvMapping ?? null,
+      embeddings: insertAnalysis.embeddings ?? null,
+      copilotReviewed: insertAnalysis.copilotReviewed ?? null,
       createdAt: new Date()
     };
     this.analyses.set(id, analysis);
@@ -99,6 +182,26 @@ export class MemStorage implements IStorage {
     return this.analyses.get(id);
   }
 
+  async getAnalysisTraces(id: number): Promise<Trace[] | undefined> {
+    return this.analyses.get(id)?.traces;
+  }
+
+  async updateAnalysis(id: number, updates: Partial<InsertAnalysisResult>): Promise<AnalysisResult | undefined> {
+    const analysis = this.analyses.get(id);
+    if (!analysis) return undefined;
+
+    const updatedAnalysis = { ...analysis, ...updates };
+    this.analyses.set(id, updatedAnalysis);
+    return updatedAnalysis;
+  }
+
+  async findCsvMapping(headers: string[]): Promise<CsvColumnMapping | undefined> {
+    const signature = JSON.stringify(headers);
+    const matches = Array.from(this.analyses.values())
+      .filter(analysis => analysis.csvMapping && JSON.stringify(analysis.csvMapping.headers) === signature);
+    return matches[matches.length - 1]?.csvMapping ?? undefined;
+  }
+
   async createDataset(insertDataset: InsertDataset): Promise<Dataset> {
     const id = this.currentDatasetId++;
     const dataset: Dataset = {
@@ -125,6 +228,7 @@ export class MemStorage implements IStorage {
   async createBatchJob(insertJob: InsertBatchJob): Promise<BatchJob> {
     const job: BatchJob = {
       id: this.currentBatchJobId++,
+      status: 'pending',
       ...insertJob,
       createdAt: new Date(),
     };
@@ -150,23 +254,709 @@ export class MemStorage implements IStorage {
   }
 
   async deleteBatchJob(id: number): Promise<boolean> {
+    Array.from(this.usage.values())
+      .filter(usage => usage.batchJobId === id)
+      .forEach(usage => this.usage.set(usage.id, { ...usage, batchJobId: null }));
     return this.batchJobs.delete(id);
   }
 
   async saveBatchJobs(analysisId: number, jobs: Array<Omit<InsertBatchJob, 'analysisId'>>): Promise<BatchJob[]> {
-    // Delete existing jobs for this analysis
     const existingJobs = Array.from(this.batchJobs.values()).filter(job => job.analysisId === analysisId);
-    existingJobs.forEach(job => this.batchJobs.delete(job.id));
+    const keepJobIds = new Set(jobs.map(job => job.jobId));
+
+    // Delete jobs that were removed from the list
+    existingJobs
+      .filter(job => !keepJobIds.has(job.jobId))
+      .forEach(job => this.batchJobs.delete(job.id));
 
-    // Create new jobs
-    const newJobs: BatchJob[] = [];
+    // Update definitions in place so ids (and any running job) survive a save
+    const savedJobs: BatchJob[] = [];
     for (const jobData of jobs) {
-      const job = await this.createBatchJob({ ...jobData, analysisId });
-      newJobs.push(job);
+      const existing = existingJobs.find(job => job.jobId === jobData.jobId);
+      if (existing) {
+        const { name, query, model, maxResults } = jobData;
+        savedJobs.push((await this.updateBatchJob(existing.id, { name, query, model, maxResults }))!);
+      } else {
+        savedJobs.push(await this.createBatchJob({ ...jobData, analysisId }));
+      }
+    }
+
+    return savedJobs;
+  }
+
+  async createCluster(insertCluster: InsertCluster): Promise<Cluster> {
+    const now = new Date();
+    const cluster: Cluster = {
+      id: this.currentClusterId++,
+      description: null,
+      definingPrompt: null,
+      sourceMessageId: null,
+      ...insertCluster,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.clusters.set(cluster.id, cluster);
+    return cluster;
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    return this.clusters.get(id);
+  }
+
+  async getClustersByAnalysis(analysisId: number): Promise<Cluster[]> {
+    return Array.from(this.clusters.values()).filter(cluster => cluster.analysisId === analysisId);
+  }
+
+  async updateCluster(id: number, updates: Partial<Omit<InsertCluster, 'analysisId'>>): Promise<Cluster | undefined> {
+    const cluster = this.clusters.get(id);
+    if (!cluster) return undefined;
+
+    const updatedCluster = { ...cluster, ...updates, updatedAt: new Date() };
+    this.clusters.set(id, updatedCluster);
+    return updatedCluster;
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    return this.clusters.delete(id);
+  }
+
+  async createInsight(insertInsight: InsertTraceInsight): Promise<TraceInsight> {
+    const insight: TraceInsight = {
+      ...insertInsight,
+      id: this.currentInsightId++,
+      createdAt: new Date(),
+    };
+    this.insights.set(insight.id, insight);
+    return insight;
+  }
+
+  async getInsightsByAnalysis(analysisId: number): Promise<TraceInsight[]> {
+    return Array.from(this.insights.values()).filter(insight => insight.analysisId === analysisId);
+  }
+
+  async deleteInsight(id: number): Promise<boolean> {
+    return this.insights.delete(id);
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      ...insertConversation,
+      summary: insertConversation.summary ?? null,
+      summarizedMessageCount: insertConversation.summarizedMessageCount ?? 0,
+      id: this.currentConversationId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async getConversationsByAnalysis(analysisId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.analysisId === analysisId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateConversation(id: number, updates: Partial<Omit<InsertConversation, 'analysisId'>>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = { ...conversation, ...updates, updatedAt: new Date() };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    Array.from(this.messages.values())
+      .filter(message => message.conversationId === id)
+      .forEach(message => this.messages.delete(message.id));
+    return this.conversations.delete(id);
+  }
+
+  async addMessage(insertMessage: InsertMessage): Promise<Message> {
+    const message: Message = {
+      tracesWithTags: null,
+      classification: null,
+      ...insertMessage,
+      id: this.currentMessageId++,
+      createdAt: new Date(),
+    };
+    this.messages.set(message.id, message);
+    await this.updateConversation(message.conversationId, {});
+    return message;
+  }
+
+  async getMessages(conversationId: number): Promise<Message[]> {
+    return Array.from(this.messages.values()).filter(message => message.conversationId === conversationId);
+  }
+
+  async updateMessage(id: number, updates: Partial<Omit<InsertMessage, 'conversationId'>>): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const updatedMessage = { ...message, ...updates };
+    this.messages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async createPrompt(insertPrompt: InsertPrompt): Promise<Prompt> {
+    const versions = Array.from(this.prompts.values())
+      .filter(prompt => prompt.kind === insertPrompt.kind && prompt.name === insertPrompt.name)
+      .map(prompt => prompt.version);
+    const prompt: Prompt = {
+      author: null,
+      isDefault: false,
+      ...insertPrompt,
+      version: insertPrompt.version ?? Math.max(0, ...versions) + 1,
+      id: this.currentPromptId++,
+      createdAt: new Date(),
+    };
+    this.prompts.set(prompt.id, prompt);
+    return prompt;
+  }
+
+  async getPrompt(id: number): Promise<Prompt | undefined> {
+    return this.prompts.get(id);
+  }
+
+  async getPrompts(kind?: PromptKind): Promise<Prompt[]> {
+    return Array.from(this.prompts.values())
+      .filter(prompt => !kind || prompt.kind === kind)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getDefaultPrompt(kind: PromptKind): Promise<Prompt | undefined> {
+    return Array.from(this.prompts.values()).find(prompt => prompt.kind === kind && prompt.isDefault);
+  }
+
+  async setDefaultPrompt(id: number): Promise<Prompt | undefined> {
+    const prompt = this.prompts.get(id);
+    if (!prompt) return undefined;
+
+    Array.from(this.prompts.values())
+      .filter(other => other.kind === prompt.kind)
+      .forEach(other => this.prompts.set(other.id, { ...other, isDefault: other.id === id }));
+    return this.prompts.get(id);
+  }
+
+  async deletePrompt(id: number): Promise<boolean> {
+    return this.prompts.delete(id);
+  }
+
+  async createComparison(insertComparison: InsertPromptComparison): Promise<PromptComparison> {
+    const comparison: PromptComparison = {
+      ...insertComparison,
+      id: this.currentComparisonId++,
+      winner: null,
+      createdAt: new Date(),
+      votedAt: null,
+    };
+    this.comparisons.set(comparison.id, comparison);
+    return comparison;
+  }
+
+  async getComparison(id: number): Promise<PromptComparison | undefined> {
+    return this.comparisons.get(id);
+  }
+
+  async getComparisons(analysisId?: number): Promise<PromptComparison[]> {
+    return Array.from(this.comparisons.values())
+      .filter(comparison => analysisId === undefined || comparison.analysisId === analysisId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async voteComparison(id: number, winner: ComparisonWinner): Promise<PromptComparison | undefined> {
+    const comparison = this.comparisons.get(id);
+    if (!comparison) return undefined;
+
+    const votedComparison = { ...comparison, winner, votedAt: new Date() };
+    this.comparisons.set(id, votedComparison);
+    return votedComparison;
+  }
+
+  async createEvalSet(insertEvalSet: InsertEvalSet): Promise<EvalSet> {
+    const now = new Date();
+    const evalSet: EvalSet = {
+      description: null,
+      ...insertEvalSet,
+      id: this.currentEvalSetId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.evalSets.set(evalSet.id, evalSet);
+    return evalSet;
+  }
+
+  async getEvalSet(id: number): Promise<EvalSet | undefined> {
+    return this.evalSets.get(id);
+  }
+
+  async getEvalSetsByAnalysis(analysisId: number): Promise<EvalSet[]> {
+    return Array.from(this.evalSets.values()).filter(evalSet => evalSet.analysisId === analysisId);
+  }
+
+  async updateEvalSet(id: number, updates: Partial<Omit<InsertEvalSet, 'analysisId'>>): Promise<EvalSet | undefined> {
+    const evalSet = this.evalSets.get(id);
+    if (!evalSet) return undefined;
+
+    const updatedEvalSet = { ...evalSet, ...updates, updatedAt: new Date() };
+    this.evalSets.set(id, updatedEvalSet);
+    return updatedEvalSet;
+  }
+
+  async deleteEvalSet(id: number): Promise<boolean> {
+    Array.from(this.evalRuns.values())
+      .filter(run => run.evalSetId === id)
+      .forEach(run => this.evalRuns.delete(run.id));
+    return this.evalSets.delete(id);
+  }
+
+  async createEvalRun(insertEvalRun: InsertEvalRun): Promise<EvalRun> {
+    const run: EvalRun = {
+      promptId: null,
+      status: 'running',
+      metrics: null,
+      caseResults: null,
+      error: null,
+      completedAt: null,
+      ...insertEvalRun,
+      id: this.currentEvalRunId++,
+      createdAt: new Date(),
+    };
+    this.evalRuns.set(run.id, run);
+    return run;
+  }
+
+  async getEvalRunsBySet(evalSetId: number): Promise<EvalRun[]> {
+    return Array.from(this.evalRuns.values())
+      .filter(run => run.evalSetId === evalSetId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateEvalRun(id: number, updates: Partial<Omit<InsertEvalRun, 'evalSetId'>>): Promise<EvalRun | undefined> {
+    const run = this.evalRuns.get(id);
+    if (!run) return undefined;
+
+    const updatedRun = { ...run, ...updates };
+    this.evalRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  async recordUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const usage: LlmUsage = {
+      analysisId: null,
+      messageId: null,
+      batchJobId: null,
+      reasoningTokens: 0,
+      ...insertUsage,
+      id: this.currentUsageId++,
+      createdAt: new Date(),
+    };
+    this.usage.set(usage.id, usage);
+    return usage;
+  }
+
+  async getUsageByAnalysis(analysisId: number): Promise<LlmUsage[]> {
+    return Array.from(this.usage.values()).filter(usage => usage.analysisId === analysisId);
+  }
+
+  async getUsageCostSince(since: Date): Promise<number> {
+    return Array.from(this.usage.values())
+      .filter(usage => usage.createdAt >= since)
+      .reduce((total, usage) => total + usage.cost, 0);
+  }
+}
+
+type BatchJobRow = typeof batchJobs.$inferSelect;
+
+// Postgres error code for a unique index conflict
+const UNIQUE_VIOLATION = "23505";
+const PROMPT_VERSION_ATTEMPTS = 3;
+
+// Nullable columns come back as null from Postgres; BatchJob uses optional fields
+function toBatchJob(row: BatchJobRow): BatchJob {
+  return {
+    ...row,
+    results: row.results ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.createdAt ?? new Date(),
+    lastRunAt: row.lastRunAt ?? undefined,
+  };
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysisResult): Promise<AnalysisResult> {
+    const [row] = await this.db.insert(analysisResults).values(insertAnalysis).returning();
+    return row;
+  }
+
+  async getAnalysis(id: number): Promise<AnalysisResult | undefined> {
+    const [row] = await this.db.select().from(analysisResults).where(eq(analysisResults.id, id));
+    return row;
+  }
+
+  async getAnalysisTraces(id: number): Promise<Trace[] | undefined> {
+    const [row] = await this.db.select({ traces: analysisResults.traces }).from(analysisResults).where(eq(analysisResults.id, id));
+    return row?.traces;
+  }
+
+  async updateAnalysis(id: number, updates: Partial<InsertAnalysisResult>): Promise<AnalysisResult | undefined> {
+    const [row] = await this.db.update(analysisResults)
+      .set(updates)
+      .where(eq(analysisResults.id, id))
+      .returning();
+    return row;
+  }
+
+  async findCsvMapping(headers: string[]): Promise<CsvColumnMapping | undefined> {
+    const [row] = await this.db.select({ csvMapping: analysisResults.csvMapping })
+      .from(analysisResults)
+      .where(sql`${analysisResults.csvMapping}->'headers' = ${JSON.stringify(headers)}::jsonb`)
+      .orderBy(desc(analysisResults.id))
+      .limit(1);
+    return row?.csvMapping ?? undefined;
+  }
+
+  async createDataset(insertDataset: InsertDataset): Promise<Dataset> {
+    const [dataset] = await this.db.insert(datasets).values(insertDataset).returning();
+    return dataset;
+  }
+
+  async getDataset(id: number): Promise<Dataset | undefined> {
+    const [dataset] = await this.db.select().from(datasets).where(eq(datasets.id, id));
+    return dataset;
+  }
+
+  async getAllDatasets(): Promise<Dataset[]> {
+    return this.db.select().from(datasets).orderBy(datasets.id);
+  }
+
+  async deleteDataset(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(datasets).where(eq(datasets.id, id)).returning({ id: datasets.id });
+    return deleted.length > 0;
+  }
+
+  async createBatchJob(insertJob: InsertBatchJob): Promise<BatchJob> {
+    const [row] = await this.db.insert(batchJobs).values(insertJob).returning();
+    return toBatchJob(row);
+  }
+
+  async getBatchJob(id: number): Promise<BatchJob | undefined> {
+    const [row] = await this.db.select().from(batchJobs).where(eq(batchJobs.id, id));
+    return row ? toBatchJob(row) : undefined;
+  }
+
+  async getBatchJobsByAnalysis(analysisId: number): Promise<BatchJob[]> {
+    const rows = await this.db.select().from(batchJobs)
+      .where(eq(batchJobs.analysisId, analysisId))
+      .orderBy(batchJobs.id);
+    return rows.map(toBatchJob);
+  }
+
+  async updateBatchJob(id: number, updates: Partial<InsertBatchJob>): Promise<BatchJob | undefined> {
+    // An explicit undefined clears the column, matching the MemStorage spread
+    const values = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value ?? null]));
+    const [row] = await this.db.update(batchJobs).set(values).where(eq(batchJobs.id, id)).returning();
+    return row ? toBatchJob(row) : undefined;
+  }
+
+  async deleteBatchJob(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(batchJobs).where(eq(batchJobs.id, id)).returning({ id: batchJobs.id });
+    return deleted.length > 0;
+  }
+
+  async saveBatchJobs(analysisId: number, jobs: Array<Omit<InsertBatchJob, 'analysisId'>>): Promise<BatchJob[]> {
+    // Upsert by client job id in one transaction so ids (and any running job) survive a save
+    return this.db.transaction(async (tx) => {
+      const existingRows = await tx.select().from(batchJobs).where(eq(batchJobs.analysisId, analysisId));
+      const keepJobIds = new Set(jobs.map(job => job.jobId));
+
+      const removedIds = existingRows.filter(row => !keepJobIds.has(row.jobId)).map(row => row.id);
+      if (removedIds.length > 0) {
+        await tx.delete(batchJobs).where(inArray(batchJobs.id, removedIds));
+      }
+
+      const savedRows: BatchJobRow[] = [];
+      for (const job of jobs) {
+        const existing = existingRows.find(row => row.jobId === job.jobId);
+        if (existing) {
+          const { name, query, model, maxResults } = job;
+          const [row] = await tx.update(batchJobs)
+            .set({ name, query, model, maxResults })
+            .where(eq(batchJobs.id, existing.id))
+            .returning();
+          savedRows.push(row);
+        } else {
+          const [row] = await tx.insert(batchJobs).values({ ...job, analysisId }).returning();
+          savedRows.push(row);
+        }
+      }
+      return savedRows.map(toBatchJob);
+    });
+  }
+
+  async createCluster(insertCluster: InsertCluster): Promise<Cluster> {
+    const [row] = await this.db.insert(clusters).values(insertCluster).returning();
+    return row;
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    const [row] = await this.db.select().from(clusters).where(eq(clusters.id, id));
+    return row;
+  }
+
+  async getClustersByAnalysis(analysisId: number): Promise<Cluster[]> {
+    return this.db.select().from(clusters)
+      .where(eq(clusters.analysisId, analysisId))
+      .orderBy(clusters.id);
+  }
+
+  async updateCluster(id: number, updates: Partial<Omit<InsertCluster, 'analysisId'>>): Promise<Cluster | undefined> {
+    const [row] = await this.db.update(clusters)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(clusters.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(clusters).where(eq(clusters.id, id)).returning({ id: clusters.id });
+    return deleted.length > 0;
+  }
+
+  async createInsight(insertInsight: InsertTraceInsight): Promise<TraceInsight> {
+    const [row] = await this.db.insert(traceInsights).values(insertInsight).returning();
+    return row;
+  }
+
+  async getInsightsByAnalysis(analysisId: number): Promise<TraceInsight[]> {
+    return this.db.select().from(traceInsights)
+      .where(eq(traceInsights.analysisId, analysisId))
+      .orderBy(traceInsights.id);
+  }
+
+  async deleteInsight(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(traceInsights).where(eq(traceInsights.id, id)).returning({ id: traceInsights.id });
+    return deleted.length > 0;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [row] = await this.db.insert(conversations).values(insertConversation).returning();
+    return row;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [row] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return row;
+  }
+
+  async getConversationsByAnalysis(analysisId: number): Promise<Conversation[]> {
+    return this.db.select().from(conversations)
+      .where(eq(conversations.analysisId, analysisId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async updateConversation(id: number, updates: Partial<Omit<InsertConversation, 'analysisId'>>): Promise<Conversation | undefined> {
+    const [row] = await this.db.update(conversations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(conversations).where(eq(conversations.id, id)).returning({ id: conversations.id });
+    return deleted.length > 0;
+  }
+
+  async addMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [row] = await this.db.insert(messages).values(insertMessage).returning();
+    await this.updateConversation(insertMessage.conversationId, {});
+    return row;
+  }
+
+  async getMessages(conversationId: number): Promise<Message[]> {
+    return this.db.select().from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messages.id);
+  }
+
+  async updateMessage(id: number, updates: Partial<Omit<InsertMessage, 'conversationId'>>): Promise<Message | undefined> {
+    const [row] = await this.db.update(messages)
+      .set(updates)
+      .where(eq(messages.id, id))
+      .returning();
+    return row;
+  }
+
+  async createPrompt(insertPrompt: InsertPrompt): Promise<Prompt> {
+    if (insertPrompt.version !== undefined) {
+      const [row] = await this.db.insert(prompts).values(insertPrompt).returning();
+      return row;
+    }
+
+    // A concurrent save can take the same next version; the unique index rejects one of them and it tries again
+    for (let attempt = 1; ; attempt++) {
+      const [latest] = await this.db.select({ version: sql<number>`max(${prompts.version})` }).from(prompts)
+        .where(and(eq(prompts.kind, insertPrompt.kind), eq(prompts.name, insertPrompt.name)));
+      const version = (latest?.version ?? 0) + 1;
+      try {
+        const [row] = await this.db.insert(prompts).values({ ...insertPrompt, version }).returning();
+        return row;
+      } catch (error) {
+        if (attempt >= PROMPT_VERSION_ATTEMPTS || (error as { code?: string }).code !== UNIQUE_VIOLATION) throw error;
+      }
     }
+  }
+
+  async getPrompt(id: number): Promise<Prompt | undefined> {
+    const [row] = await this.db.select().from(prompts).where(eq(prompts.id, id));
+    return row;
+  }
+
+  async getPrompts(kind?: PromptKind): Promise<Prompt[]> {
+    return this.db.select().from(prompts)
+      .where(kind ? eq(prompts.kind, kind) : undefined)
+      .orderBy(desc(prompts.id));
+  }
+
+  async getDefaultPrompt(kind: PromptKind): Promise<Prompt | undefined> {
+    const [row] = await this.db.select().from(prompts)
+      .where(and(eq(prompts.kind, kind), eq(prompts.isDefault, true)));
+    return row;
+  }
+
+  async setDefaultPrompt(id: number): Promise<Prompt | undefined> {
+    const prompt = await this.getPrompt(id);
+    if (!prompt) return undefined;
+
+    // One transaction, so the kind is never left without a default or with two
+    return this.db.transaction(async (tx) => {
+      await tx.update(prompts).set({ isDefault: false }).where(eq(prompts.kind, prompt.kind));
+      const [row] = await tx.update(prompts).set({ isDefault: true }).where(eq(prompts.id, id)).returning();
+      return row;
+    });
+  }
+
+  async deletePrompt(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(prompts).where(eq(prompts.id, id)).returning({ id: prompts.id });
+    return deleted.length > 0;
+  }
+
+  async createComparison(insertComparison: InsertPromptComparison): Promise<PromptComparison> {
+    const [row] = await this.db.insert(promptComparisons).values(insertComparison).returning();
+    return row;
+  }
+
+  async getComparison(id: number): Promise<PromptComparison | undefined> {
+    const [row] = await this.db.select().from(promptComparisons).where(eq(promptComparisons.id, id));
+    return row;
+  }
+
+  async getComparisons(analysisId?: number): Promise<PromptComparison[]> {
+    return this.db.select().from(promptComparisons)
+      .where(analysisId !== undefined ? eq(promptComparisons.analysisId, analysisId) : undefined)
+      .orderBy(desc(promptComparisons.id));
+  }
+
+  async voteComparison(id: number, winner: ComparisonWinner): Promise<PromptComparison | undefined> {
+    const [row] = await this.db.update(promptComparisons)
+      .set({ winner, votedAt: new Date() })
+      .where(eq(promptComparisons.id, id))
+      .returning();
+    return row;
+  }
+
+  async createEvalSet(insertEvalSet: InsertEvalSet): Promise<EvalSet> {
+    const [row] = await this.db.insert(evalSets).values(insertEvalSet).returning();
+    return row;
+  }
+
+  async getEvalSet(id: number): Promise<EvalSet | undefined> {
+    const [row] = await this.db.select().from(evalSets).where(eq(evalSets.id, id));
+    return row;
+  }
+
+  async getEvalSetsByAnalysis(analysisId: number): Promise<EvalSet[]> {
+    return this.db.select().from(evalSets)
+      .where(eq(evalSets.analysisId, analysisId))
+      .orderBy(evalSets.id);
+  }
+
+  async updateEvalSet(id: number, updates: Partial<Omit<InsertEvalSet, 'analysisId'>>): Promise<EvalSet | undefined> {
+    const [row] = await this.db.update(evalSets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(evalSets.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteEvalSet(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(evalSets).where(eq(evalSets.id, id)).returning({ id: evalSets.id });
+    return deleted.length > 0;
+  }
+
+  async createEvalRun(insertEvalRun: InsertEvalRun): Promise<EvalRun> {
+    const [row] = await this.db.insert(evalRuns).values(insertEvalRun).returning();
+    return row;
+  }
+
+  async getEvalRunsBySet(evalSetId: number): Promise<EvalRun[]> {
+    return this.db.select().from(evalRuns)
+      .where(eq(evalRuns.evalSetId, evalSetId))
+      .orderBy(desc(evalRuns.id));
+  }
+
+  async updateEvalRun(id: number, updates: Partial<Omit<InsertEvalRun, 'evalSetId'>>): Promise<EvalRun | undefined> {
+    const [row] = await this.db.update(evalRuns)
+      .set(updates)
+      .where(eq(evalRuns.id, id))
+      .returning();
+    return row;
+  }
+
+  async recordUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const [row] = await this.db.insert(llmUsage).values(insertUsage).returning();
+    return row;
+  }
+
+  async getUsageByAnalysis(analysisId: number): Promise<LlmUsage[]> {
+    return this.db.select().from(llmUsage)
+      .where(eq(llmUsage.analysisId, analysisId))
+      .orderBy(llmUsage.id);
+  }
 
-    return newJobs;
+  async getUsageCostSince(since: Date): Promise<number> {
+    const [row] = await this.db.select({ cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)` })
+      .from(llmUsage)
+      .where(gte(llmUsage.createdAt, since));
+    return Number(row?.cost ?? 0);
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// Use Postgres when DATABASE_URL is configured, otherwise fall back to in-memory storage
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
\ No newline at end of file
@@ -0,0 +1,9 @@
+// Cluster and category names compare equal when they differ only in case, spacing or punctuation.
+// Shared by the server (matching clusters) and the dashboard (matching answer headings to classification stats).
+
+// Any letter or digit counts, so non-Latin names don't normalize to ""
+const NON_ALPHANUMERIC = new RegExp("[^\\p{L}\\p{N}]+", "gu");
+
+export function normalizeClusterName(name: string): string {
+  return name.toLowerCase().replace(NON_ALPHANUMERIC, " ").trim();
+}
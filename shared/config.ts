@@ -38,5 +38,22 @@ MAXIMUM VARIABILITY REQUIREMENT:
 - Prioritize maximum variability across different patterns, behaviors, and edge cases
 - Avoid repetitive/similar traces - choose diverse scenarios that capture the broadest range of behaviors
 
-Be selective and choose the most relevant traces that clearly demonstrate the categories discussed in the AI response while maximizing the diversity and variability of the selected traces.`
+Be selective and choose the most relevant traces that clearly demonstrate the categories discussed in the AI response while maximizing the diversity and variability of the selected traces.`,
+
+  batch: `You are analyzing production traces to find examples that match a specific query.
+
+QUERY: {query}
+
+TRACES TO ANALYZE (part {part} of {parts}):
+{traces}
+
+INSTRUCTIONS:
+1. Carefully read through all traces and identify all the ones that match the query criteria
+2. Score each matching trace from 0.0 to 1.0 based on how well it matches the query
+3. Provide a brief reasoning for why each trace matches
+4. Return up to {maxResults} of the best matching traces, ordered by relevance score (highest first)
+5. Only include traces that genuinely match the query criteria
+6. If no traces match, return an empty array
+
+Be thorough but selective - quality over quantity.`
 }; 
\ No newline at end of file
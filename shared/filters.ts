@@ -0,0 +1,251 @@
+import type { Trace } from "./schema";
+
+// Structured trace filters: conditions on a trace's fields and metadata, joined with AND or OR.
+// Evaluated the same way in the browser (trace list) and on the server (analysis and batch scope).
+
+export type FilterValueType = "string" | "number" | "date" | "boolean" | "list";
+
+export type FilterOperator =
+  | "is" | "is_not" | "contains" | "not_contains"
+  | "eq" | "gt" | "gte" | "lt" | "lte"
+  | "on" | "before" | "after"
+  | "includes" | "excludes"
+  | "exists" | "missing";
+
+// Built-in fields, or "metadata.<key>" for any other metadata value (CSV columns, LangSmith extras, ...)
+export type FilterField = "startTime" | "name" | "model" | "user" | "latencyMs" | "error" | "tags" | `metadata.${string}`;
+
+export type FilterCondition = {
+  field: FilterField;
+  operator: FilterOperator;
+  value: string; // Dates are YYYY-MM-DD (UTC days), booleans "true"/"false"
+};
+
+export type TraceFilter = {
+  combinator: "and" | "or";
+  conditions: FilterCondition[];
+};
+
+export const FILTER_FIELDS: Array<{ field: FilterField; label: string; type: FilterValueType }> = [
+  { field: "startTime", label: "Time", type: "date" },
+  { field: "name", label: "Name", type: "string" },
+  { field: "model", label: "Model", type: "string" },
+  { field: "user", label: "User", type: "string" },
+  { field: "latencyMs", label: "Latency (ms)", type: "number" },
+  { field: "error", label: "Error", type: "boolean" },
+  { field: "tags", label: "Tags", type: "list" },
+];
+
+export const FILTER_OPERATORS: Record<FilterValueType, Array<{ operator: FilterOperator; label: string }>> = {
+  string: [
+    { operator: "is", label: "is" },
+    { operator: "is_not", label: "is not" },
+    { operator: "contains", label: "contains" },
+    { operator: "not_contains", label: "does not contain" },
+    { operator: "exists", label: "is set" },
+    { operator: "missing", label: "is not set" },
+  ],
+  number: [
+    { operator: "eq", label: "=" },
+    { operator: "gt", label: ">" },
+    { operator: "gte", label: "≥" },
+    { operator: "lt", label: "<" },
+    { operator: "lte", label: "≤" },
+    { operator: "exists", label: "is set" },
+    { operator: "missing", label: "is not set" },
+  ],
+  date: [
+    { operator: "on", label: "on" },
+    { operator: "before", label: "before" },
+    { operator: "after", label: "after" },
+    { operator: "exists", label: "is set" },
+    { operator: "missing", label: "is not set" },
+  ],
+  boolean: [
+    { operator: "is", label: "is" },
+  ],
+  list: [
+    { operator: "includes", label: "includes" },
+    { operator: "excludes", label: "excludes" },
+    { operator: "exists", label: "is set" },
+    { operator: "missing", label: "is not set" },
+  ],
+};
+
+const USER_KEYS = ["userId", "user_id", "user"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function fieldType(field: FilterField): FilterValueType {
+  return FILTER_FIELDS.find(definition => definition.field === field)?.type ?? "string";
+}
+
+export function fieldLabel(field: FilterField): string {
+  return FILTER_FIELDS.find(definition => definition.field === field)?.label ?? field.slice("metadata.".length);
+}
+
+// Metadata keys present on any trace that aren't already covered by a built-in field
+export function metadataFilterFields(traces: Array<Pick<Trace, "metadata">>): FilterField[] {
+  const builtIn = new Set(["model", "tags", ...USER_KEYS]);
+  const keys = new Set<string>();
+  for (const trace of traces) {
+    for (const [key, value] of Object.entries(trace.metadata ?? {})) {
+      if (!builtIn.has(key) && (value === null || typeof value !== "object")) keys.add(key);
+    }
+  }
+  return Array.from(keys).sort().map(key => `metadata.${key}` as FilterField);
+}
+
+function hasSpanError(spans: Trace["steps"]): boolean {
+  return spans.some(span => !!span.error || hasSpanError(span.children));
+}
+
+// The raw value a filter field reads from a trace; also used by the search syntax's field:value terms
+export function filterFieldValue(trace: Trace, field: FilterField): unknown {
+  const metadata = trace.metadata ?? {};
+  switch (field) {
+    case "startTime": return trace.startTime;
+    case "name": return trace.name;
+    case "model": return metadata.model;
+    case "user": return USER_KEYS.map(key => metadata[key]).find(value => value !== undefined && value !== null);
+    case "latencyMs": return trace.latencyMs;
+    case "error": return !!trace.error || hasSpanError(trace.steps ?? []);
+    case "tags": return metadata.tags;
+    default: return metadata[field.slice("metadata.".length)];
+  }
+}
+
+const isSet = (value: unknown) => value !== undefined && value !== null && value !== "";
+
+function matchesCondition(trace: Trace, condition: FilterCondition): boolean {
+  const value = filterFieldValue(trace, condition.field);
+  const expected = condition.value.trim();
+
+  switch (condition.operator) {
+    case "exists": return isSet(value) && !(Array.isArray(value) && value.length === 0);
+    case "missing": return !isSet(value) || (Array.isArray(value) && value.length === 0);
+  }
+
+  switch (fieldType(condition.field)) {
+    case "boolean":
+      return value === (expected === "true");
+
+    case "number": {
+      const actual = Number(value);
+      const target = Number(expected);
+      if (!isSet(value) || Number.isNaN(actual)) return false;
+      switch (condition.operator) {
+        case "eq": return actual === target;
+        case "gt": return actual > target;
+        case "gte": return actual >= target;
+        case "lt": return actual < target;
+        case "lte": return actual <= target;
+      }
+      return false;
+    }
+
+    case "date": {
+      const actual = isSet(value) ? Date.parse(String(value)) : NaN;
+      const dayStart = Date.parse(expected);
+      if (Number.isNaN(actual) || Number.isNaN(dayStart)) return false;
+      switch (condition.operator) {
+        case "on": return actual >= dayStart && actual < dayStart + DAY_MS;
+        case "before": return actual < dayStart;
+        case "after": return actual >= dayStart + DAY_MS;
+      }
+      return false;
+    }
+
+    case "list": {
+      const items = Array.isArray(value) ? value.map(item => String(item).toLowerCase()) : [];
+      const included = items.includes(expected.toLowerCase());
+      return condition.operator === "excludes" ? !included : included;
+    }
+
+    default: {
+      const actual = isSet(value) ? String(value).toLowerCase() : "";
+      const target = expected.toLowerCase();
+      switch (condition.operator) {
+        case "is": return isSet(value) && actual === target;
+        case "is_not": return actual !== target;
+        case "contains": return isSet(value) && actual.includes(target);
+        case "not_contains": return !actual.includes(target);
+      }
+      return false;
+    }
+  }
+}
+
+export function isEmptyFilter(filter: TraceFilter | null | undefined): boolean {
+  return !filter || filter.conditions.length === 0;
+}
+
+export function matchesTraceFilter(trace: Trace, filter: TraceFilter): boolean {
+  if (filter.conditions.length === 0) return true;
+  return filter.combinator === "or"
+    ? filter.conditions.some(condition => matchesCondition(trace, condition))
+    : filter.conditions.every(condition => matchesCondition(trace, condition));
+}
+
+export function applyTraceFilter<T extends Trace>(traces: T[], filter: TraceFilter | null | undefined): T[] {
+  if (!filter || isEmptyFilter(filter)) return traces;
+  return traces.filter(trace => matchesTraceFilter(trace, filter));
+}
+
+const needsValue = (operator: FilterOperator) => operator !== "exists" && operator !== "missing";
+
+// Problems with a filter sent by a client; empty when it can be applied
+export function filterErrors(filter: unknown): string[] {
+  if (!filter || typeof filter !== "object") return ["filter must be an object"];
+  const { combinator, conditions } = filter as Partial<TraceFilter>;
+  const errors: string[] = [];
+  if (combinator !== "and" && combinator !== "or") errors.push('combinator must be "and" or "or"');
+  if (!Array.isArray(conditions)) return [...errors, "conditions must be an array"];
+
+  conditions.forEach((condition, index) => {
+    const label = `condition ${index + 1}`;
+    if (!condition || typeof condition.field !== "string" || typeof condition.operator !== "string" || typeof condition.value !== "string") {
+      errors.push(`${label} needs a field, operator and value`);
+      return;
+    }
+    if (!FILTER_FIELDS.some(definition => definition.field === condition.field) && !condition.field.startsWith("metadata.")) {
+      errors.push(`${label} has an unknown field "${condition.field}"`);
+      return;
+    }
+    const type = fieldType(condition.field);
+    if (!FILTER_OPERATORS[type].some(option => option.operator === condition.operator)) {
+      errors.push(`${label} can't use "${condition.operator}" on ${fieldLabel(condition.field)}`);
+      return;
+    }
+    if (!needsValue(condition.operator)) return;
+    if (condition.value.trim() === "") {
+      errors.push(`${label} needs a value`);
+    } else if (type === "number" && Number.isNaN(Number(condition.value))) {
+      errors.push(`${label} needs a number`);
+    } else if (type === "date" && !/^\d{4}-\d{2}-\d{2}$/.test(condition.value.trim())) {
+      errors.push(`${label} needs a YYYY-MM-DD date`);
+    } else if (type === "boolean" && condition.value !== "true" && condition.value !== "false") {
+      errors.push(`${label} needs true or false`);
+    }
+  });
+  return errors;
+}
+
+// Only the conditions that can be applied yet; the builder keeps half-filled rows while they're edited
+export function completeFilter(filter: TraceFilter): TraceFilter {
+  return {
+    ...filter,
+    conditions: filter.conditions.filter(condition => filterErrors({ combinator: "and", conditions: [condition] }).length === 0),
+  };
+}
+
+// "Error is true AND Time on 2024-05-14", for scope chips and logs
+export function describeFilter(filter: TraceFilter): string {
+  return filter.conditions
+    .map(condition => {
+      const operator = FILTER_OPERATORS[fieldType(condition.field)].find(option => option.operator === condition.operator)?.label ?? condition.operator;
+      return needsValue(condition.operator)
+        ? `${fieldLabel(condition.field)} ${operator} ${condition.value}`
+        : `${fieldLabel(condition.field)} ${operator}`;
+    })
+    .join(filter.combinator === "or" ? " OR " : " AND ");
+}
@@ -0,0 +1,32 @@
+// USD per million tokens. Reasoning tokens are billed as completion tokens, and OpenAI already
+// counts them in completion_tokens, so they only appear separately for reporting.
+export type ModelPrice = {
+  prompt: number;
+  completion: number;
+};
+
+export type ModelPrices = Record<string, ModelPrice>;
+
+// Keys are model values as shown in the model dropdowns; bare names are OpenAI models
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "o4-mini": { prompt: 1.1, completion: 4.4 },
+  "o3": { prompt: 2, completion: 8 },
+  "o3-mini": { prompt: 1.1, completion: 4.4 },
+  "openai:text-embedding-3-small": { prompt: 0.02, completion: 0 },
+  "mock:mock-analyst": { prompt: 0, completion: 0 },
+};
+
+// Models without a price (e.g. self-hosted compatible models) cost nothing rather than a guess
+export function estimateCost(prices: ModelPrices, model: string, promptTokens: number, completionTokens: number): number {
+  const price = prices[model];
+  if (!price) return 0;
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
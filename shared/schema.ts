@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, doublePrecision, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,7 +10,11 @@ export const users = pgTable("users", {
 
 export const analysisResults = pgTable("analysis_results", {
   id: serial("id").primaryKey(),
-  langsmithContent: text("langsmith_content").notNull(),
+  traces: jsonb("traces").$type<Trace[]>().notNull(),
+  traceFormat: text("trace_format").$type<TraceFormat>().notNull(),
+  csvMapping: jsonb("csv_mapping").$type<CsvColumnMapping>(), // Used for CSV uploads
+  embeddings: jsonb("embeddings").$type<TraceEmbeddingIndex>(), // Built in the background after upload
+  copilotReviewed: jsonb("copilot_reviewed").$type<string[]>(), // Ids of the traces the background copilot has already looked at
   datasetFiles: jsonb("dataset_files").notNull(),
   analysisData: jsonb("analysis_data").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -24,13 +28,59 @@ export const batchJobs = pgTable("batch_jobs", {
   query: text("query").notNull(),
   model: text("model").notNull(),
   maxResults: integer("max_results").notNull().default(30),
-  status: text("status").notNull().default("pending"), // pending, running, completed, error
+  status: text("status").notNull().default("pending"), // pending, queued, running, completed, error
   results: jsonb("results"), // Array of BatchJobResult
   error: text("error"),
   createdAt: timestamp("created_at").defaultNow(),
   lastRunAt: timestamp("last_run_at"),
 });
 
+export const clusters = pgTable("clusters", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  definingPrompt: text("defining_prompt"), // Question or instruction that produced the cluster
+  traceIds: jsonb("trace_ids").$type<string[]>().notNull(), // Member trace ids; a trace can sit in several clusters
+  sourceMessageId: text("source_message_id"), // Chat message whose reasoning pass created the cluster
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const traceInsights = pgTable("trace_insights", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }).notNull(),
+  category: text("category").notNull(), // anomaly, novel_pattern, failure_mode, user_behavior
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  icon: text("icon").notNull(), // lucide icon name
+  color: text("color").notNull(), // Tailwind color name
+  traceIds: jsonb("trace_ids").$type<string[]>().notNull(), // Traces the finding is based on
+  model: text("model").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  summary: text("summary"), // Running summary of the turns that no longer fit the context window
+  summarizedMessageCount: integer("summarized_message_count").default(0).notNull(), // How many leading messages the summary covers
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  clientId: text("client_id").notNull(), // Id the dashboard gave the message; clusters point back to it
+  type: text("type").$type<"user" | "assistant">().notNull(),
+  content: text("content").notNull(),
+  tracesWithTags: jsonb("traces_with_tags").$type<TaggedTrace[]>(), // Picked by the reasoning model
+  classification: jsonb("classification").$type<ClassificationStat[]>(), // Per-category counts from the full-corpus classification
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const datasets = pgTable("datasets", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -41,15 +91,159 @@ export const datasets = pgTable("datasets", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Saved prompt versions. Edits create a new version; one prompt per kind is the default the server uses
+export const prompts = pgTable("prompts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").$type<PromptKind>().notNull(),
+  body: text("body").notNull(),
+  version: integer("version").notNull().default(1), // Counts up per name and kind
+  author: text("author"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Two saves of the same prompt can't both take the next version
+  kindNameVersion: uniqueIndex("prompts_kind_name_version_idx").on(table.kind, table.name, table.version),
+}));
+
+// One question answered with two prompt/model setups over the same trace sample, and which answer won
+export const promptComparisons = pgTable("prompt_comparisons", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }).notNull(),
+  query: text("query").notNull(),
+  seed: integer("seed").notNull(), // Shared retrieval seed, so both arms see the same traces
+  arms: jsonb("arms").$type<ComparisonArm[]>().notNull(),
+  winner: text("winner").$type<ComparisonWinner>(), // Null until someone votes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  votedAt: timestamp("voted_at"),
+});
+
+// Gold sets for the trace-selection step: questions with the traces (and tags) it should pick
+export const evalSets = pgTable("eval_sets", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  cases: jsonb("cases").$type<EvalCase[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const evalRuns = pgTable("eval_runs", {
+  id: serial("id").primaryKey(),
+  evalSetId: integer("eval_set_id").references(() => evalSets.id, { onDelete: "cascade" }).notNull(),
+  model: text("model").notNull(),
+  promptId: integer("prompt_id"), // Reasoning prompt version, null for the built-in or unsaved text
+  promptName: text("prompt_name").notNull(),
+  status: text("status").notNull().default("running"), // running, completed, partial (some cases failed), error
+  metrics: jsonb("metrics").$type<EvalMetrics>(), // Over the cases that didn't fail
+  caseResults: jsonb("case_results").$type<EvalCaseResult[]>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// One row per LLM call, attributed to whatever the call was made for
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => analysisResults.id, { onDelete: "cascade" }),
+  messageId: text("message_id"), // Client id of the assistant message the call answered
+  batchJobId: integer("batch_job_id").references(() => batchJobs.id, { onDelete: "set null" }),
+  operation: text("operation").$type<UsageOperation>().notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  reasoningTokens: integer("reasoning_tokens").notNull().default(0),
+  cost: doublePrecision("cost").notNull(), // USD from the price table at the time of the call
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertAnalysisSchema = createInsertSchema(analysisResults).pick({
-  langsmithContent: true,
-  datasetFiles: true,
-  analysisData: true,
+export const insertClusterSchema = createInsertSchema(clusters).pick({
+  analysisId: true,
+  name: true,
+  description: true,
+  definingPrompt: true,
+  traceIds: true,
+  sourceMessageId: true,
+});
+
+export const insertTraceInsightSchema = createInsertSchema(traceInsights).pick({
+  analysisId: true,
+  category: true,
+  title: true,
+  description: true,
+  icon: true,
+  color: true,
+  traceIds: true,
+  model: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  analysisId: true,
+  title: true,
+  summary: true,
+  summarizedMessageCount: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages).pick({
+  conversationId: true,
+  clientId: true,
+  type: true,
+  content: true,
+  tracesWithTags: true,
+  classification: true,
+});
+
+export const insertPromptSchema = createInsertSchema(prompts).pick({
+  name: true,
+  kind: true,
+  body: true,
+  version: true,
+  author: true,
+  isDefault: true,
+});
+
+export const insertPromptComparisonSchema = createInsertSchema(promptComparisons).pick({
+  analysisId: true,
+  query: true,
+  seed: true,
+  arms: true,
+});
+
+export const insertEvalSetSchema = createInsertSchema(evalSets).pick({
+  analysisId: true,
+  name: true,
+  description: true,
+  cases: true,
+});
+
+export const insertEvalRunSchema = createInsertSchema(evalRuns).pick({
+  evalSetId: true,
+  model: true,
+  promptId: true,
+  promptName: true,
+  status: true,
+  metrics: true,
+  caseResults: true,
+  error: true,
+  completedAt: true,
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).pick({
+  analysisId: true,
+  messageId: true,
+  batchJobId: true,
+  operation: true,
+  model: true,
+  promptTokens: true,
+  completionTokens: true,
+  reasoningTokens: true,
+  cost: true,
 });
 
 export const insertDatasetSchema = createInsertSchema(datasets).pick({
@@ -62,11 +256,255 @@ export const insertDatasetSchema = createInsertSchema(datasets).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// Insert types pick from Drizzle's own insert types, which keep each column's $type; z.infer of the schemas would widen them
 export type AnalysisResult = typeof analysisResults.$inferSelect;
-export type InsertAnalysisResult = z.infer<typeof insertAnalysisSchema>;
+// No drizzle-zod schema here: it can't build one for the recursive TraceSpan type
+export type InsertAnalysisResult = Pick<
+  typeof analysisResults.$inferInsert,
+  "traces" | "traceFormat" | "csvMapping" | "embeddings" | "copilotReviewed" | "datasetFiles" | "analysisData"
+>;
+export type Cluster = typeof clusters.$inferSelect;
+export type InsertCluster = Pick<typeof clusters.$inferInsert, keyof z.infer<typeof insertClusterSchema>>;
+export type TraceInsight = typeof traceInsights.$inferSelect;
+export type InsertTraceInsight = Pick<typeof traceInsights.$inferInsert, keyof z.infer<typeof insertTraceInsightSchema>>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = Pick<typeof messages.$inferInsert, keyof z.infer<typeof insertMessageSchema>>;
+export type Prompt = typeof prompts.$inferSelect;
+export type InsertPrompt = Pick<typeof prompts.$inferInsert, keyof z.infer<typeof insertPromptSchema>>;
+export type PromptComparison = typeof promptComparisons.$inferSelect;
+export type InsertPromptComparison = Pick<typeof promptComparisons.$inferInsert, keyof z.infer<typeof insertPromptComparisonSchema>>;
+export type EvalSet = typeof evalSets.$inferSelect;
+export type InsertEvalSet = Pick<typeof evalSets.$inferInsert, keyof z.infer<typeof insertEvalSetSchema>>;
+export type EvalRun = typeof evalRuns.$inferSelect;
+export type InsertEvalRun = Pick<typeof evalRuns.$inferInsert, keyof z.infer<typeof insertEvalRunSchema>>;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = Pick<typeof llmUsage.$inferInsert, keyof z.infer<typeof insertLlmUsageSchema>>;
 export type Dataset = typeof datasets.$inferSelect;
 export type InsertDataset = z.infer<typeof insertDatasetSchema>;
 
+// Trace model produced by the upload parsers (server/parsers)
+export type TraceFormat = "text" | "json" | "jsonl" | "csv" | "langsmith" | "otlp";
+
+// Which CSV columns hold the trace text and which are kept as metadata.
+// Saved with the analysis and reused for later uploads with the same header.
+export type CsvColumnMapping = {
+  headers: string[];
+  textColumn: string;
+  outputColumn?: string;
+  metadataColumns: string[];
+};
+
+// One vector per trace, in trace order. Vectors are L2-normalized float32 values packed into one base64 string.
+export type TraceEmbeddingIndex = {
+  model: string; // "<provider>:<embedding model>"
+  dimensions: number;
+  count: number;
+  vectors: string;
+};
+
+// How the chat model's {traces} section is chosen
+export type RetrievalStrategy = "hybrid" | "semantic" | "random";
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type TraceSpan = {
+  id: string;
+  name: string;
+  kind: string; // llm, chain, tool, retriever, ...
+  inputs?: unknown;
+  outputs?: unknown;
+  error?: string;
+  startTime?: string; // ISO timestamp
+  endTime?: string;
+  latencyMs?: number;
+  tokenUsage?: TokenUsage;
+  children: TraceSpan[];
+};
+
+export type Trace = {
+  id: string; // Position plus content hash, see shared/traceIds.ts
+  format: TraceFormat;
+  text: string; // Single-line rendering used by the trace list, search and prompts
+  name?: string;
+  inputs?: unknown;
+  outputs?: unknown;
+  error?: string;
+  startTime?: string;
+  endTime?: string;
+  latencyMs?: number;
+  tokenUsage?: TokenUsage;
+  steps: TraceSpan[];
+  metadata: Record<string, unknown>;
+};
+
+// What the parsers produce before ids are assigned
+export type ParsedTrace = Omit<Trace, "id">;
+
+// A trace the reasoning model picked for an answer, with the categories it matched
+export type TaggedTrace = {
+  trace: string;
+  traceId: string;
+  tags: string[];
+};
+
+// How many traces of the whole analysis fall into one category of an answer
+export type ClassificationStat = {
+  category: string;
+  clusterId: number;
+  count: number;
+  percentage: number;
+};
+
+// Which step a saved prompt is used for
+export const PROMPT_KINDS = ["analysis", "reasoning", "batch"] as const;
+export type PromptKind = typeof PROMPT_KINDS[number];
+
+// One side of a prompt comparison: the setup it ran with and what it produced
+export type ComparisonArm = {
+  label: "A" | "B";
+  model: string;
+  promptId: number | null; // Saved prompt version, or null for unsaved editor text
+  promptName: string; // e.g. "Built-in v1"
+  prompt: string;
+  response: string;
+  traceIds: string[]; // Traces the reasoning model tagged for this answer
+};
+
+export type ComparisonWinner = "A" | "B" | "tie";
+
+// Votes for one prompt and model setup across all comparisons
+export type ComparisonStat = {
+  promptName: string;
+  model: string;
+  wins: number;
+  losses: number;
+  ties: number;
+};
+
+// A labeled question for the trace-selection step. `response` is the answer whose categories become the tags.
+export type EvalCase = {
+  question: string;
+  response: string;
+  expected: Array<{ traceId: string; tags: string[] }>;
+};
+
+export type EvalMetrics = {
+  precision: number;
+  recall: number;
+  f1: number;
+  tagAgreement: number | null; // Mean tag overlap on correctly picked traces; null when none were picked
+};
+
+export type EvalCaseResult = EvalMetrics & {
+  question: string;
+  selected: Array<{ traceId: string; tags: string[] }>;
+  error?: string;
+};
+
+export type UsageOperation = "analysis" | "reasoning" | "summary" | "batch" | "classification" | "clusters" | "copilot" | "embedding";
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  cost: number;
+};
+
+// GET /api/analysis/:id/usage
+export type AnalysisUsage = {
+  total: UsageTotals;
+  byOperation: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byMessage: Record<string, UsageTotals>; // Keyed by message client id
+  byBatchJob: Record<string, UsageTotals>;
+};
+
+// Pre-flight estimate of one batch job run. Reasoning tokens can't be predicted and are not included.
+export type BatchJobEstimate = {
+  traceCount: number;
+  chunks: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+};
+
+// Limits are in USD; null means no limit. Runs over a limit are rejected or cut down to what fits.
+export type BudgetStatus = {
+  jobCostLimit: number | null;
+  dailyCostLimit: number | null;
+  spentToday: number; // Including the estimates of batch jobs still running
+  overrun: "reject" | "truncate";
+};
+
+// POST /api/batch-jobs/estimate
+export type BatchRunEstimate = {
+  jobs: Array<BatchJobEstimate & { jobId: string; overLimit: boolean }>;
+  total: BatchJobEstimate;
+  budget: BudgetStatus;
+};
+
+// GET /api/analysis/:id/search: one page of the traces matching a search query, in upload order
+export type TraceSearchMatch = {
+  traceId: string;
+  position: number;
+  highlights: Array<[number, number]>; // [start, end) ranges of trace.text to highlight
+};
+
+export type TraceSearchPage = {
+  total: number;
+  offset: number;
+  matches: TraceSearchMatch[];
+};
+
+// How GET /api/analysis/:id/traces orders the list; pinned traces (the latest answer's) always come first
+export type TraceSort = "position" | "startTime" | "latency";
+
+// A row of the trace list. Spans, inputs and outputs stay on the server.
+export type TraceListItem = Omit<Trace, "steps" | "inputs" | "outputs"> & {
+  position: number;
+  hasError: boolean; // The trace or any of its spans failed
+  highlights: Array<[number, number]>;
+};
+
+// GET /api/analysis/:id/traces
+export type TracePage = {
+  traces: TraceListItem[];
+  total: number; // Matching traces across all pages
+  nextCursor: string | null;
+};
+
+// Everything stored for an analysis that points at one trace
+export type TraceReferences = {
+  clusters: Array<{ id: number; name: string; description: string | null }>;
+  tags: Array<{ conversationId: number; conversationTitle: string; question: string; tags: string[] }>; // Chat answers that picked the trace
+  batchResults: Array<{ jobId: string; name: string; query: string; relevanceScore: number; reasoning: string }>;
+  findings: Array<{ id: number; title: string; category: string }>;
+};
+
+// GET /api/analysis/:id/traces/:traceId
+export type TraceDetail = {
+  trace: Trace;
+  position: number;
+  references: TraceReferences;
+};
+
+export type ModelRole = "chat" | "reasoning";
+
+// An entry in the model dropdowns; `value` is "<provider>:<model>" except for OpenAI models
+export type ModelOption = {
+  value: string;
+  label: string;
+  provider: string;
+  roles: ModelRole[];
+};
+
 // Farm-specific types
 export type AnimalTransaction = {
   category: string;
@@ -81,15 +519,6 @@ export type TracePattern = {
   examples: string[];
 };
 
-export type TraceInsight = {
-  id: string;
-  category: string;
-  title: string;
-  description: string;
-  icon: string;
-  color: string;
-};
-
 export type AnalysisResponse = {
   response: string;
   examples: string[];
@@ -0,0 +1,236 @@
+import type { Trace, TraceSpan } from "./schema";
+import { filterFieldValue, type FilterField } from "./filters";
+
+// Trace search syntax. Terms are separated by spaces and must all match:
+//   refund            the trace text contains the word (case and accent insensitive)
+//   "order id"        the trace text contains the phrase
+//   /refund(ed)?/i    the trace text matches the regex
+//   -term             negates any term
+//   field:value       a field equals the value ("quoted" or /regex/ values work too)
+// Fields are name, model, user, tag, error (true/false), tool, span, cluster and any metadata key.
+
+export type SearchMatcher =
+  | { type: "text"; text: string }
+  | { type: "regex"; source: string; flags: string };
+
+export type SearchTerm = {
+  field: string | null; // null matches against the trace text
+  matcher: SearchMatcher;
+  negated: boolean;
+};
+
+export type ParsedSearch = {
+  terms: SearchTerm[];
+  errors: string[];
+};
+
+// Cluster membership for cluster: terms
+export type SearchContext = {
+  clusters?: Array<{ name: string; traceIds: string[] }>;
+};
+
+const REGEX_FLAGS = /^[imsu]*$/;
+// Search runs on the server against every trace, so patterns that can backtrack without end are refused
+const MAX_REGEX_LENGTH = 200;
+const REPEAT = /^(\*|\+|\{\d+(,\d*)?\})/;
+
+// A repeated group that itself repeats, e.g. (a+)+ or (\w+\s?)*
+function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = []; // Whether each open group contains a repeat
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      const repeats = groups.pop() ?? false;
+      if (repeats && REPEAT.test(source.slice(i + 1))) return true;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && REPEAT.test(source.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// Lower-cased and accent-stripped one character at a time, so indexes into the folded text are indexes into the original
+export function foldText(text: string): string {
+  let folded = "";
+  for (const char of text) {
+    const stripped = char.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    folded += stripped.length === char.length ? stripped : char;
+  }
+  return folded;
+}
+
+export function parseSearch(input: string): ParsedSearch {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  // A "quoted" or /regex/ value starting at i, or a bare word up to the next space
+  const readValue = (): SearchMatcher | null => {
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      const text = input.slice(i + 1, end === -1 ? input.length : end);
+      if (end === -1) errors.push(`Unclosed quote in "${input.slice(i)}"`);
+      i = end === -1 ? input.length : end + 1;
+      return text.trim() ? { type: "text", text } : null;
+    }
+
+    if (input[i] === "/") {
+      let end = i + 1;
+      while (end < input.length && input[end] !== "/") end += input[end] === "\\" ? 2 : 1;
+      if (end >= input.length) {
+        errors.push(`Unclosed regex in "${input.slice(i)}"`);
+        i = input.length;
+        return null;
+      }
+      const source = input.slice(i + 1, end);
+      let flagsEnd = end + 1;
+      while (flagsEnd < input.length && /[a-z]/.test(input[flagsEnd])) flagsEnd++;
+      const flags = input.slice(end + 1, flagsEnd);
+      i = flagsEnd;
+
+      if (!REGEX_FLAGS.test(flags)) {
+        errors.push(`Unsupported regex flags "${flags}" (use i, m, s or u)`);
+        return null;
+      }
+      if (source.length > MAX_REGEX_LENGTH) {
+        errors.push(`Regex /${source.slice(0, 20)}…/ is longer than ${MAX_REGEX_LENGTH} characters`);
+        return null;
+      }
+      if (hasNestedQuantifier(source)) {
+        errors.push(`Regex /${source}/ repeats a group that already repeats; remove the inner or outer quantifier`);
+        return null;
+      }
+      try {
+        new RegExp(source, flags);
+      } catch (error) {
+        errors.push(`Invalid regex /${source}/: ${error instanceof Error ? error.message : "syntax error"}`);
+        return null;
+      }
+      return source ? { type: "regex", source, flags } : null;
+    }
+
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    const text = input.slice(start, i);
+    return text ? { type: "text", text } : null;
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    // field:value, as long as the field is a plain identifier and a value follows the colon (but not a URL's //)
+    const field = /^([A-Za-z_][\w.-]*):(?=\S)(?!\/\/)/.exec(input.slice(i));
+    if (field) i += field[0].length;
+
+    const matcher = readValue();
+    if (matcher) terms.push({ field: field ? field[1] : null, matcher, negated });
+  }
+
+  return { terms, errors };
+}
+
+function spanNames(spans: TraceSpan[], toolsOnly: boolean): string[] {
+  return spans.flatMap(span => [
+    ...(!toolsOnly || span.kind === "tool" ? [span.name] : []),
+    ...spanNames(span.children, toolsOnly),
+  ]);
+}
+
+function fieldValues(trace: Trace, field: string, context: SearchContext): string[] {
+  const asStrings = (value: unknown): string[] => {
+    if (value === undefined || value === null || value === "") return [];
+    return Array.isArray(value) ? value.map(String) : [String(value)];
+  };
+
+  switch (field.toLowerCase()) {
+    case "name": return asStrings(filterFieldValue(trace, "name"));
+    case "model": return asStrings(filterFieldValue(trace, "model"));
+    case "user": return asStrings(filterFieldValue(trace, "user"));
+    case "tag": return asStrings(filterFieldValue(trace, "tags"));
+    case "error": return asStrings(filterFieldValue(trace, "error"));
+    case "tool": return spanNames(trace.steps ?? [], true);
+    case "span": return spanNames(trace.steps ?? [], false);
+    case "cluster":
+      // Cluster names are stored snake_cased but shown with spaces; both spellings match
+      return (context.clusters ?? [])
+        .filter(cluster => cluster.traceIds.includes(trace.id))
+        .flatMap(cluster => [cluster.name, cluster.name.replace(/_/g, " ")]);
+    default: return asStrings(filterFieldValue(trace, `metadata.${field}` as FilterField));
+  }
+}
+
+type CompiledTerm = SearchTerm & { folded: string; regex: RegExp | null };
+
+export type SearchMatch = {
+  matches: (trace: Trace) => boolean;
+  highlights: (text: string) => Array<[number, number]>; // Sorted, non-overlapping [start, end) ranges
+};
+
+// Build the matcher once per query; terms with parse errors are already left out
+export function createSearchMatcher(search: ParsedSearch, context: SearchContext = {}): SearchMatch {
+  const terms: CompiledTerm[] = search.terms.map(term => ({
+    ...term,
+    folded: term.matcher.type === "text" ? foldText(term.matcher.text) : "",
+    regex: term.matcher.type === "regex" ? new RegExp(term.matcher.source, term.matcher.flags) : null,
+  }));
+
+  const termMatches = (trace: Trace, foldedText: string, term: CompiledTerm): boolean => {
+    if (term.field === null) {
+      return term.regex ? term.regex.test(trace.text) : foldedText.includes(term.folded);
+    }
+    // Field values have to match whole; use a regex for partial matches
+    return fieldValues(trace, term.field, context).some(value =>
+      term.regex ? term.regex.test(value) : foldText(value) === term.folded
+    );
+  };
+
+  const highlights = (text: string): Array<[number, number]> => {
+    const ranges: Array<[number, number]> = [];
+    const folded = foldText(text);
+    for (const term of terms) {
+      if (term.negated || term.field !== null) continue;
+      if (term.regex) {
+        for (const match of Array.from(text.matchAll(new RegExp(term.regex.source, `${term.regex.flags}g`)))) {
+          if (match[0].length > 0) ranges.push([match.index!, match.index! + match[0].length]);
+        }
+      } else {
+        for (let at = folded.indexOf(term.folded); at !== -1; at = folded.indexOf(term.folded, at + term.folded.length)) {
+          ranges.push([at, at + term.folded.length]);
+        }
+      }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else merged.push([range[0], range[1]]);
+    }
+    return merged;
+  };
+
+  return {
+    matches: (trace) => {
+      const foldedText = foldText(trace.text);
+      return terms.every(term => termMatches(trace, foldedText, term) !== term.negated);
+    },
+    highlights,
+  };
+}
@@ -0,0 +1,102 @@
+import type { PromptKind } from "./schema";
+
+// Prompt templates use {name} placeholders. Every kind declares the variables it fills in,
+// so a typo like {trace} is reported instead of being sent to the model as literal text.
+
+export type TemplateVariable = {
+  name: string;
+  description: string;
+  required?: boolean;
+};
+
+export type TemplateIssue = {
+  severity: "error" | "warning";
+  message: string;
+};
+
+export const PROMPT_VARIABLES: Record<PromptKind, TemplateVariable[]> = {
+  analysis: [
+    { name: "traces", description: "The traces selected for the question, one per line with its line number", required: true },
+    { name: "conversation", description: "Earlier turns (or their summary) followed by the current question" },
+    { name: "query", description: "The current question on its own" },
+    { name: "datasets", description: "Uploaded datasets with a preview of their examples" },
+    { name: "datasetNames", description: "Comma-separated names of the uploaded datasets" },
+    { name: "datasetCount", description: "Number of uploaded datasets" },
+    { name: "traceCount", description: "Number of traces in the analysis" },
+    { name: "sampleSize", description: "Number of traces included in {traces}" },
+  ],
+  reasoning: [
+    { name: "traces", description: "Candidate traces, one per line with its line number", required: true },
+    { name: "conversation", description: "The conversation ending with the answer whose categories are used as tags", required: true },
+    { name: "query", description: "The current question on its own" },
+    { name: "response", description: "The answer to the current question on its own" },
+    { name: "traceCount", description: "Number of candidate traces" },
+  ],
+  batch: [
+    { name: "query", description: "What the batch job looks for", required: true },
+    { name: "traces", description: "The traces in the current chunk, one per line with its line number", required: true },
+    { name: "maxResults", description: "Maximum number of matches to return" },
+    { name: "part", description: "Number of the current chunk" },
+    { name: "parts", description: "Total number of chunks" },
+  ],
+};
+
+const PLACEHOLDER = /\{([A-Za-z][A-Za-z0-9_]*)\}/g;
+
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+// Edit distance, to suggest the declared variable a typo was meant to be
+function distance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+export function validateTemplate(kind: PromptKind, template: string): TemplateIssue[] {
+  const variables = PROMPT_VARIABLES[kind];
+  const declared = new Set(variables.map(variable => variable.name));
+  const used = templatePlaceholders(template);
+  const issues: TemplateIssue[] = [];
+
+  if (!template.trim()) {
+    return [{ severity: "error", message: "The prompt is empty" }];
+  }
+
+  for (const name of used.filter(name => !declared.has(name))) {
+    const suggestion = variables
+      .map(variable => ({ name: variable.name, distance: distance(name, variable.name) }))
+      .filter(candidate => candidate.distance <= 2)
+      .sort((a, b) => a.distance - b.distance)[0];
+    issues.push({
+      severity: "error",
+      message: `Unknown variable {${name}}${suggestion ? ` - did you mean {${suggestion.name}}?` : ''}`,
+    });
+  }
+
+  for (const variable of variables.filter(variable => variable.required && !used.includes(variable.name))) {
+    issues.push({ severity: "error", message: `Missing {${variable.name}} - ${variable.description.toLowerCase()}` });
+  }
+
+  if (kind === "analysis" && !used.includes("conversation") && !used.includes("query")) {
+    issues.push({ severity: "warning", message: "Neither {conversation} nor {query} is used, so the model never sees the question" });
+  }
+
+  return issues;
+}
+
+// Fill every occurrence of each placeholder. Placeholders without a value are left as written.
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder
+  );
+}
@@ -0,0 +1,21 @@
+// Stable trace ids: the trace's position in the upload plus a hash of its text.
+// Computed the same way on the server and in the browser, so the client's cached
+// trace lines map back to the same ids as the analysis they came from.
+
+// 32-bit FNV-1a, hex encoded
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function computeTraceId(text: string, position: number): string {
+  return `${position}-${hashText(text)}`;
+}
+
+export function withTraceIds<T extends { text: string }>(traces: T[]): Array<T & { id: string }> {
+  return traces.map((trace, position) => ({ ...trace, id: computeTraceId(trace.text, position) }));
+}